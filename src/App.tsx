@@ -1,45 +1,203 @@
-import React, { useEffect, useMemo, useState } from "react";
-
-type WatchItem = {
-  id: string;
-  model: string;
-  purchasePrice: number;
-  partsCost: number;
-  postedPrice?: number | null;
-  soldPrice?: number | null;
-  status: "Available" | "Sold";
-  dateSold?: string | null; // YYYY-MM-DD
-  purchaseDate?: string | null; // YYYY-MM-DD
-  notes?: string;
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import type {
+  Contact,
+  CostEntry,
+  ExchangeRate,
+  HistoryEntry,
+  Listing,
+  MappingProfile,
+  Offer,
+  Settings,
+  StatusGroup,
+  PhotoStage,
+  TableId,
+  TableLayout,
+  WatchItem,
+  Tag,
+  WatchPhoto,
+  WearLog,
+} from "./types.ts";
+import {
+  getStorage,
+  loadSnapshot,
+  writeDiff,
+  type StorageEngine,
+  type StoreName,
+  type StoreRecords,
+  type StoreSnapshot,
+} from "./storage/index.ts";
+import { parseCSV, toCSV } from "./csv.ts";
+import { formatTotalDuration } from "./formats.ts";
+import {
+  COMMON_CURRENCIES,
+  LEGACY_CURRENCY,
+  createConverter,
+  createExchange,
+  currencyOf,
+  reportingAmounts,
+  toCurrency,
+} from "./currency.ts";
+import { downloadFile } from "./download.ts";
+import {
+  dangerButtonStyle,
+  inputStyle,
+  primaryButtonStyle,
+  subtleButtonStyle,
+  tabButtonStyle,
+} from "./styles.ts";
+import { watchesCSV, type ImportPlan } from "./watchImport.ts";
+import type { WatchFormMode } from "./watchForm.ts";
+import {
+  createBackup,
+  createBackupArchive,
+  readBackup,
+  readBackupArchive,
+  type BackupData,
+  type BackupReadResult,
+} from "./backup.ts";
+import ImportWatchesDialog from "./components/ImportWatchesDialog.tsx";
+import BackupImportDialog from "./components/BackupImportDialog.tsx";
+import ExchangeRatesPanel from "./components/ExchangeRatesPanel.tsx";
+import CostLedgerDialog from "./components/CostLedgerDialog.tsx";
+import FeeProfilesPanel from "./components/FeeProfilesPanel.tsx";
+import WatchFormDialog from "./components/WatchFormDialog.tsx";
+import WearLogDialog from "./components/WearLogDialog.tsx";
+import Toast from "./components/Toast.tsx";
+import {
+  applyChanges,
+  createEntry,
+  diffChanges,
+  pushEntry,
+  redoTarget,
+  undoTarget,
+} from "./history.ts";
+import {
+  ledgerOf,
+  splitAmount,
+  withAddedCost,
+  withLedger,
+} from "./costLedger.ts";
+import { DEFAULT_FEE_PROFILES, NO_FEES, totalFees } from "./fees.ts";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  forgetWatches,
+  isTrashed,
+  moveToTrash,
+  purgeExpiredTrash,
+  restoreFromTrash,
+} from "./trash.ts";
+import TrashPanel from "./components/TrashPanel.tsx";
+import {
+  allowedNext,
+  ARCHIVED,
+  AVAILABLE,
+  DEFAULT_LIFECYCLE,
+  SOLD,
+  statusGroup,
+  statusInfo,
+  withInitialStatus,
+  withoutSale,
+  withStatus,
+} from "./lifecycle.ts";
+import StatusSelect from "./components/StatusSelect.tsx";
+import StatusHistoryDialog from "./components/StatusHistoryDialog.tsx";
+import LifecyclePanel from "./components/LifecyclePanel.tsx";
+import SalesBreakdownPanel from "./components/SalesBreakdownPanel.tsx";
+import PhotoThumb from "./components/PhotoThumb.tsx";
+import SearchBar from "./components/SearchBar.tsx";
+import DataTable from "./components/DataTable.tsx";
+import TagChips from "./components/TagChips.tsx";
+import TagPicker from "./components/TagPicker.tsx";
+import TagsPanel from "./components/TagsPanel.tsx";
+import StatsChartsPanel from "./components/StatsChartsPanel.tsx";
+import TaxReportDialog from "./components/TaxReportDialog.tsx";
+import InventoryValuationPanel from "./components/InventoryValuationPanel.tsx";
+import ListingLogDialog from "./components/ListingLogDialog.tsx";
+import ListingReportPanel from "./components/ListingReportPanel.tsx";
+import ContactsPanel from "./components/ContactsPanel.tsx";
+import OffersDialog from "./components/OffersDialog.tsx";
+import {
+  DEFAULT_PRICE_DROP_DAYS,
+  daysListed,
+  listingReport,
+  listingsOf,
+  priceDrops,
+  reconcileListings,
+  staleListing,
+  withListings,
+  type ListingOutcome,
+} from "./listings.ts";
+import { inventoryValuation } from "./valuation.ts";
+import {
+  contactHistory,
+  contactLabel,
+  createContact,
+  pendingOffers,
+  withoutContact,
+} from "./contacts.ts";
+import {
+  annualisedReturn,
+  averageDays,
+  formatReturn,
+  holdingDays,
+  turnoverRatio,
+} from "./turnover.ts";
+import {
+  DEFAULT_TAX_SETTINGS,
+  taxReportCSV,
+  taxReportHTML,
+  type TaxInput,
+  type TaxReport,
+} from "./taxReport.ts";
+import {
+  dayKey,
+  inRange,
+  inventoryValue,
+  presetRange,
+  type DateRange,
+  type Holding,
+  type RangePreset,
+} from "./charts.ts";
+import {
+  createTag,
+  formatTagList,
+  tagsOf,
+  tagStats,
+  withTag,
+  withoutTag,
+} from "./tags.ts";
+import BatchActionsBar from "./components/BatchActionsBar.tsx";
+import BatchSellDialog from "./components/BatchSellDialog.tsx";
+import BatchCostDialog, {
+  type BatchCost,
+} from "./components/BatchCostDialog.tsx";
+import { EMPTY_LAYOUT, type Column } from "./table.ts";
+import { compileQuery } from "./query.ts";
+import PhotoGalleryDialog from "./components/PhotoGalleryDialog.tsx";
+import { createPhoto, revokePhotoUrls } from "./photos.ts";
+import { attributeSummary, findWatch } from "./attributes.ts";
+
+const STORAGE_SETTINGS = "watch-tracker-settings-v1";
+
+const DEFAULT_SETTINGS: Settings = {
+  maxSessionHours: 16,
+  reportingCurrency: LEGACY_CURRENCY,
+  feeProfiles: DEFAULT_FEE_PROFILES,
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  lifecycle: DEFAULT_LIFECYCLE,
+  savedSearches: [],
+  tags: [],
+  tableLayouts: {},
+  tax: DEFAULT_TAX_SETTINGS,
+  priceDropDays: DEFAULT_PRICE_DROP_DAYS,
 };
 
-type WearLog = {
-  id: string;
-  watchId: string;
-  start: string; // ISO datetime
-  end: string | null; // ISO datetime or null if still wearing
-};
-
-type BackupFileV1 = {
-  version: 1;
-  exportedAt: string; // ISO timestamp
-  items: WatchItem[];
-  wearLogs: WearLog[];
-};
-
-const STORAGE_ITEMS = "watch-tracker-items-v1";
-const STORAGE_WEAR = "watch-tracker-wear-v2";
-
-const parseNumber = (v: string) => {
-  const n = Number(v.replace(/[^0-9.\-]/g, ""));
-  return Number.isFinite(n) ? n : 0;
-};
-
-const toCurrency = (n: number | null | undefined) =>
-  typeof n === "number" && !Number.isNaN(n)
-    ? n.toLocaleString(undefined, { style: "currency", currency: "USD" })
-    : "—";
-
 const formatDateTime = (iso: string | null) => {
   if (!iso) return "—";
   const d = new Date(iso);
@@ -60,60 +218,443 @@ const formatDuration = (start: string, end: string | null) => {
   return rem ? `${hours}h ${rem}m` : `${hours}h`;
 };
 
-const formatTotalDuration = (totalMinutes: number) => {
-  const mins = Math.round(totalMinutes);
-  if (mins < 60) return `${mins} min`;
-  const hours = Math.floor(mins / 60);
-  const rem = mins % 60;
-  if (hours < 24) {
-    return rem ? `${hours}h ${rem}m` : `${hours}h`;
+// Open sessions count up to "now", but never past the configured max length,
+// so a forgotten session doesn't keep inflating wear totals overnight.
+const effectiveEnd = (log: WearLog, maxSessionHours: number) => {
+  if (log.end) return new Date(log.end);
+  const now = new Date();
+  const cap = new Date(
+    new Date(log.start).getTime() + maxSessionHours * 3600000
+  );
+  return cap < now ? cap : now;
+};
+
+const closeOpenLogs = (logs: WearLog[], at: string) =>
+  logs.map((log) => (log.end === null ? { ...log, end: at } : log));
+
+// An open session older than the max session length was most likely
+// forgotten; on load the user is asked when it actually ended.
+const staleSession = (logs: WearLog[], settings: Settings) => {
+  const open = logs.find((l) => l.end === null);
+  if (!open) return null;
+  const start = new Date(open.start).getTime();
+  if (Number.isNaN(start)) return null;
+  return start + settings.maxSessionHours * 3600000 <= Date.now()
+    ? open
+    : null;
+};
+
+type SoldRow = WatchItem & {
+  // in the reporting currency; null when an exchange rate is missing
+  totalCost: number | null;
+  soldValue: number | null;
+  fees: number | null;
+  grossProfit: number | null;
+  profit: number | null; // net of selling fees
+  missingRate: boolean;
+  wearCount: number;
+  daysToSell: number | null; // null unless both dates are set
+  annualisedReturn: number | null;
+};
+
+const profitColor = (profit: number | null) =>
+  typeof profit === "number"
+    ? profit > 0
+      ? "#4ade80"
+      : profit < 0
+      ? "#f97373"
+      : "#e5e7eb"
+    : "#9ca3af";
+
+// Until the user sorts, Stats lists the most-worn watches first.
+const DEFAULT_TABLE_LAYOUTS: Record<TableId, TableLayout> = {
+  inventory: EMPTY_LAYOUT,
+  sold: EMPTY_LAYOUT,
+  wear: EMPTY_LAYOUT,
+  stats: { ...EMPTY_LAYOUT, sort: [{ column: "worn", desc: true }] },
+};
+
+const summariseSold = (rows: SoldRow[]) =>
+  rows.reduce(
+    (acc, w) => {
+      if (typeof w.totalCost === "number") acc.totalCost += w.totalCost;
+      if (typeof w.soldValue === "number") acc.totalSold += w.soldValue;
+      if (typeof w.fees === "number") acc.totalFees += w.fees;
+      if (typeof w.grossProfit === "number") {
+        acc.totalGrossProfit += w.grossProfit;
+      }
+      if (typeof w.profit === "number") acc.totalProfit += w.profit;
+      return acc;
+    },
+    {
+      totalCost: 0,
+      totalSold: 0,
+      totalFees: 0,
+      totalGrossProfit: 0,
+      totalProfit: 0,
+    }
+  );
+
+const loadSettings = (): Settings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_SETTINGS);
+    if (raw) return { ...DEFAULT_SETTINGS, ...JSON.parse(raw) };
+  } catch (e) {
+    console.error("Failed to load settings", e);
   }
-  const days = Math.floor(hours / 24);
-  const remHours = hours % 24;
-  if (!remHours && !rem) return `${days}d`;
-  if (!rem) return `${days}d ${remHours}h`;
-  return `${days}d ${remHours}h ${rem}m`;
+  return DEFAULT_SETTINGS;
+};
+
+const byPurchaseDateDesc = (a: WatchItem, b: WatchItem) =>
+  (b.purchaseDate || "").localeCompare(a.purchaseDate || "") ||
+  a.model.localeCompare(b.model);
+
+const byStartDesc = (a: WearLog, b: WearLog) => b.start.localeCompare(a.start);
+
+type LoadedStorage = { engine: StorageEngine; snapshot: StoreSnapshot };
+
+// Writes per-record changes to `store` whenever its state changes after load.
+const usePersistedStore = <S extends StoreName>(
+  storage: LoadedStorage | null,
+  store: S,
+  records: StoreRecords[S][]
+) => {
+  // What the engine currently holds, so only changed records are written.
+  const persisted = useRef<StoreRecords[S][] | null>(null);
+
+  useEffect(() => {
+    if (!storage) return;
+    const prev =
+      persisted.current ?? (storage.snapshot[store] as StoreRecords[S][]);
+    writeDiff(storage.engine, store, prev, records);
+    persisted.current = records;
+  }, [storage, store, records]);
 };
 
 const useLocalData = () => {
   const [items, setItems] = useState<WatchItem[]>([]);
   const [wearLogs, setWearLogs] = useState<WearLog[]>([]);
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>(
+    []
+  );
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [photos, setPhotos] = useState<WatchPhoto[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+  const [storage, setStorage] = useState<LoadedStorage | null>(null);
+  const staleChecked = useRef(false);
+  // Open session found stale on load, waiting for its real end time
+  const [staleLogId, setStaleLogId] = useState<string | null>(null);
 
   useEffect(() => {
-    try {
-      const rawItems = localStorage.getItem(STORAGE_ITEMS);
-      if (rawItems) setItems(JSON.parse(rawItems));
-    } catch (e) {
-      console.error("Failed to load items", e);
-    }
+    let cancelled = false;
+
+    getStorage()
+      .then(async (engine) => {
+        const snapshot = await loadSnapshot(engine);
+        if (cancelled) return;
+
+        snapshot.items.sort(byPurchaseDateDesc);
+        snapshot.wearLogs.sort(byStartDesc);
+
+        const {
+          items: kept,
+          wearLogs: keptLogs,
+          history: keptHistory,
+        } = purgeExpiredTrash(
+          snapshot.items,
+          snapshot.wearLogs,
+          snapshot.history,
+          loadSettings().trashRetentionDays
+        );
 
-    try {
-      const rawWear = localStorage.getItem(STORAGE_WEAR);
-      if (rawWear) {
-        const parsed = JSON.parse(rawWear);
-        if (Array.isArray(parsed)) setWearLogs(parsed);
-      }
-    } catch (e) {
-      console.error("Failed to load wear logs", e);
-    }
+        if (!staleChecked.current) {
+          staleChecked.current = true;
+          setStaleLogId(staleSession(keptLogs, loadSettings())?.id ?? null);
+        }
+
+        setItems(kept);
+        setWearLogs(keptLogs);
+        setMappingProfiles(snapshot.mappingProfiles);
+        setExchangeRates(snapshot.exchangeRates);
+        setHistory(keptHistory);
+        // Photos aren't in the undo history; once their watch is gone for
+        // good they go too.
+        const keptIds = new Set(kept.map((w) => w.id));
+        setPhotos(snapshot.photos.filter((p) => keptIds.has(p.watchId)));
+        setContacts(snapshot.contacts);
+        setStorage({ engine, snapshot });
+      })
+      .catch((e) => console.error("Failed to load data", e));
+
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
+  usePersistedStore(storage, "items", items);
+  usePersistedStore(storage, "wearLogs", wearLogs);
+  usePersistedStore(storage, "mappingProfiles", mappingProfiles);
+  usePersistedStore(storage, "exchangeRates", exchangeRates);
+  usePersistedStore(storage, "history", history);
+  usePersistedStore(storage, "photos", photos);
+  usePersistedStore(storage, "contacts", contacts);
+
   useEffect(() => {
-    localStorage.setItem(STORAGE_ITEMS, JSON.stringify(items));
-  }, [items]);
+    localStorage.setItem(STORAGE_SETTINGS, JSON.stringify(settings));
+  }, [settings]);
+
+  return {
+    items,
+    setItems,
+    wearLogs,
+    setWearLogs,
+    mappingProfiles,
+    setMappingProfiles,
+    exchangeRates,
+    setExchangeRates,
+    history,
+    setHistory,
+    photos,
+    setPhotos,
+    contacts,
+    setContacts,
+    staleLogId,
+    setStaleLogId,
+    settings,
+    setSettings,
+  };
+};
+
+type JournalUpdate = {
+  items?: (prev: WatchItem[]) => WatchItem[];
+  wearLogs?: (prev: WearLog[]) => WearLog[];
+  contacts?: (prev: Contact[]) => Contact[];
+  tags?: (prev: Tag[]) => Tag[];
+};
 
+// All changes to watches, wear logs, contacts and tag definitions go
+// through `record`, which keeps the before/after of every touched record in
+// the persisted history so the action can be undone and redone later, even
+// after a reload. Renaming or recolouring a tag is a settings change.
+const useJournal = ({
+  items,
+  setItems,
+  wearLogs,
+  setWearLogs,
+  contacts,
+  setContacts,
+  tags,
+  setTags,
+  history,
+  setHistory,
+}: Pick<
+  ReturnType<typeof useLocalData>,
+  | "items"
+  | "setItems"
+  | "wearLogs"
+  | "setWearLogs"
+  | "contacts"
+  | "setContacts"
+  | "history"
+  | "setHistory"
+> & {
+  tags: Tag[]; // kept in the settings
+  setTags: (tags: Tag[]) => void;
+}) => {
+  // Latest state, also advanced by `record` itself so two actions in one
+  // event build on each other.
+  const latest = useRef({ items, wearLogs, contacts, tags });
   useEffect(() => {
-    localStorage.setItem(STORAGE_WEAR, JSON.stringify(wearLogs));
-  }, [wearLogs]);
+    latest.current = { items, wearLogs, contacts, tags };
+  }, [items, wearLogs, contacts, tags]);
+
+  const commit = (next: typeof latest.current) => {
+    const prev = latest.current;
+    latest.current = next;
+    setItems(next.items);
+    setWearLogs(next.wearLogs);
+    setContacts(next.contacts);
+    // Tags live in the settings, which are saved on every change.
+    if (next.tags !== prev.tags) setTags(next.tags);
+  };
 
-  return { items, setItems, wearLogs, setWearLogs };
+  // Returns the history entry's id, or null when nothing changed.
+  const record = (label: string, update: JournalUpdate) => {
+    const prev = latest.current;
+    const next = {
+      items: update.items ? update.items(prev.items) : prev.items,
+      wearLogs: update.wearLogs ? update.wearLogs(prev.wearLogs) : prev.wearLogs,
+      contacts: update.contacts ? update.contacts(prev.contacts) : prev.contacts,
+      tags: update.tags ? update.tags(prev.tags) : prev.tags,
+    };
+    const changes = [
+      ...diffChanges("items", prev.items, next.items),
+      ...diffChanges("wearLogs", prev.wearLogs, next.wearLogs),
+      ...diffChanges("contacts", prev.contacts, next.contacts),
+      ...diffChanges("tags", prev.tags, next.tags),
+    ];
+    if (!changes.length) return null;
+
+    const entry = createEntry(label, changes);
+    commit(next);
+    setHistory((h) => pushEntry(h, entry));
+    return entry.id;
+  };
+
+  const step = (entry: HistoryEntry | null, side: "before" | "after") => {
+    if (!entry) return;
+    const prev = latest.current;
+    const next = {
+      items: applyChanges("items", prev.items, entry.changes, side),
+      wearLogs: applyChanges("wearLogs", prev.wearLogs, entry.changes, side),
+      contacts: applyChanges("contacts", prev.contacts, entry.changes, side),
+      tags: applyChanges("tags", prev.tags, entry.changes, side),
+    };
+    commit(next);
+    setHistory((h) =>
+      h.map((e) =>
+        e.id === entry.id ? { ...e, undone: side === "before" } : e
+      )
+    );
+  };
+
+  // Deletes watches for good, outside the history: their records are also
+  // wiped from every entry, so nothing can bring them back.
+  const purge = (ids: Set<string>) => {
+    const prev = latest.current;
+    const next = {
+      ...prev,
+      items: prev.items.filter((w) => !ids.has(w.id)),
+      wearLogs: prev.wearLogs.filter((l) => !ids.has(l.watchId)),
+    };
+    commit(next);
+    setHistory((h) => forgetWatches(h, ids));
+  };
+
+  const undoEntry = undoTarget(history);
+  const redoEntry = redoTarget(history);
+
+  return {
+    record,
+    purge,
+    undo: () => step(undoEntry, "before"),
+    redo: () => step(redoEntry, "after"),
+    undoEntry,
+    redoEntry,
+  };
 };
 
 const App: React.FC = () => {
-  const { items, setItems, wearLogs, setWearLogs } = useLocalData();
+  const {
+    items,
+    setItems,
+    wearLogs,
+    setWearLogs,
+    mappingProfiles,
+    setMappingProfiles,
+    exchangeRates,
+    setExchangeRates,
+    history,
+    setHistory,
+    photos,
+    setPhotos,
+    contacts,
+    setContacts,
+    staleLogId,
+    setStaleLogId,
+    settings,
+    setSettings,
+  } = useLocalData();
+  const journal = useJournal({
+    items,
+    setItems,
+    wearLogs,
+    setWearLogs,
+    contacts,
+    setContacts,
+    tags: settings.tags,
+    setTags: (tags) => setSettings((prev) => ({ ...prev, tags })),
+    history,
+    setHistory,
+  });
+  const { record } = journal;
+
+  // Trashed watches and their wear logs only show up in the Trash tab.
+  const activeItems = useMemo(
+    () => items.filter((w) => !isTrashed(w)),
+    [items]
+  );
+  const trashedItems = useMemo(() => items.filter(isTrashed), [items]);
+  const activeWearLogs = useMemo(() => {
+    const trashedIds = new Set(trashedItems.map((w) => w.id));
+    return wearLogs.filter((l) => !trashedIds.has(l.watchId));
+  }, [wearLogs, trashedItems]);
+
+  const photosByWatch = useMemo(() => {
+    const map = new Map<string, WatchPhoto[]>();
+    photos.forEach((p) => {
+      map.set(p.watchId, [...(map.get(p.watchId) ?? []), p]);
+    });
+    map.forEach((list) =>
+      list.sort((a, b) => a.addedAt.localeCompare(b.addedAt))
+    );
+    return map;
+  }, [photos]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes. Text fields keep
+  // their own undo. The listener stays put and reads the latest journal.
+  const latestJournal = useRef(journal);
+  useEffect(() => {
+    latestJournal.current = journal;
+  });
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.isContentEditable ||
+          ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+      ) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        latestJournal.current.undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        latestJournal.current.redo();
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  // Undo offer shown after a destructive action
+  const [toast, setToast] = useState<{
+    entryId: string;
+    message: string;
+  } | null>(null);
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  // Records an action that loses data and offers to undo it.
+  const recordDestructive = (label: string, update: JournalUpdate) => {
+    const entryId = record(label, update);
+    if (entryId) setToast({ entryId, message: label });
+  };
   const [activeTab, setActiveTab] =
-    useState<"inventory" | "sold" | "wear" | "stats">("inventory");
+    useState<"inventory" | "sold" | "wear" | "stats" | "contacts" | "trash">(
+      "inventory"
+    );
+  const [showArchived, setShowArchived] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [groupByStatus, setGroupByStatus] = useState(false);
   const [search, setSearch] = useState("");
+  // Tag ids; a watch shows when it has any of them.
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
 
   // Filters
   const [soldYearFilter, setSoldYearFilter] = useState<string>("all");
@@ -121,73 +662,235 @@ const App: React.FC = () => {
     "all" | "profit" | "loss" | "breakeven"
   >("all");
   const [wearWatchFilter, setWearWatchFilter] = useState<string>("all");
+  // Date range for the Stats charts: a preset, or dates picked by hand.
+  const [statsRange, setStatsRange] = useState<RangePreset | DateRange>(
+    "12m"
+  );
+
+  // CSV import waiting for confirmation in the preview dialog
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    header: string[];
+    records: string[][];
+  } | null>(null);
+
+  // Backup restore waiting for confirmation
+  const [pendingRestore, setPendingRestore] = useState<{
+    fileName: string;
+    result: Extract<BackupReadResult, { ok: true }>;
+  } | null>(null);
+
+  // Watch add/edit/sale form; watchId is null when adding. targetStatus is
+  // the sold-group status a sale form moves the watch to.
+  const [taxReportOpen, setTaxReportOpen] = useState(false);
+  const [watchForm, setWatchForm] = useState<{
+    mode: WatchFormMode;
+    watchId: string | null;
+    targetStatus?: string;
+  } | null>(null);
+
+  // Checked rows in the Inventory and Sold tables, and the batch dialog open
+  // for them.
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(
+    () => new Set()
+  );
+  const [batchDialog, setBatchDialog] = useState<
+    | { kind: "sell"; ids: string[]; targetStatus: string }
+    | { kind: "cost"; ids: string[] }
+    | null
+  >(null);
+
+  // Watch whose status history is open
+  const [historyWatchId, setHistoryWatchId] = useState<string | null>(null);
+
+  // Wear entry being edited; requireEnd for "Took it off at…"
+  const [wearLogForm, setWearLogForm] = useState<{
+    logId: string;
+    requireEnd: boolean;
+  } | null>(null);
 
-  // Quick Add form state
-  const [showAdd, setShowAdd] = useState(false);
-  const [newModel, setNewModel] = useState("");
-  const [newPurchase, setNewPurchase] = useState("");
-  const [newParts, setNewParts] = useState("");
-  const [newPurchaseDate, setNewPurchaseDate] = useState("");
+  // Watch whose cost ledger is open
+  const [ledgerWatchId, setLedgerWatchId] = useState<string | null>(null);
+  const [listingWatchId, setListingWatchId] = useState<string | null>(null);
+  const [offersWatchId, setOffersWatchId] = useState<string | null>(null);
+
+  // Watch whose photo gallery is open
+  const [galleryWatchId, setGalleryWatchId] = useState<string | null>(null);
 
   const nowISO = () => new Date().toISOString();
 
+  // Converts native prices into the reporting currency at historic rates.
+  const convert = useMemo(
+    () => createConverter(exchangeRates, settings.reportingCurrency),
+    [exchangeRates, settings.reportingCurrency]
+  );
+  const exchange = useMemo(
+    () => createExchange(exchangeRates),
+    [exchangeRates]
+  );
+
+  const contactsById = useMemo(
+    () => new Map(contacts.map((c) => [c.id, c])),
+    [contacts]
+  );
+  // What seller:/buyer: search: the contact's name and handle.
+  const contactText = useCallback(
+    (id: string | null | undefined) => {
+      const contact = id ? contactsById.get(id) : undefined;
+      return contact ? contactLabel(contact) : "";
+    },
+    [contactsById]
+  );
+
+  // The search box query, applied the same way on every tab.
+  const compiledQuery = useMemo(() => compileQuery(search), [search]);
+
+  const matchingIds = useMemo(() => {
+    const wear = new Map<string, { count: number; minutes: number }>();
+    wearLogs.forEach((log) => {
+      const entry = wear.get(log.watchId) ?? { count: 0, minutes: 0 };
+      const ms =
+        effectiveEnd(log, settings.maxSessionHours).getTime() -
+        new Date(log.start).getTime();
+      entry.count += 1;
+      if (ms > 0) entry.minutes += ms / 60000;
+      wear.set(log.watchId, entry);
+    });
+
+    const matching = compiledQuery.empty
+      ? activeItems
+      : activeItems.filter((w) => {
+          const amounts = reportingAmounts(w, convert);
+          return compiledQuery.test({
+            watch: w,
+            group: statusGroup(settings.lifecycle, w.status),
+            totalCost: amounts.totalCost,
+            soldValue: amounts.sold,
+            profit: amounts.profit,
+            wearCount: wear.get(w.id)?.count ?? 0,
+            wornHours: (wear.get(w.id)?.minutes ?? 0) / 60,
+            tags: tagsOf(w, settings.tags).map((t) => t.name),
+            seller: contactText(w.sellerId),
+            buyer: contactText(w.buyerId),
+          });
+        });
+    return new Set(
+      matching
+        .filter(
+          (w) =>
+            !tagFilter.length || !!w.tags?.some((id) => tagFilter.includes(id))
+        )
+        .map((w) => w.id)
+    );
+  }, [
+    activeItems,
+    wearLogs,
+    compiledQuery,
+    tagFilter,
+    convert,
+    settings,
+    contactText,
+  ]);
+
+  // Autocomplete values for the search box.
+  const queryValues = useMemo(() => {
+    const distinct = (values: (string | undefined)[]) =>
+      Array.from(new Set(values.filter((v): v is string => !!v))).sort();
+    return {
+      model: distinct(activeItems.map((w) => w.model)),
+      brand: distinct(activeItems.map((w) => w.brand)),
+      movement: distinct(activeItems.map((w) => w.movement)),
+      material: distinct(activeItems.map((w) => w.caseMaterial)),
+      channel: distinct(settings.feeProfiles.map((p) => p.name)),
+      tag: settings.tags.map((t) => t.name),
+      seller: contacts.map((c) => c.name),
+      buyer: contacts.map((c) => c.name),
+      status: [
+        ...settings.lifecycle.statuses.map((s) => s.name),
+        "inventory",
+        "sold",
+        "archived",
+      ],
+    };
+  }, [activeItems, settings, contacts]);
+
   const derived = useMemo(() => {
     const wearCountMap: Record<string, number> = {};
     wearLogs.forEach((log) => {
       wearCountMap[log.watchId] = (wearCountMap[log.watchId] || 0) + 1;
     });
 
-    const searchLower = search.toLowerCase();
+    const { lifecycle } = settings;
+    const groupOf = (w: WatchItem) => statusGroup(lifecycle, w.status);
 
-    const available = items
+    const available = activeItems
       .filter(
         (w) =>
-          w.status === "Available" &&
-          w.model.toLowerCase().includes(searchLower)
+          (groupOf(w) === "inventory" ||
+            (showArchived && groupOf(w) === "archived")) &&
+          (statusFilter === "all" || w.status === statusFilter) &&
+          matchingIds.has(w.id)
       )
       .map((w) => ({ ...w, wearCount: wearCountMap[w.id] || 0 }));
 
-    const soldRaw = items.filter(
+    // Keeps the lifecycle's order so groups read like the pipeline.
+    if (groupByStatus) {
+      const rank = (status: string) => {
+        const i = lifecycle.statuses.findIndex((s) => s.name === status);
+        return i === -1 ? lifecycle.statuses.length : i;
+      };
+      available.sort((a, b) => rank(a.status) - rank(b.status));
+    }
+
+    const soldRaw = activeItems.filter(
       (w) =>
-        w.status === "Sold" &&
-        w.model.toLowerCase().includes(searchLower)
+        groupOf(w) === "sold" && matchingIds.has(w.id)
     );
 
-    const sold = soldRaw.map((w) => {
-      const totalCost = w.purchasePrice + w.partsCost;
-      const profit =
-        typeof w.soldPrice === "number" ? w.soldPrice - totalCost : null;
+    const sold: SoldRow[] = soldRaw.map((w) => {
+      const amounts = reportingAmounts(w, convert);
+      const daysToSell = w.dateSold
+        ? holdingDays(w.purchaseDate, w.dateSold)
+        : null;
       return {
         ...w,
-        totalCost,
-        profit,
+        totalCost: amounts.totalCost,
+        soldValue: amounts.sold,
+        fees: amounts.fees,
+        grossProfit: amounts.grossProfit,
+        profit: amounts.profit,
+        missingRate: amounts.missingRate,
         wearCount: wearCountMap[w.id] || 0,
+        daysToSell,
+        annualisedReturn: annualisedReturn(
+          amounts.profit,
+          amounts.totalCost,
+          daysToSell
+        ),
       };
     });
 
-    const soldSummary = sold.reduce(
-      (acc, w: any) => {
-        acc.totalCost += w.totalCost;
-        if (typeof w.soldPrice === "number") {
-          acc.totalSold += w.soldPrice;
-        }
-        if (typeof w.profit === "number") {
-          acc.totalProfit += w.profit;
-        }
-        return acc;
-      },
-      { totalCost: 0, totalSold: 0, totalProfit: 0 }
-    );
+    const soldSummary = summariseSold(sold);
 
-    const activeWear = wearLogs.find((l) => l.end === null) || null;
+    const activeWear = activeWearLogs.find((l) => l.end === null) || null;
 
     return { available, sold, soldSummary, wearCountMap, activeWear };
-  }, [items, wearLogs, search]);
+  }, [
+    activeItems,
+    activeWearLogs,
+    wearLogs,
+    matchingIds,
+    showArchived,
+    statusFilter,
+    groupByStatus,
+    settings,
+    convert,
+  ]);
 
   // ===== Extra derived data for filters =====
   const soldYears = useMemo(() => {
     const years = new Set<string>();
-    (derived.sold as any[]).forEach((w) => {
+    derived.sold.forEach((w) => {
       if (w.dateSold && typeof w.dateSold === "string" && w.dateSold.length >= 4) {
         years.add(w.dateSold.slice(0, 4));
       }
@@ -196,7 +899,7 @@ const App: React.FC = () => {
   }, [derived.sold]);
 
   const filteredSold = useMemo(() => {
-    return (derived.sold as any[]).filter((w) => {
+    return derived.sold.filter((w) => {
       if (soldYearFilter !== "all") {
         if (!w.dateSold || !String(w.dateSold).startsWith(soldYearFilter)) {
           return false;
@@ -216,28 +919,71 @@ const App: React.FC = () => {
   }, [derived.sold, soldYearFilter, soldProfitFilter]);
 
   const soldSummaryFiltered = useMemo(
+    () => summariseSold(filteredSold),
+    [filteredSold]
+  );
+
+  const currencyOptions = useMemo(
     () =>
-      filteredSold.reduce(
-        (acc, w: any) => {
-          acc.totalCost += w.totalCost;
-          if (typeof w.soldPrice === "number") acc.totalSold += w.soldPrice;
-          if (typeof w.profit === "number") acc.totalProfit += w.profit;
-          return acc;
-        },
-        { totalCost: 0, totalSold: 0, totalProfit: 0 }
+      Array.from(
+        new Set([
+          settings.reportingCurrency,
+          ...COMMON_CURRENCIES,
+          ...exchangeRates.flatMap((r) => [r.base, r.quote]),
+        ])
       ),
-    [filteredSold]
+    [settings.reportingCurrency, exchangeRates]
   );
 
+  // Watches whose prices can't be converted until a rate is added
+  const missingRateCurrencies = useMemo(() => {
+    const codes = new Set<string>();
+    items.forEach((w) => {
+      if (!reportingAmounts(w, convert).missingRate) return;
+      (["purchase", "parts", "posted", "sold"] as const).forEach((kind) => {
+        const code = currencyOf(w, kind);
+        if (code !== settings.reportingCurrency) codes.add(code);
+      });
+      w.costLedger?.forEach((e) => {
+        if (e.currency !== settings.reportingCurrency) codes.add(e.currency);
+      });
+    });
+    return Array.from(codes).sort();
+  }, [items, convert, settings.reportingCurrency]);
+
+  // A stale session found on load opens the editor until it's dealt with.
+  const wearLogTarget =
+    wearLogForm ??
+    (staleLogId ? { logId: staleLogId, requireEnd: true } : null);
+  const wearLogEditing = wearLogTarget
+    ? wearLogs.find((l) => l.id === wearLogTarget.logId)
+    : undefined;
+
+  const ledgerWatch = ledgerWatchId
+    ? items.find((w) => w.id === ledgerWatchId)
+    : undefined;
+  const listingWatch = listingWatchId
+    ? items.find((w) => w.id === listingWatchId)
+    : undefined;
+  const offersWatch = offersWatchId
+    ? items.find((w) => w.id === offersWatchId)
+    : undefined;
+  const galleryWatch = galleryWatchId
+    ? items.find((w) => w.id === galleryWatchId)
+    : undefined;
+  const historyWatch = historyWatchId
+    ? items.find((w) => w.id === historyWatchId)
+    : undefined;
+
   const wearLabels = useMemo(() => {
     const labels = new Set<string>();
-    wearLogs.forEach((log) => {
+    activeWearLogs.forEach((log) => {
       const watch = items.find((i) => i.id === log.watchId);
       const label = (watch?.model || "").trim();
       if (label) labels.add(label);
     });
     return Array.from(labels).sort();
-  }, [wearLogs, items]);
+  }, [activeWearLogs, items]);
 
   // ===== Stats per watch (wear count + total minutes) =====
   const statsByWatch = useMemo(() => {
@@ -246,8 +992,10 @@ const App: React.FC = () => {
       { watch: WatchItem; wearCount: number; totalMinutes: number }
     > = {};
 
-    items.forEach((w) => {
-      map[w.id] = { watch: w, wearCount: 0, totalMinutes: 0 };
+    activeItems.forEach((w) => {
+      if (matchingIds.has(w.id)) {
+        map[w.id] = { watch: w, wearCount: 0, totalMinutes: 0 };
+      }
     });
 
     wearLogs.forEach((log) => {
@@ -255,7 +1003,7 @@ const App: React.FC = () => {
       if (!entry) return;
 
       const s = new Date(log.start);
-      const e = log.end ? new Date(log.end) : new Date();
+      const e = effectiveEnd(log, settings.maxSessionHours);
       if (Number.isNaN(s.getTime()) || Number.isNaN(e.getTime())) return;
       const ms = e.getTime() - s.getTime();
       if (ms <= 0) return;
@@ -266,436 +1014,799 @@ const App: React.FC = () => {
     });
 
     return Object.values(map).sort((a, b) => b.wearCount - a.wearCount);
-  }, [items, wearLogs]);
+  }, [activeItems, matchingIds, wearLogs, settings.maxSessionHours]);
+
+  // Tag-level totals for the watches in Stats; missing rates count as 0.
+  const tagTotals = useMemo(() => {
+    const minutes = new Map(
+      statsByWatch.map((s) => [s.watch.id, s.totalMinutes])
+    );
+    return tagStats(
+      statsByWatch.map((s) => s.watch),
+      settings.tags,
+      (w) => {
+        const amounts = reportingAmounts(w, convert);
+        const sold = statusGroup(settings.lifecycle, w.status) === "sold";
+        return {
+          capital: sold ? 0 : (amounts.totalCost ?? 0),
+          profit: sold ? (amounts.profit ?? 0) : 0,
+          wearMinutes: minutes.get(w.id) ?? 0,
+          daysToSell:
+            sold && w.dateSold
+              ? holdingDays(w.purchaseDate, w.dateSold)
+              : null,
+        };
+      }
+    );
+  }, [statsByWatch, settings, convert]);
+
+  // ===== Chart inputs for the Stats tab =====
+  const wearMinutes = useCallback(
+    (log: WearLog) =>
+      Math.max(
+        0,
+        (effectiveEnd(log, settings.maxSessionHours).getTime() -
+          new Date(log.start).getTime()) /
+          60000
+      ) || 0,
+    [settings.maxSessionHours]
+  );
+
+  // Sold watches without a sale date can't be placed, so they're left out.
+  const chartHoldings = useMemo(
+    () =>
+      statsByWatch.flatMap(({ watch: w }): Holding[] => {
+        const sold = statusGroup(settings.lifecycle, w.status) === "sold";
+        if (!w.purchaseDate || (sold && !w.dateSold)) return [];
+        return [
+          {
+            purchaseDate: w.purchaseDate,
+            dateSold: sold ? w.dateSold : null,
+            totalCost: reportingAmounts(w, convert).totalCost,
+          },
+        ];
+      }),
+    [statsByWatch, settings.lifecycle, convert]
+  );
+
+  const chartWearLogs = useMemo(
+    () => activeWearLogs.filter((log) => matchingIds.has(log.watchId)),
+    [activeWearLogs, matchingIds]
+  );
+
+  const chartRange = useMemo(() => {
+    if (typeof statsRange !== "string") return statsRange;
+    const dates = [
+      ...activeItems.flatMap((w) => [w.purchaseDate, w.dateSold]),
+      ...chartWearLogs.map((log) => dayKey(new Date(log.start))),
+    ].filter((d): d is string => !!d);
+    const earliest = dates.length
+      ? dates.reduce((a, b) => (b < a ? b : a))
+      : null;
+    return presetRange(statsRange, new Date(), earliest);
+  }, [statsRange, activeItems, chartWearLogs]);
+
+  // Unsold watches still in inventory (archived ones aren't for sale).
+  const valuation = useMemo(
+    () =>
+      inventoryValuation(
+        activeItems
+          .filter(
+            (w) =>
+              statusGroup(settings.lifecycle, w.status) === "inventory" &&
+              matchingIds.has(w.id)
+          )
+          .map((w) => {
+            const amounts = reportingAmounts(w, convert);
+            return {
+              id: w.id,
+              model: w.model,
+              purchaseDate: w.purchaseDate,
+              totalCost: amounts.totalCost,
+              posted: amounts.posted,
+            };
+          }),
+        new Date()
+      ),
+    [activeItems, matchingIds, settings.lifecycle, convert]
+  );
+
+  // Listings in inventory that have sat at one price for too long.
+  const staleListings = useMemo(() => {
+    const today = dayKey(new Date());
+    return activeItems.flatMap((w) => {
+      if (statusGroup(settings.lifecycle, w.status) !== "inventory") return [];
+      const stale = staleListing(w, settings.priceDropDays, today);
+      return stale ? [{ watch: w, days: stale.days }] : [];
+    });
+  }, [activeItems, settings.lifecycle, settings.priceDropDays]);
+
+  // What each contact bought, sold and earned us; trashed watches don't count.
+  const contactHistories = useMemo(
+    () =>
+      new Map(
+        contacts.map((c) => [
+          c.id,
+          contactHistory(
+            c.id,
+            activeItems,
+            (w) => reportingAmounts(w, convert),
+            (w) => statusGroup(settings.lifecycle, w.status) === "sold"
+          ),
+        ])
+      ),
+    [contacts, activeItems, convert, settings.lifecycle]
+  );
+
+  // How time listed and price cuts played out in the final sale prices.
+  const listingOutcomes = useMemo(
+    () =>
+      listingReport(
+        derived.sold.flatMap((w): ListingOutcome[] => {
+          const listings = listingsOf(w);
+          const first = listings[0];
+          const days = w.dateSold ? daysListed(listings, w.dateSold) : null;
+          const firstAsk =
+            first && convert(first.price, first.currency, first.listed);
+          if (!firstAsk || days === null || w.soldValue === null) return [];
+          return [
+            {
+              id: w.id,
+              model: w.model,
+              daysListed: days,
+              drops: priceDrops(listings),
+              firstAsk,
+              sold: w.soldValue,
+            },
+          ];
+        })
+      ),
+    [derived.sold, convert]
+  );
 
   // Quick highlights for Stats tab
   const favouriteWatch = statsByWatch.find((s) => s.wearCount > 0) || null;
   const mostProfitableWatch =
-    (derived.sold as any[])
+    derived.sold
       .filter((w) => typeof w.profit === "number")
       .sort((a, b) => (b.profit ?? 0) - (a.profit ?? 0))[0] || null;
 
-  const totalWatches = items.length;
-  const totalAvailable = items.filter((w) => w.status === "Available").length;
-  const totalSoldCount = items.filter((w) => w.status === "Sold").length;
+  const totalWatches = matchingIds.size;
+  const countGroup = (group: StatusGroup) =>
+    activeItems.filter(
+      (w) =>
+        matchingIds.has(w.id) &&
+        statusGroup(settings.lifecycle, w.status) === group
+    ).length;
+  const totalAvailable = countGroup("inventory");
+  const totalSoldCount = countGroup("sold");
+  const totalArchived = countGroup("archived");
+
+  // Turnover over the same twelve months the charts default to.
+  const turnover = useMemo(() => {
+    const range = presetRange("12m", new Date(), null);
+    const held = inventoryValue(chartHoldings, range);
+    const costOfSales = derived.sold
+      .filter((w) => inRange(w.dateSold, range))
+      .reduce((sum, w) => sum + (w.totalCost ?? 0), 0);
+    return turnoverRatio(
+      costOfSales,
+      held.reduce((sum, v) => sum + v, 0) / held.length
+    );
+  }, [chartHoldings, derived.sold]);
+  const avgDaysToSell = averageDays(derived.sold.map((w) => w.daysToSell));
+  const avgDaysToSellFiltered = averageDays(
+    filteredSold.map((w) => w.daysToSell)
+  );
 
   // ===== Wear handling =====
   const startWear = (watchId: string) => {
     const watch = items.find((i) => i.id === watchId);
     if (!watch) return;
 
-    if (watch.dateSold) {
-      const soldDate = new Date(watch.dateSold + "T23:59:59");
-      if (new Date() > soldDate) {
-        alert("Cannot start wear after this watch has been sold.");
-        return;
-      }
+    if (!statusInfo(settings.lifecycle, watch.status).wearable) {
+      alert(`Cannot wear a watch that is ${watch.status}.`);
+      return;
     }
 
     const now = nowISO();
 
-    setWearLogs((prev) => {
-      const closed = prev.map((log) =>
-        log.end === null ? { ...log, end: now } : log
-      );
+    record(`Start wearing ${watch.model}`, {
+      wearLogs: (prev) => {
+        const closed = closeOpenLogs(prev, now);
 
-      const newLog: WearLog = {
-        id: crypto.randomUUID(),
-        watchId,
-        start: now,
-        end: null,
-      };
+        const newLog: WearLog = {
+          id: crypto.randomUUID(),
+          watchId,
+          start: now,
+          end: null,
+        };
 
-      return [newLog, ...closed];
+        return [newLog, ...closed];
+      },
+    });
+  };
+
+  const stopWear = () => {
+    record("Stop wearing", {
+      wearLogs: (prev) => closeOpenLogs(prev, nowISO()),
     });
   };
 
+  const stopWearAt = () => {
+    const active = derived.activeWear;
+    if (!active) return;
+    setWearLogForm({ logId: active.id, requireEnd: true });
+  };
+
   const clearWearLogs = () => {
-    if (!window.confirm("Clear ALL wear history? This cannot be undone.")) {
-      return;
-    }
-    setWearLogs([]);
+    if (!window.confirm("Clear ALL wear history?")) return;
+    recordDestructive("Cleared wear history", { wearLogs: () => [] });
   };
 
   const deleteWearLog = (id: string) => {
     if (!window.confirm("Delete this wear entry?")) return;
-    setWearLogs((prev) => prev.filter((l) => l.id !== id));
+    recordDestructive("Deleted wear entry", {
+      wearLogs: (prev) => prev.filter((l) => l.id !== id),
+    });
   };
 
+  // Only one session may be open, so an entry can stay open only if it is
+  // the open one or none is.
   const editWearLog = (id: string) => {
-    const log = wearLogs.find((l) => l.id === id);
-    if (!log) return;
+    const otherOpen = wearLogs.some((l) => l.end === null && l.id !== id);
+    setWearLogForm({ logId: id, requireEnd: otherOpen });
+  };
 
-    const newStart = window.prompt(
-      "Edit start time (ISO, e.g. 2025-12-05T15:30:00). Leave blank to keep.",
-      log.start
-    );
-    const newEnd = window.prompt(
-      "Edit end time (ISO, blank = still wearing).",
-      log.end ?? ""
-    );
+  const closeWearLogForm = () => {
+    setWearLogForm(null);
+    setStaleLogId(null);
+  };
 
-    setWearLogs((prev) =>
-      prev.map((l) =>
-        l.id === id
-          ? {
-              ...l,
-              start:
-                newStart && newStart.trim() !== "" ? newStart.trim() : l.start,
-              end:
-                newEnd && newEnd.trim() !== ""
-                  ? newEnd.trim()
-                  : newEnd === ""
-                  ? null
-                  : l.end,
-            }
-          : l
-      )
-    );
+  const saveWearLog = (log: WearLog) => {
+    record("Edit wear entry", {
+      wearLogs: (prev) => prev.map((l) => (l.id === log.id ? log : l)),
+    });
+    closeWearLogForm();
   };
 
   // ===== Inventory helpers =====
+  const canMove = (w: WatchItem, to: string) =>
+    allowedNext(settings.lifecycle, w.status).includes(to);
+
+  // The inventory status a sold watch may go back to, if any.
+  const unsoldStatus = (w: WatchItem) =>
+    allowedNext(settings.lifecycle, w.status).find(
+      (to) => statusGroup(settings.lifecycle, to) === "inventory"
+    );
+
   const undoSold = (id: string) => {
     const watch = items.find((w) => w.id === id);
-    if (!watch) return;
+    const to = watch && unsoldStatus(watch);
+    if (!watch || !to) return;
 
     const ok = window.confirm(
-      `Move "${watch.model}" back to inventory as Available?`
+      `Move "${watch.model}" back to inventory as ${to}?`
     );
     if (!ok) return;
-
-    setItems((prev) =>
-      prev.map((w) =>
-        w.id === id
-          ? { ...w, status: "Available", soldPrice: null, dateSold: null }
-          : w
-      )
-    );
+    changeStatus(id, to);
   };
 
-  const handleAddWatch = () => {
-    if (!newModel.trim()) {
-      alert("Please enter a model name.");
+  // Only moves the lifecycle allows. Entering the sold group asks for the
+  // sale details first; leaving it drops them.
+  const changeStatus = (id: string, to: string) => {
+    const watch = items.find((w) => w.id === id);
+    if (!watch || watch.status === to || !canMove(watch, to)) return;
+
+    const { lifecycle } = settings;
+    const fromGroup = statusGroup(lifecycle, watch.status);
+    const toGroup = statusGroup(lifecycle, to);
+    if (toGroup === "sold" && fromGroup !== "sold") {
+      setWatchForm({ mode: "sell", watchId: id, targetStatus: to });
       return;
     }
 
-    const purchasePrice = newPurchase.trim()
-      ? parseNumber(newPurchase)
-      : 0;
-    const partsCost = newParts.trim() ? parseNumber(newParts) : 0;
-    const todayISO = new Date().toISOString().slice(0, 10);
-
-    const newWatch: WatchItem = {
-      id: crypto.randomUUID(),
-      model: newModel.trim(),
-      purchasePrice,
-      partsCost,
-      postedPrice: null,
-      soldPrice: null,
-      status: "Available",
-      dateSold: null,
-      purchaseDate: newPurchaseDate.trim() || todayISO,
-      notes: undefined,
-    };
+    moveToStatus([id], to, `${watch.model}: ${watch.status} → ${to}`);
+  };
 
-    setItems((prev) => [newWatch, ...prev]);
+  // A status change that needs no sale details; leaving the sold group
+  // drops them.
+  const moveToStatus = (ids: string[], to: string, label: string) => {
+    const { lifecycle } = settings;
+    const moving = new Set(ids);
+    const toGroup = statusGroup(lifecycle, to);
+    const now = nowISO();
+    record(label, {
+      items: (prev) =>
+        prev.map((w) => {
+          if (!moving.has(w.id)) return w;
+          const moved = withStatus(w, to, now);
+          return statusGroup(lifecycle, w.status) === "sold" &&
+            toGroup !== "sold"
+            ? withoutSale(moved)
+            : moved;
+        }),
+      // A watch that can't be worn any more, or is archived, comes off the
+      // wrist.
+      ...((!statusInfo(lifecycle, to).wearable || toGroup === "archived") && {
+        wearLogs: (prev: WearLog[]) =>
+          prev.map((l) =>
+            moving.has(l.watchId) && l.end === null ? { ...l, end: now } : l
+          ),
+      }),
+    });
+  };
 
-    setNewModel("");
-    setNewPurchase("");
-    setNewParts("");
-    setNewPurchaseDate("");
-    setShowAdd(false);
+  const editSoldWatch = (id: string) =>
+    setWatchForm({ mode: "editSale", watchId: id });
+
+  const editWatch = (id: string) => setWatchForm({ mode: "edit", watchId: id });
+
+  // Every WatchItem edit from a form lands here, already validated.
+  const saveWatchForm = (submitted: WatchItem) => {
+    const mode = watchForm?.mode ?? "edit";
+    const label = {
+      add: "Add",
+      edit: "Edit",
+      sell: "Mark sold:",
+      editSale: "Edit sale:",
+    }[mode];
+    const before = items.find((w) => w.id === submitted.id);
+    // A changed posted price or a sale goes into the listing log.
+    const edited = before ? reconcileListings(before, submitted) : submitted;
+    const watch =
+      mode === "add"
+        ? withInitialStatus(edited)
+        : mode === "sell"
+          ? withStatus(edited, watchForm?.targetStatus ?? SOLD)
+          : edited;
+    record(`${label} ${watch.model}`, {
+      items: (prev) =>
+        prev.some((w) => w.id === watch.id)
+          ? prev.map((w) => (w.id === watch.id ? watch : w))
+          : [watch, ...prev],
+    });
+    setWatchForm(null);
   };
 
-  const markSold = (id: string) => {
+  // Moves the watch to the Trash; its wear logs stay attached so a restore
+  // brings everything back.
+  const deleteWatch = (id: string) => {
     const watch = items.find((w) => w.id === id);
     if (!watch) return;
 
-    const defaultSoldPrice =
-      typeof watch.soldPrice === "number" ? String(watch.soldPrice) : "";
-    const defaultDate =
-      watch.dateSold || new Date().toISOString().slice(0, 10);
-
-    const soldPriceInput = window.prompt(
-      "Sold price (leave blank to keep current / set later):",
-      defaultSoldPrice
-    );
-    const dateInput = window.prompt(
-      "Date sold (YYYY-MM-DD):",
-      defaultDate
-    );
-
-    const soldPrice =
-      soldPriceInput && soldPriceInput.trim() !== ""
-        ? parseNumber(soldPriceInput)
-        : watch.soldPrice ?? null;
-
-    const dateSold =
-      dateInput && dateInput.trim() !== "" ? dateInput.trim() : defaultDate;
-
-    setItems((prev) =>
-      prev.map((w) =>
-        w.id === id
-          ? {
-              ...w,
-              status: "Sold",
-              soldPrice,
-              dateSold,
-            }
-          : w
-      )
-    );
+    const now = nowISO();
+    recordDestructive(`Moved ${watch.model} to Trash`, {
+      items: (prev) =>
+        prev.map((w) => (w.id === id ? moveToTrash(w, now) : w)),
+      wearLogs: (prev) =>
+        prev.map((l) =>
+          l.watchId === id && l.end === null ? { ...l, end: now } : l
+        ),
+    });
   };
 
-  const editSoldWatch = (id: string) => {
+  const restoreWatch = (id: string) => {
     const watch = items.find((w) => w.id === id);
     if (!watch) return;
+    record(`Restore ${watch.model}`, {
+      items: (prev) =>
+        prev.map((w) => (w.id === id ? restoreFromTrash(w) : w)),
+    });
+  };
 
-    const soldPriceInput = window.prompt(
-      "Edit sold price:",
-      typeof watch.soldPrice === "number" ? String(watch.soldPrice) : ""
-    );
-    const dateInput = window.prompt(
-      "Edit date sold (YYYY-MM-DD):",
-      watch.dateSold || new Date().toISOString().slice(0, 10)
-    );
+  // Permanent removal of trashed watches with their wear history.
+  const purgeWatches = (ids: string[]) => journal.purge(new Set(ids));
 
-    const soldPrice =
-      soldPriceInput && soldPriceInput.trim() !== ""
-        ? parseNumber(soldPriceInput)
-        : null;
-    const dateSold =
-      dateInput && dateInput.trim() !== "" ? dateInput.trim() : watch.dateSold;
-
-    setItems((prev) =>
-      prev.map((w) =>
-        w.id === id
-          ? {
-              ...w,
-              soldPrice,
-              dateSold,
-            }
-          : w
+  const deleteForever = (id: string) => {
+    const watch = items.find((w) => w.id === id);
+    if (!watch) return;
+    if (!window.confirm(`Delete "${watch.model}" and its wear history for good?`)) {
+      return;
+    }
+    purgeWatches([id]);
+  };
+
+  const emptyTrash = () => {
+    if (
+      !window.confirm(
+        `Delete ${trashedItems.length} watch(es) in the Trash for good?`
       )
-    );
+    ) {
+      return;
+    }
+    purgeWatches(trashedItems.map((w) => w.id));
   };
 
-  const deleteWatch = (id: string) => {
+  // Replaces a watch's cost ledger; partsCost follows its total.
+  const saveLedger = (id: string, entries: CostEntry[]) => {
     const watch = items.find((w) => w.id === id);
-    const name = watch?.model || "this watch";
-
-    const ok = window.confirm(
-      `Delete "${name}" from your records? This will also delete its wear history.`
-    );
-    if (!ok) return;
+    const updated = watch && withLedger(watch, entries, exchange);
+    if (!updated) return false;
+    record(`Edit costs of ${updated.model}`, {
+      items: (prev) => prev.map((w) => (w.id === id ? updated : w)),
+    });
+    return true;
+  };
 
-    setItems((prev) => prev.filter((w) => w.id !== id));
-    setWearLogs((prev) => prev.filter((l) => l.watchId !== id));
+  // Replaces a watch's listing log; postedPrice follows the open listing.
+  const saveListings = (id: string, listings: Listing[]) => {
+    const watch = items.find((w) => w.id === id);
+    if (!watch) return;
+    record(`Edit listings of ${watch.model}`, {
+      items: (prev) =>
+        prev.map((w) => (w.id === id ? withListings(w, listings) : w)),
+    });
   };
 
-  const editWatch = (id: string) => {
+  const saveOffers = (id: string, offers: Offer[]) => {
     const watch = items.find((w) => w.id === id);
     if (!watch) return;
+    record(`Edit offers on ${watch.model}`, {
+      items: (prev) =>
+        prev.map((w) =>
+          w.id === id
+            ? { ...w, offers: offers.length ? offers : undefined }
+            : w
+        ),
+    });
+  };
+
+  // ===== Contacts =====
+  const addContact = (name: string): Contact => {
+    const contact = createContact({ name });
+    record(`Add contact ${contact.name}`, {
+      contacts: (prev) => [...prev, contact],
+    });
+    return contact;
+  };
+
+  const saveContact = (contact: Contact) => {
+    const exists = contacts.some((c) => c.id === contact.id);
+    record(`${exists ? "Edit" : "Add"} contact ${contact.name}`, {
+      contacts: (prev) =>
+        exists
+          ? prev.map((c) => (c.id === contact.id ? contact : c))
+          : [...prev, contact],
+    });
+  };
+
+  // Unlinks the contact from watches and offers in the same step, so undo
+  // brings both back.
+  const deleteContact = (id: string) => {
+    const contact = contacts.find((c) => c.id === id);
+    if (!contact) return;
+    const used = items.filter((w) => withoutContact(w, id) !== w).length;
+    if (
+      used &&
+      !window.confirm(`Unlink ${contact.name} from ${used} watch(es)?`)
+    ) {
+      return;
+    }
+    recordDestructive(`Delete contact ${contact.name}`, {
+      items: (prev) => prev.map((w) => withoutContact(w, id)),
+      contacts: (prev) => prev.filter((c) => c.id !== id),
+    });
+  };
+
+  // ===== Tags =====
+  const addTag = (name: string): Tag => {
+    const tag = createTag(name, settings.tags);
+    record(`Add tag ${tag.name}`, { tags: (prev) => [...prev, tag] });
+    return tag;
+  };
 
-    const modelInput = window.prompt("Edit model:", watch.model);
-    if (!modelInput || modelInput.trim() === "") return;
+  const deleteTag = (id: string) => {
+    const tag = settings.tags.find((t) => t.id === id);
+    if (!tag) return;
+    const used = items.filter((w) => w.tags?.includes(id)).length;
+    if (
+      used &&
+      !window.confirm(`Remove the tag "${tag.name}" from ${used} watch(es)?`)
+    ) {
+      return;
+    }
+    record(`Delete tag ${tag.name}`, {
+      items: (prev) => prev.map((w) => withoutTag(w, id)),
+      tags: (prev) => prev.filter((t) => t.id !== id),
+    });
+    setTagFilter((prev) => prev.filter((t) => t !== id));
+  };
+
+  // ===== Batch actions =====
+  const clearSelection = () => setSelectedIds(new Set());
+
+  // Statuses at least one of the watches may move to.
+  const batchStatusOptions = (watches: WatchItem[]) =>
+    Array.from(
+      new Set(
+        watches.flatMap((w) => allowedNext(settings.lifecycle, w.status))
+      )
+    );
 
-    const purchaseInput = window.prompt(
-      "Edit purchase price:",
-      String(watch.purchasePrice)
+  // Watches that may not make the move are left alone. Those entering the
+  // sold group go through the batch sale grid.
+  const batchSetStatus = (watches: WatchItem[], to: string) => {
+    const { lifecycle } = settings;
+    const movable = watches.filter((w) =>
+      allowedNext(lifecycle, w.status).includes(to)
     );
-    const partsInput = window.prompt(
-      "Edit parts cost:",
-      String(watch.partsCost)
+    const skipped = watches.length - movable.length;
+    if (
+      skipped &&
+      !window.confirm(
+        `${skipped} of the selected watches can't move to ${to} and will be left as they are. Continue?`
+      )
+    ) {
+      return;
+    }
+    const selling =
+      statusGroup(lifecycle, to) === "sold"
+        ? movable.filter((w) => statusGroup(lifecycle, w.status) !== "sold")
+        : [];
+    const rest = movable.filter((w) => !selling.includes(w));
+    if (rest.length) {
+      moveToStatus(
+        rest.map((w) => w.id),
+        to,
+        `Set ${rest.length} watch(es) to ${to}`
+      );
+    }
+    if (selling.length) {
+      setBatchDialog({
+        kind: "sell",
+        ids: selling.map((w) => w.id),
+        targetStatus: to,
+      });
+    } else {
+      clearSelection();
+    }
+  };
+
+  const saveBatchSale = (sold: WatchItem[], targetStatus: string) => {
+    const now = nowISO();
+    const before = new Map(items.map((w) => [w.id, w]));
+    const byId = new Map(
+      sold.map((w) => {
+        const prev = before.get(w.id);
+        const logged = prev ? reconcileListings(prev, w) : w;
+        return [w.id, withStatus(logged, targetStatus, now)];
+      })
     );
-    const postedInput = window.prompt(
-      "Edit posted sale price (blank for none):",
-      watch.postedPrice != null ? String(watch.postedPrice) : ""
+    record(`Mark ${sold.length} watch(es) sold`, {
+      items: (prev) => prev.map((w) => byId.get(w.id) ?? w),
+      // Sold watches come off the wrist.
+      wearLogs: (prev) =>
+        prev.map((l) =>
+          byId.has(l.watchId) && l.end === null ? { ...l, end: now } : l
+        ),
+    });
+    setBatchDialog(null);
+    clearSelection();
+  };
+
+  // A shared bill (e.g. one watchmaker invoice) is split to the cent; the
+  // ledger note records the split.
+  const saveBatchCost = (ids: string[], { cost, split }: BatchCost) => {
+    const watches = items.filter((w) => ids.includes(w.id));
+    const shares = split
+      ? splitAmount(cost.amount, watches.length)
+      : watches.map(() => cost.amount);
+    const note = split
+      ? [
+          cost.note,
+          `share of ${cost.amount} ${cost.currency} over ${watches.length} watches`,
+        ]
+          .filter(Boolean)
+          .join(" · ")
+      : cost.note;
+    const updated = watches.map((w, i) =>
+      withAddedCost(w, { ...cost, amount: shares[i], note }, exchange)
     );
-    const notesInput = window.prompt(
-      "Edit notes (optional):",
-      watch.notes ?? ""
+    if (updated.some((w) => w === null)) {
+      alert(
+        `Add an exchange rate for ${cost.currency} to the watches' parts currencies first.`
+      );
+      return;
+    }
+    const byId = new Map(
+      updated.flatMap((w) => (w ? [[w.id, w] as const] : []))
     );
+    record(`Add ${cost.category} cost to ${watches.length} watch(es)`, {
+      items: (prev) => prev.map((w) => byId.get(w.id) ?? w),
+    });
+    setBatchDialog(null);
+    clearSelection();
+  };
 
-    setItems((prev) =>
-      prev.map((w) =>
-        w.id === id
-          ? {
-              ...w,
-              model: modelInput.trim(),
-              purchasePrice:
-                purchaseInput && purchaseInput.trim() !== ""
-                  ? parseNumber(purchaseInput)
-                  : 0,
-              partsCost:
-                partsInput && partsInput.trim() !== ""
-                  ? parseNumber(partsInput)
-                  : 0,
-              postedPrice:
-                postedInput && postedInput.trim() !== ""
-                  ? parseNumber(postedInput)
-                  : null,
-              notes:
-                notesInput && notesInput.trim() !== ""
-                  ? notesInput.trim()
-                  : undefined,
-            }
-          : w
-      )
+  // Tags every watch, or untags them all when they already have it.
+  const batchTag = (watches: WatchItem[], id: string) => {
+    const tag = settings.tags.find((t) => t.id === id);
+    if (!tag) return;
+    const ids = new Set(watches.map((w) => w.id));
+    const untag = watches.every((w) => w.tags?.includes(id));
+    record(
+      `${untag ? "Untag" : "Tag"} ${ids.size} watch(es) ${tag.name}`,
+      {
+        items: (prev) =>
+          prev.map((w) =>
+            !ids.has(w.id) ? w : untag ? withoutTag(w, id) : withTag(w, id)
+          ),
+      }
     );
+    clearSelection();
   };
 
-  // ===== Watches CSV =====
-  const exportWatchesCSV = () => {
-    const header = [
-      "Watch Model",
-      "Date Purchased",
-      "Purchase Price",
-      "Parts Cost",
-      "Posted Sale Price",
-      "Sold Price",
-      "Status",
-      "Date Sold",
-      "Notes",
-    ];
+  const batchArchive = (watches: WatchItem[]) =>
+    batchSetStatus(
+      watches.filter((w) => w.status !== ARCHIVED),
+      ARCHIVED
+    );
+
+  const batchDelete = (watches: WatchItem[]) => {
+    if (!window.confirm(`Move ${watches.length} watch(es) to the Trash?`)) {
+      return;
+    }
+    const gone = new Set(watches.map((w) => w.id));
+    const now = nowISO();
+    recordDestructive(`Moved ${gone.size} watch(es) to Trash`, {
+      items: (prev) =>
+        prev.map((w) => (gone.has(w.id) ? moveToTrash(w, now) : w)),
+      wearLogs: (prev) =>
+        prev.map((l) =>
+          gone.has(l.watchId) && l.end === null ? { ...l, end: now } : l
+        ),
+    });
+    clearSelection();
+  };
+
+  // ===== Photos =====
+  const addPhotos = async (
+    watchId: string,
+    files: File[],
+    stage: PhotoStage
+  ) => {
+    const added = await Promise.all(
+      files.map((f) => createPhoto(f, watchId, stage))
+    );
+    setPhotos((prev) => [...prev, ...added]);
+  };
 
-    const rows = items.map((w) => [
-      w.model,
-      w.purchaseDate ?? "",
-      w.purchasePrice,
-      w.partsCost,
-      w.postedPrice ?? "",
-      w.soldPrice ?? "",
-      w.status,
-      w.dateSold ?? "",
-      w.notes ?? "",
-    ]);
-
-    const csv = [header, ...rows].map((r) => r.join(",")).join("\n");
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "watch-tracker.csv";
-    a.click();
-    URL.revokeObjectURL(url);
+  const updatePhoto = (photo: WatchPhoto) =>
+    setPhotos((prev) => prev.map((p) => (p.id === photo.id ? photo : p)));
+
+  // Not undoable, so it asks first.
+  const deletePhoto = (id: string) => {
+    const photo = photos.find((p) => p.id === id);
+    if (!photo || !window.confirm("Delete this photo? This can't be undone.")) {
+      return;
+    }
+    revokePhotoUrls(photo);
+    setPhotos((prev) => prev.filter((p) => p.id !== id));
   };
 
+  // ===== Watches CSV =====
+
+  const exportWatchesCSV = () =>
+    downloadFile(
+      "watch-tracker.csv",
+      watchesCSV(activeItems, settings.tags),
+      "text/csv"
+    );
+
+  const exportSelectionCSV = (watches: WatchItem[]) =>
+    downloadFile(
+      "watch-tracker-selection.csv",
+      watchesCSV(watches, settings.tags),
+      "text/csv"
+    );
+
   const importWatchesCSV = (file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = String(e.target?.result || "");
-      const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
-      if (lines.length <= 1) return;
-
-      const header = lines[0].split(",").map((h) => h.trim().toLowerCase());
-      const idxModel = header.indexOf("watch model");
-      const idxPurchaseDate = header.indexOf("date purchased");
-      const idxPurchase = header.indexOf("purchase price");
-      const idxParts = header.indexOf("parts cost");
-      const idxPosted = header.indexOf("posted sale price");
-      const idxSold = header.indexOf("sold price");
-      const idxStatus = header.indexOf("status");
-      const idxDateSold = header.indexOf("date sold");
-      const idxNotes = header.indexOf("notes");
-
-      const parsed: WatchItem[] = lines
-        .slice(1)
-        .map((line) => {
-          const cols = line.split(",");
-          const model = idxModel >= 0 ? cols[idxModel] ?? "" : "";
-          if (!model.trim()) return null;
-
-          const purchaseDate =
-            idxPurchaseDate >= 0 ? (cols[idxPurchaseDate] || "").trim() : "";
-          const purchasePrice =
-            idxPurchase >= 0 ? parseNumber(cols[idxPurchase] || "0") : 0;
-          const partsCost =
-            idxParts >= 0 ? parseNumber(cols[idxParts] || "0") : 0;
-          const postedPrice =
-            idxPosted >= 0 && cols[idxPosted]
-              ? parseNumber(cols[idxPosted])
-              : null;
-          const soldPrice =
-            idxSold >= 0 && cols[idxSold] ? parseNumber(cols[idxSold]) : null;
-          const statusRaw =
-            idxStatus >= 0 ? (cols[idxStatus] || "").trim() : "";
-          const status: "Available" | "Sold" =
-            statusRaw === "Sold" ? "Sold" : "Available";
-          const dateSold = idxDateSold >= 0 ? cols[idxDateSold] || "" : "";
-          const notes = idxNotes >= 0 ? cols[idxNotes] || "" : "";
-
-          return {
-            id: crypto.randomUUID(),
-            model,
-            purchaseDate: purchaseDate || null,
-            purchasePrice,
-            partsCost,
-            postedPrice,
-            soldPrice,
-            status,
-            dateSold: dateSold || null,
-            notes: notes || undefined,
-          } as WatchItem;
-        })
-        .filter((w): w is WatchItem => w !== null);
-
-      if (parsed.length) {
-        setItems(parsed);
+      const [headerRow, ...records] = parseCSV(text);
+      if (!headerRow || records.length === 0) {
+        alert("That CSV file has no data rows.");
+        return;
       }
+
+      setPendingImport({ fileName: file.name, header: headerRow, records });
     };
     reader.readAsText(file);
   };
 
+  const applyWatchImport = (
+    plan: ImportPlan,
+    profile: MappingProfile | null,
+    newTags: Tag[]
+  ) => {
+    if (
+      plan.removed.length > 0 &&
+      !window.confirm(
+        `Replace will move ${plan.removed.length} watch(es) that are not in the file to the Trash. Continue?`
+      )
+    ) {
+      return;
+    }
+
+    // The plan only covers watches outside the Trash.
+    const now = nowISO();
+    recordDestructive("Imported watches CSV", {
+      items: (prev) => [
+        ...plan.items,
+        ...plan.removed.map((w) => moveToTrash(w, now)),
+        ...prev.filter(isTrashed),
+      ],
+      tags: (prev) => [...prev, ...newTags],
+    });
+    if (profile) {
+      setMappingProfiles((prev) => [
+        profile,
+        ...prev.filter((p) => p.id !== profile.id),
+      ]);
+    }
+    setPendingImport(null);
+  };
+
   // ===== Wear CSV =====
   const exportWearCSV = () => {
-    const header = ["Watch Model", "Start", "End"];
-    const rows = wearLogs.map((log) => {
+    const header = ["Watch Model", "Start", "End", "Watch ID", "Serial"];
+    const rows = activeWearLogs.map((log) => {
       const watch = items.find((i) => i.id === log.watchId);
       const label = watch?.model ?? "";
-      return [label, log.start, log.end ?? ""];
+      return [
+        label,
+        log.start,
+        log.end ?? "",
+        log.watchId,
+        watch?.serial ?? "",
+      ];
     });
 
-    const csv = [header, ...rows].map((r) => r.join(",")).join("\n");
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "watch-wear-log.csv";
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile("watch-wear-log.csv", toCSV([header, ...rows]), "text/csv");
   };
 
   const importWearCSV = (file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = String(e.target?.result || "");
-      const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
-      if (lines.length <= 1) return;
+      const [headerRow, ...records] = parseCSV(text);
+      if (!headerRow || records.length === 0) return;
 
-      const header = lines[0].split(",").map((h) => h.trim().toLowerCase());
+      const header = headerRow.map((h) => h.trim().toLowerCase());
       const idxModel = header.indexOf("watch model");
+      const idxId = header.indexOf("watch id");
+      const idxSerial = header.indexOf("serial");
       const idxStart = header.indexOf("start");
       const idxEnd = header.indexOf("end");
-      if (idxModel < 0 || idxStart < 0) {
-        alert("Wear CSV must have 'Watch Model', 'Start', and 'End' headers.");
+      if ((idxModel < 0 && idxId < 0) || idxStart < 0) {
+        alert(
+          "Wear CSV must have 'Watch Model' (or 'Watch ID'), 'Start', and 'End' headers."
+        );
         return;
       }
 
       const newLogs: WearLog[] = [];
+      let unmatched = 0;
 
-      lines.slice(1).forEach((line) => {
-        const cols = line.split(",");
-        const modelRaw = (cols[idxModel] || "").trim();
-        const startRaw = (cols[idxStart] || "").trim();
-        const endRaw = idxEnd >= 0 ? (cols[idxEnd] || "").trim() : "";
+      const col = (cols: string[], idx: number) =>
+        idx >= 0 ? (cols[idx] || "").trim() : "";
 
-        if (!modelRaw || !startRaw) return;
+      records.forEach((cols) => {
+        const startRaw = col(cols, idxStart);
+        const endRaw = col(cols, idxEnd);
+        if (!startRaw) return;
 
-        const watch = items.find(
-          (i) => i.model.trim() === modelRaw
-        );
-        if (!watch) return;
+        const watch = findWatch(activeItems, {
+          id: col(cols, idxId),
+          serial: col(cols, idxSerial),
+          model: col(cols, idxModel),
+        });
+        if (!watch) {
+          unmatched += 1;
+          return;
+        }
 
         newLogs.push({
           id: crypto.randomUUID(),
@@ -706,7 +1817,14 @@ const App: React.FC = () => {
       });
 
       if (newLogs.length) {
-        setWearLogs((prev) => [...newLogs, ...prev]);
+        recordDestructive(`Imported ${newLogs.length} wear entries`, {
+          wearLogs: (prev) => [...newLogs, ...prev],
+        });
+      }
+      if (unmatched) {
+        alert(
+          `Skipped ${unmatched} row(s) that matched no watch, or a model shared by several watches. Add a Watch ID or Serial column to tell them apart.`
+        );
       }
     };
     reader.readAsText(file);
@@ -722,9 +1840,7 @@ const App: React.FC = () => {
 
     const filterYear = yearInput?.trim() || "";
 
-    const sold = derived.sold as any[];
-
-    const filtered = sold.filter((w) => {
+    const filtered = derived.sold.filter((w) => {
       if (!filterYear) return true;
       return w.dateSold && String(w.dateSold).startsWith(filterYear);
     });
@@ -734,37 +1850,72 @@ const App: React.FC = () => {
       return;
     }
 
+    const rc = settings.reportingCurrency;
     const header = [
       "Date Sold",
       "Model",
       "Purchase Price",
+      "Purchase Currency",
       "Parts Cost",
-      "Total Cost",
+      "Parts Currency",
+      "Parts Breakdown",
+      `Total Cost (${rc})`,
       "Sold Price",
-      "Profit",
+      "Sold Currency",
+      `Sold Price (${rc})`,
+      "Channel",
+      "Platform Fee",
+      "Payment Fee",
+      "Shipping",
+      "Sales Tax",
+      `Fees (${rc})`,
+      `Gross Profit (${rc})`,
+      `Net Profit (${rc})`,
+      "Days Held",
+      "Annualised Return (%)",
     ];
 
     let totalCost = 0;
     let totalSold = 0;
+    let totalFees = 0;
+    let totalGrossProfit = 0;
     let totalProfit = 0;
 
+    // Amounts that can't be converted are left blank rather than counted as 0.
     const rows = filtered.map((w) => {
-      const totalCostRow = w.totalCost;
-      const soldPrice = typeof w.soldPrice === "number" ? w.soldPrice : 0;
-      const profit = typeof w.profit === "number" ? w.profit : 0;
-
-      totalCost += totalCostRow;
-      totalSold += soldPrice;
-      totalProfit += profit;
+      totalCost += w.totalCost ?? 0;
+      totalSold += w.soldValue ?? 0;
+      totalFees += w.fees ?? 0;
+      totalGrossProfit += w.grossProfit ?? 0;
+      totalProfit += w.profit ?? 0;
+      const fees = w.saleFees ?? NO_FEES;
 
       return [
         w.dateSold || "",
         w.model,
         w.purchasePrice,
+        currencyOf(w, "purchase"),
         w.partsCost,
-        totalCostRow,
-        soldPrice || "",
-        profit || "",
+        currencyOf(w, "parts"),
+        ledgerOf(w)
+          .map((e) => `${e.category} ${e.amount} ${e.currency}`)
+          .join("; "),
+        w.totalCost ?? "",
+        w.soldPrice ?? "",
+        currencyOf(w, "sold"),
+        w.soldValue ?? "",
+        w.saleChannel ?? "",
+        fees.platform,
+        fees.payment,
+        fees.shipping,
+        fees.tax,
+        w.fees ?? "",
+        w.grossProfit ?? "",
+        w.profit ?? "",
+        w.daysToSell ?? "",
+        w.annualisedReturn === null
+          ? ""
+          : Number((w.annualisedReturn * 100).toFixed(1)),
       ];
     });
 
@@ -773,79 +1924,154 @@ const App: React.FC = () => {
       "",
       "",
       "",
+      "",
+      "",
+      "",
       totalCost,
+      "",
+      "",
       totalSold,
+      "",
+      "",
+      "",
+      "",
+      "",
+      totalFees,
+      totalGrossProfit,
       totalProfit,
+      // average, not a total
+      averageDays(filtered.map((w) => w.daysToSell))?.toFixed(0) ?? "",
+      "",
     ];
 
-    const csv = [header, ...rows, totalsRow]
-      .map((r) => r.join(","))
-      .join("\n");
-
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = filterYear
-      ? `watch-pl-${filterYear}.csv`
-      : "watch-pl-all-years.csv";
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile(
+      filterYear ? `watch-pl-${filterYear}.csv` : "watch-pl-all-years.csv",
+      toCSV([header, ...rows, totalsRow]),
+      "text/csv"
+    );
   };
 
-  // ===== FULL BACKUP (JSON) =====
-  const exportFullBackup = () => {
-    const backup: BackupFileV1 = {
-      version: 1,
-      exportedAt: new Date().toISOString(),
-      items,
-      wearLogs,
+  // ===== TAX REPORT =====
+  const taxInput = (w: WatchItem): TaxInput => {
+    const amounts = reportingAmounts(w, convert);
+    const sold = statusGroup(settings.lifecycle, w.status) === "sold";
+    return {
+      id: w.id,
+      model: w.model,
+      purchaseDate: w.purchaseDate,
+      dateSold: sold ? w.dateSold : null,
+      purchase: amounts.purchase,
+      extraCosts:
+        amounts.totalCost === null || amounts.purchase === null
+          ? null
+          : amounts.totalCost - amounts.purchase,
+      proceeds: amounts.sold,
+      fees: amounts.fees,
     };
+  };
+
+  const taxFileName = (report: TaxReport, ext: string) =>
+    `watch-tax-${report.label.replace("/", "-")}.${ext}`;
 
-    const json = JSON.stringify(backup, null, 2);
-    const blob = new Blob([json], { type: "application/json" });
+  const exportTaxCSV = (report: TaxReport) =>
+    downloadFile(
+      taxFileName(report, "csv"),
+      taxReportCSV(report, settings.reportingCurrency),
+      "text/csv"
+    );
 
-    const dateLabel = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
-    const a = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    a.href = url;
-    a.download = `watch-tracker-backup-${dateLabel}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+  // Opens the summary in a new tab, ready for the browser's print dialog.
+  const printTaxReport = (report: TaxReport) => {
+    const html = taxReportHTML(report, settings.reportingCurrency);
+    const url = URL.createObjectURL(new Blob([html], { type: "text/html" }));
+    if (!window.open(url, "_blank")) {
+      URL.revokeObjectURL(url);
+      downloadFile(taxFileName(report, "html"), html, "text/html");
+      return;
+    }
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
   };
 
-  const importFullBackup = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const text = String(e.target?.result || "");
-        const parsed = JSON.parse(text) as Partial<BackupFileV1>;
-
-        if (
-          !parsed ||
-          typeof parsed !== "object" ||
-          parsed.version !== 1 ||
-          !Array.isArray(parsed.items) ||
-          !Array.isArray(parsed.wearLogs)
-        ) {
-          alert("This file does not look like a valid Watch Tracker backup.");
-          return;
-        }
+  // ===== FULL BACKUP (JSON) =====
+  const exportFullBackup = async () => {
+    try {
+      const backup = await createBackup({
+        settings,
+        items,
+        wearLogs,
+        mappingProfiles,
+        exchangeRates,
+        contacts,
+      });
 
-        const ok = window.confirm(
-          "Importing this backup will REPLACE your current watches and wear log. Continue?"
-        );
-        if (!ok) return;
-
-        setItems(parsed.items as WatchItem[]);
-        setWearLogs(parsed.wearLogs as WearLog[]);
-        alert("Backup imported successfully.");
-      } catch (err) {
-        console.error(err);
-        alert("Failed to import backup. Is this the correct JSON file?");
-      }
-    };
-    reader.readAsText(file);
+      const json = JSON.stringify(backup, null, 2);
+      const dateLabel = dayKey(new Date()); // YYYY-MM-DD, the local day
+      downloadFile(
+        `watch-tracker-backup-${dateLabel}.json`,
+        json,
+        "application/json"
+      );
+    } catch (err) {
+      console.error(err);
+      alert("Failed to create backup.");
+    }
+  };
+
+  // Same data as the JSON backup plus every photo, as one ZIP.
+  const exportPhotoBackup = async () => {
+    try {
+      const archive = await createBackupArchive(
+        {
+          settings,
+          items,
+          wearLogs,
+          mappingProfiles,
+          exchangeRates,
+          contacts,
+        },
+        photos
+      );
+      const dateLabel = dayKey(new Date()); // YYYY-MM-DD, the local day
+      downloadFile(
+        `watch-tracker-backup-${dateLabel}.zip`,
+        archive,
+        "application/zip"
+      );
+    } catch (err) {
+      console.error(err);
+      alert("Failed to create backup.");
+    }
+  };
+
+  const importFullBackup = async (file: File) => {
+    const result = file.name.toLowerCase().endsWith(".zip")
+      ? await readBackupArchive(await file.arrayBuffer())
+      : await readBackup(await file.text());
+    if (!result.ok) {
+      alert(result.error);
+      return;
+    }
+    setPendingRestore({ fileName: file.name, result });
+  };
+
+  const applyBackup = (
+    data: BackupData,
+    restoredPhotos: WatchPhoto[] | null
+  ) => {
+    record("Restore backup", {
+      items: () => data.items,
+      wearLogs: () => data.wearLogs,
+      contacts: () => data.contacts,
+    });
+    setMappingProfiles(data.mappingProfiles);
+    setExchangeRates(data.exchangeRates);
+    if (restoredPhotos) {
+      photos.forEach(revokePhotoUrls);
+      setPhotos(restoredPhotos);
+    }
+    if (data.settings) setSettings(data.settings);
+    setPendingRestore(null);
+    alert("Backup imported successfully.");
   };
 
   const handleWatchesFileChange = (
@@ -868,64 +2094,553 @@ const App: React.FC = () => {
     e.target.value = "";
   };
 
-  // ================== UI ==================
-
-  const tabButtonStyle = (active: boolean): React.CSSProperties => ({
-    padding: "6px 12px",
-    marginRight: 8,
-    borderRadius: 999,
-    border: active ? "1px solid #60a5fa" : "1px solid #374151",
-    background: active ? "rgba(37,99,235,0.3)" : "#111827",
-    color: "#e5e7eb",
-    fontSize: 13,
-    fontWeight: active ? 600 : 500,
-    cursor: "pointer",
-    boxShadow: active ? "0 0 0 1px rgba(37,99,235,0.4)" : "none",
-    transition: "background 0.15s ease, transform 0.12s ease",
-  });
-
-  const primaryButtonStyle: React.CSSProperties = {
-    padding: "6px 12px",
-    borderRadius: 6,
-    border: "1px solid #2563eb",
-    background: "linear-gradient(135deg,#2563eb,#1d4ed8)",
-    color: "white",
-    fontWeight: 600,
-    cursor: "pointer",
-  };
-
-  const subtleButtonStyle: React.CSSProperties = {
-    padding: "6px 10px",
-    borderRadius: 6,
-    border: "1px solid #4b5563",
-    background: "#111827",
-    color: "#e5e7eb",
-    cursor: "pointer",
-  };
-
-  const dangerButtonStyle: React.CSSProperties = {
-    ...subtleButtonStyle,
-    background: "#7f1d1d",
-    border: "1px solid #b91c1c",
-  };
-
-  const tableHeadCell: React.CSSProperties = {
-    borderBottom: "1px solid #374151",
-    padding: 6,
-    fontSize: 12,
-    textTransform: "uppercase",
-    letterSpacing: "0.05em",
-    color: "#9ca3af",
-    background: "#020617",
-    textAlign: "left",
+  // Batch actions only touch checked rows the table is showing.
+  const selectedInventory = derived.available.filter((w) =>
+    selectedIds.has(w.id)
+  );
+  const selectedSold = filteredSold.filter((w) => selectedIds.has(w.id));
+
+  // ===== Table columns =====
+  const tableLayout = (id: TableId) =>
+    settings.tableLayouts[id] ?? DEFAULT_TABLE_LAYOUTS[id];
+  const setTableLayout = (id: TableId) => (layout: TableLayout) =>
+    setSettings((prev) => ({
+      ...prev,
+      tableLayouts: { ...prev.tableLayouts, [id]: layout },
+    }));
+
+  // Money columns sort by their value in the reporting currency, so prices
+  // in different currencies compare correctly.
+  const inReporting = (
+    amount: number | null | undefined,
+    w: WatchItem,
+    kind: "purchase" | "parts" | "posted" | "sold",
+    date?: string | null
+  ) =>
+    typeof amount === "number"
+      ? convert(amount, currencyOf(w, kind), date)
+      : null;
+
+  const watchColumns = {
+    photo: {
+      id: "photo",
+      header: "Photo",
+      render: (w) => (
+        <PhotoThumb
+          cover={photosByWatch.get(w.id)?.[0]}
+          count={photosByWatch.get(w.id)?.length ?? 0}
+          onOpen={() => setGalleryWatchId(w.id)}
+        />
+      ),
+      sortValue: (w) => photosByWatch.get(w.id)?.length ?? 0,
+    },
+    model: {
+      id: "model",
+      header: "Model",
+      render: (w) => (
+        <>
+          {w.model}
+          {attributeSummary(w) && (
+            <div style={{ fontSize: 12, color: "#9ca3af" }}>
+              {attributeSummary(w)}
+            </div>
+          )}
+        </>
+      ),
+      sortValue: (w) => w.model,
+      hideable: false,
+    },
+    tags: {
+      id: "tags",
+      header: "Tags",
+      render: (w) => <TagChips tags={tagsOf(w, settings.tags)} />,
+      sortValue: (w) => formatTagList(w, settings.tags),
+    },
+    purchaseDate: {
+      id: "purchaseDate",
+      header: "Date Bought",
+      render: (w) => w.purchaseDate || "—",
+      sortValue: (w) => w.purchaseDate,
+    },
+    purchase: {
+      id: "purchase",
+      header: "Purchase",
+      render: (w) => toCurrency(w.purchasePrice, currencyOf(w, "purchase")),
+      sortValue: (w) =>
+        inReporting(w.purchasePrice, w, "purchase", w.purchaseDate),
+      align: "right",
+    },
+    parts: {
+      id: "parts",
+      header: "Parts",
+      render: (w) => (
+        <button
+          onClick={() => setLedgerWatchId(w.id)}
+          title="Itemised parts and service costs"
+          style={{ ...subtleButtonStyle, padding: "3px 8px" }}
+        >
+          {toCurrency(w.partsCost, currencyOf(w, "parts"))}
+        </button>
+      ),
+      sortValue: (w) => inReporting(w.partsCost, w, "parts", w.purchaseDate),
+      align: "right",
+    },
+    status: {
+      id: "status",
+      header: "Status",
+      render: (w) => (
+        <StatusSelect
+          status={w.status}
+          lifecycle={settings.lifecycle}
+          onChange={(to) => changeStatus(w.id, to)}
+          onShowHistory={() => setHistoryWatchId(w.id)}
+        />
+      ),
+      sortValue: (w) => w.status,
+    },
+    dateSold: {
+      id: "dateSold",
+      header: "Date Sold",
+      render: (w) => w.dateSold || "—",
+      sortValue: (w) => w.dateSold,
+    },
+    seller: {
+      id: "seller",
+      header: "Bought From",
+      render: (w) => contactsById.get(w.sellerId ?? "")?.name ?? "—",
+      sortValue: (w) => contactText(w.sellerId),
+    },
+    buyer: {
+      id: "buyer",
+      header: "Sold To",
+      render: (w) => contactsById.get(w.buyerId ?? "")?.name ?? "—",
+      sortValue: (w) => contactText(w.buyerId),
+    },
+    edit: {
+      id: "edit",
+      header: "Edit",
+      render: (w) => (
+        <button
+          onClick={() =>
+            statusGroup(settings.lifecycle, w.status) === "sold"
+              ? editSoldWatch(w.id)
+              : editWatch(w.id)
+          }
+          style={subtleButtonStyle}
+        >
+          Edit
+        </button>
+      ),
+      align: "right",
+    },
+    delete: {
+      id: "delete",
+      header: "Delete",
+      render: (w) => (
+        <button onClick={() => deleteWatch(w.id)} style={dangerButtonStyle}>
+          Delete
+        </button>
+      ),
+      align: "right",
+    },
+  } satisfies Record<string, Column<WatchItem>>;
+
+  const wornColumn: Column<WatchItem & { wearCount: number }> = {
+    id: "worn",
+    header: "Worn ×",
+    render: (w) => w.wearCount,
+    sortValue: (w) => w.wearCount,
+    align: "right",
   };
 
-  const tableBodyCell: React.CSSProperties = {
-    borderBottom: "1px solid #1f2933",
-    padding: 6,
-    fontSize: 13,
-  };
+  const inventoryColumns: Column<(typeof derived.available)[number]>[] = [
+    watchColumns.photo,
+    watchColumns.model,
+    watchColumns.tags,
+    watchColumns.purchaseDate,
+    watchColumns.purchase,
+    watchColumns.parts,
+    {
+      id: "posted",
+      header: "Posted",
+      render: (w) => {
+        const stale = staleListings.find((s) => s.watch.id === w.id);
+        return (
+          <button
+            onClick={() => setListingWatchId(w.id)}
+            title={
+              stale
+                ? `Unchanged for ${stale.days} days; time to drop the price?`
+                : "Listing log and price history"
+            }
+            style={{
+              ...subtleButtonStyle,
+              padding: "3px 8px",
+              ...(stale && { borderColor: "#f97316", color: "#fdba74" }),
+            }}
+          >
+            {toCurrency(w.postedPrice ?? null, currencyOf(w, "posted"))}
+          </button>
+        );
+      },
+      sortValue: (w) => inReporting(w.postedPrice, w, "posted"),
+      align: "right",
+    },
+    {
+      id: "offers",
+      header: "Offers",
+      render: (w) => {
+        const pending = pendingOffers(w);
+        return (
+          <button
+            onClick={() => setOffersWatchId(w.id)}
+            title={pending ? `${pending} offer(s) awaiting an answer` : ""}
+            style={{
+              ...subtleButtonStyle,
+              padding: "3px 8px",
+              ...(pending > 0 && { borderColor: "#facc15", color: "#fde68a" }),
+            }}
+          >
+            {w.offers?.length ?? 0}
+          </button>
+        );
+      },
+      sortValue: (w) => w.offers?.length ?? 0,
+      align: "right",
+    },
+    watchColumns.seller,
+    watchColumns.status,
+    watchColumns.dateSold,
+    wornColumn,
+    {
+      id: "wear",
+      header: "Wear now",
+      render: (w) =>
+        derived.activeWear?.watchId === w.id ? (
+          <button onClick={stopWear} style={subtleButtonStyle}>
+            Stop wearing
+          </button>
+        ) : (
+          <button onClick={() => startWear(w.id)} style={subtleButtonStyle}>
+            Wear now
+          </button>
+        ),
+      align: "right",
+    },
+    {
+      id: "sell",
+      header: "Mark sold",
+      render: (w) => (
+        <button
+          onClick={() => changeStatus(w.id, SOLD)}
+          disabled={!canMove(w, SOLD)}
+          title={
+            canMove(w, SOLD) ? undefined : `Can't move ${w.status} to ${SOLD}`
+          }
+          style={{
+            ...subtleButtonStyle,
+            opacity: canMove(w, SOLD) ? 1 : 0.5,
+          }}
+        >
+          Sold
+        </button>
+      ),
+      align: "right",
+    },
+    {
+      id: "archive",
+      header: "Archive",
+      render: (w) => {
+        const to = w.status === ARCHIVED ? AVAILABLE : ARCHIVED;
+        return (
+          <button
+            onClick={() => changeStatus(w.id, to)}
+            disabled={!canMove(w, to)}
+            title={
+              canMove(w, to) ? undefined : `Can't move ${w.status} to ${to}`
+            }
+            style={{
+              ...subtleButtonStyle,
+              opacity: canMove(w, to) ? 1 : 0.5,
+            }}
+          >
+            {w.status === ARCHIVED ? "Unarchive" : "Archive"}
+          </button>
+        );
+      },
+      align: "right",
+    },
+    watchColumns.edit,
+    watchColumns.delete,
+  ];
+
+  const soldColumns: Column<SoldRow>[] = [
+    watchColumns.photo,
+    watchColumns.model,
+    watchColumns.tags,
+    watchColumns.purchase,
+    watchColumns.parts,
+    {
+      id: "totalCost",
+      header: "Total Cost",
+      render: (w) => toCurrency(w.totalCost, settings.reportingCurrency),
+      sortValue: (w) => w.totalCost,
+      align: "right",
+    },
+    {
+      id: "soldPrice",
+      header: "Sold Price",
+      render: (w) => toCurrency(w.soldPrice ?? null, currencyOf(w, "sold")),
+      sortValue: (w) => w.soldValue,
+      align: "right",
+    },
+    {
+      id: "fees",
+      header: "Fees",
+      render: (w) => (
+        <span title={w.saleChannel}>
+          {w.saleFees
+            ? toCurrency(totalFees(w.saleFees), currencyOf(w, "sold"))
+            : "—"}
+        </span>
+      ),
+      sortValue: (w) => w.fees,
+      align: "right",
+    },
+    {
+      id: "grossProfit",
+      header: "Gross Profit",
+      render: (w) => toCurrency(w.grossProfit, settings.reportingCurrency),
+      sortValue: (w) => w.grossProfit,
+      align: "right",
+    },
+    {
+      id: "profit",
+      header: "Net Profit",
+      render: (w) =>
+        typeof w.profit === "number"
+          ? toCurrency(w.profit, settings.reportingCurrency)
+          : "—",
+      sortValue: (w) => w.profit,
+      align: "right",
+      cellStyle: (w) => ({ color: profitColor(w.profit) }),
+    },
+    {
+      id: "daysToSell",
+      header: "Days to Sell",
+      render: (w) => w.daysToSell ?? "—",
+      sortValue: (w) => w.daysToSell,
+      align: "right",
+    },
+    {
+      id: "annualisedReturn",
+      header: "Annualised Return",
+      render: (w) => formatReturn(w.annualisedReturn),
+      sortValue: (w) => w.annualisedReturn,
+      align: "right",
+    },
+    watchColumns.seller,
+    watchColumns.buyer,
+    watchColumns.status,
+    watchColumns.dateSold,
+    wornColumn,
+    {
+      id: "undo",
+      header: "Undo",
+      render: (w) => (
+        <button
+          onClick={() => undoSold(w.id)}
+          disabled={!unsoldStatus(w)}
+          title={
+            unsoldStatus(w)
+              ? `Back to ${unsoldStatus(w)}`
+              : `Can't go back to inventory from ${w.status}`
+          }
+          style={{
+            ...subtleButtonStyle,
+            opacity: unsoldStatus(w) ? 1 : 0.5,
+          }}
+        >
+          Undo
+        </button>
+      ),
+      align: "right",
+    },
+    watchColumns.edit,
+    watchColumns.delete,
+  ];
+
+  const wearRows = activeWearLogs.filter((log) => {
+    if (!matchingIds.has(log.watchId)) return false;
+    if (wearWatchFilter === "all") return true;
+    const watch = items.find((i) => i.id === log.watchId);
+    const label = (watch?.model || "").trim();
+    return label === wearWatchFilter;
+  });
+  const wearLabel = (log: WearLog) =>
+    items.find((i) => i.id === log.watchId)?.model ?? "(deleted)";
+
+  const wearColumns: Column<WearLog>[] = [
+    {
+      id: "watch",
+      header: "Watch",
+      render: wearLabel,
+      sortValue: wearLabel,
+      hideable: false,
+    },
+    {
+      id: "start",
+      header: "Start",
+      render: (log) => formatDateTime(log.start),
+      sortValue: (log) => log.start,
+    },
+    {
+      id: "end",
+      header: "End",
+      render: (log) => formatDateTime(log.end),
+      sortValue: (log) => log.end,
+    },
+    {
+      id: "duration",
+      header: "Duration",
+      render: (log) => formatDuration(log.start, log.end),
+      sortValue: (log) =>
+        effectiveEnd(log, settings.maxSessionHours).getTime() -
+        new Date(log.start).getTime(),
+    },
+    {
+      id: "actions",
+      header: "Actions",
+      render: (log) => (
+        <>
+          <button
+            onClick={() => editWearLog(log.id)}
+            style={{
+              ...subtleButtonStyle,
+              padding: "3px 8px",
+              marginRight: 4,
+            }}
+          >
+            Edit
+          </button>
+          <button
+            onClick={() => deleteWearLog(log.id)}
+            style={{
+              ...dangerButtonStyle,
+              padding: "3px 8px",
+            }}
+          >
+            Delete
+          </button>
+        </>
+      ),
+    },
+  ];
+
+  // Profit only counts once the watch is in the sold group.
+  const statsProfit = (w: WatchItem) =>
+    statusGroup(settings.lifecycle, w.status) === "sold"
+      ? reportingAmounts(w, convert).profit
+      : null;
+
+  // Sold watches count up to the sale, the rest up to today.
+  const statsDaysHeld = (w: WatchItem) =>
+    statusGroup(settings.lifecycle, w.status) === "sold"
+      ? w.dateSold
+        ? holdingDays(w.purchaseDate, w.dateSold)
+        : null
+      : holdingDays(w.purchaseDate, dayKey(new Date()));
+
+  const statsReturn = (w: WatchItem) =>
+    statusGroup(settings.lifecycle, w.status) === "sold"
+      ? annualisedReturn(
+          statsProfit(w),
+          reportingAmounts(w, convert).totalCost,
+          statsDaysHeld(w)
+        )
+      : null;
+
+  const statsColumns: Column<(typeof statsByWatch)[number]>[] = [
+    {
+      id: "model",
+      header: "Model",
+      render: (s) => s.watch.model,
+      sortValue: (s) => s.watch.model,
+      hideable: false,
+    },
+    {
+      id: "status",
+      header: "Status",
+      render: (s) => s.watch.status,
+      sortValue: (s) => s.watch.status,
+    },
+    {
+      id: "worn",
+      header: "Worn ×",
+      render: (s) => s.wearCount,
+      sortValue: (s) => s.wearCount,
+      align: "right",
+    },
+    {
+      id: "wearTime",
+      header: "Total wear time",
+      render: (s) =>
+        s.wearCount > 0 ? formatTotalDuration(s.totalMinutes) : "—",
+      sortValue: (s) => s.totalMinutes,
+    },
+    {
+      id: "purchase",
+      header: "Purchase",
+      render: (s) =>
+        toCurrency(s.watch.purchasePrice, currencyOf(s.watch, "purchase")),
+      sortValue: (s) =>
+        inReporting(
+          s.watch.purchasePrice,
+          s.watch,
+          "purchase",
+          s.watch.purchaseDate
+        ),
+      align: "right",
+    },
+    {
+      id: "soldPrice",
+      header: "Sold price",
+      render: (s) =>
+        toCurrency(s.watch.soldPrice ?? null, currencyOf(s.watch, "sold")),
+      sortValue: (s) =>
+        inReporting(s.watch.soldPrice, s.watch, "sold", s.watch.dateSold),
+      align: "right",
+    },
+    {
+      id: "profit",
+      header: "Net profit",
+      render: (s) => {
+        const profit = statsProfit(s.watch);
+        return typeof profit === "number"
+          ? toCurrency(profit, settings.reportingCurrency)
+          : "—";
+      },
+      sortValue: (s) => statsProfit(s.watch),
+      align: "right",
+      cellStyle: (s) => ({ color: profitColor(statsProfit(s.watch)) }),
+    },
+    {
+      id: "daysHeld",
+      header: "Days held",
+      render: (s) => statsDaysHeld(s.watch) ?? "—",
+      sortValue: (s) => statsDaysHeld(s.watch),
+      align: "right",
+    },
+    {
+      id: "annualisedReturn",
+      header: "Annualised return",
+      render: (s) => formatReturn(statsReturn(s.watch)),
+      sortValue: (s) => statsReturn(s.watch),
+      align: "right",
+    },
+  ];
 
+  // ================== UI ==================
   return (
     <div
       style={{
@@ -973,6 +2688,38 @@ const App: React.FC = () => {
               Track inventory, wear time, and profit across your collection.
             </div>
           </div>
+          <div style={{ display: "flex", gap: 8 }}>
+            <button
+              onClick={journal.undo}
+              disabled={!journal.undoEntry}
+              title={
+                journal.undoEntry
+                  ? `Undo: ${journal.undoEntry.label} (Ctrl+Z)`
+                  : "Nothing to undo"
+              }
+              style={{
+                ...subtleButtonStyle,
+                opacity: journal.undoEntry ? 1 : 0.5,
+              }}
+            >
+              Undo
+            </button>
+            <button
+              onClick={journal.redo}
+              disabled={!journal.redoEntry}
+              title={
+                journal.redoEntry
+                  ? `Redo: ${journal.redoEntry.label} (Ctrl+Shift+Z)`
+                  : "Nothing to redo"
+              }
+              style={{
+                ...subtleButtonStyle,
+                opacity: journal.redoEntry ? 1 : 0.5,
+              }}
+            >
+              Redo
+            </button>
+          </div>
         </header>
 
         {/* Tabs */}
@@ -1001,37 +2748,61 @@ const App: React.FC = () => {
           >
             Stats
           </button>
+          <button
+            onClick={() => setActiveTab("contacts")}
+            style={tabButtonStyle(activeTab === "contacts")}
+          >
+            Contacts
+          </button>
+          <button
+            onClick={() => setActiveTab("trash")}
+            style={tabButtonStyle(activeTab === "trash")}
+          >
+            Trash{trashedItems.length > 0 && ` (${trashedItems.length})`}
+          </button>
         </div>
 
         {/* Shared search */}
-        <div
-          style={{
-            marginBottom: 12,
-            display: "flex",
-            flexDirection: "column",
-            maxWidth: 260,
-            gap: 4,
-          }}
-        >
-          <label htmlFor="search" style={{ fontSize: 13 }}>
-            Filter by model
-          </label>
-          <input
-            id="search"
-            type="text"
-            placeholder="e.g. Sugess"
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
+        <SearchBar
+          query={search}
+          errors={compiledQuery.errors}
+          fieldValues={queryValues}
+          savedSearches={settings.savedSearches}
+          onChange={setSearch}
+          onSave={(name) =>
+            setSettings((prev) => ({
+              ...prev,
+              savedSearches: [
+                ...prev.savedSearches,
+                { id: crypto.randomUUID(), name, query: search },
+              ],
+            }))
+          }
+          onDelete={(id) =>
+            setSettings((prev) => ({
+              ...prev,
+              savedSearches: prev.savedSearches.filter((s) => s.id !== id),
+            }))
+          }
+        />
+        {settings.tags.length > 0 && (
+          <div
             style={{
-              padding: 6,
-              borderRadius: 6,
-              border: "1px solid #374151",
-              background: "#020617",
-              color: "#e5e7eb",
+              display: "flex",
+              alignItems: "center",
+              gap: 8,
+              marginBottom: 12,
               fontSize: 13,
             }}
-          />
-        </div>
+          >
+            <span>Tags:</span>
+            <TagPicker
+              tags={settings.tags}
+              selected={tagFilter}
+              onChange={setTagFilter}
+            />
+          </div>
+        )}
 
         {/* INVENTORY TAB */}
         {activeTab === "inventory" && (
@@ -1047,145 +2818,42 @@ const App: React.FC = () => {
             >
               <div>
                 <button
-                  onClick={() => setShowAdd((prev) => !prev)}
+                  onClick={() => setWatchForm({ mode: "add", watchId: null })}
                   style={primaryButtonStyle}
                 >
-                  {showAdd ? "Cancel" : "+ Add Watch"}
+                  + Add Watch
                 </button>
-              </div>
-
-              {showAdd && (
-                <div
-                  style={{
-                    borderRadius: 10,
-                    border: "1px solid #374151",
-                    padding: 12,
-                    background:
-                      "linear-gradient(135deg,rgba(15,23,42,0.95),rgba(2,6,23,0.98))",
-                    boxShadow: "0 22px 45px rgba(0,0,0,0.55)",
-                    display: "flex",
-                    flexDirection: "column",
-                    gap: 8,
-                  }}
+                <label style={{ fontSize: 13, marginLeft: 12 }}>
+                  <input
+                    type="checkbox"
+                    checked={showArchived}
+                    onChange={(e) => setShowArchived(e.target.checked)}
+                  />{" "}
+                  Show archived ({totalArchived})
+                </label>
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value)}
+                  style={{ ...inputStyle, marginLeft: 12 }}
                 >
-                  <div style={{ fontWeight: 600, marginBottom: 4 }}>
-                    Quick Add Watch
-                  </div>
-                  <div
-                    style={{
-                      display: "grid",
-                      gridTemplateColumns: "repeat(auto-fit,minmax(180px,1fr))",
-                      gap: 10,
-                    }}
-                  >
-                    <label style={{ fontSize: 13 }}>
-                      Model
-                      <input
-                        type="text"
-                        value={newModel}
-                        placeholder="e.g. Sugess 1963"
-                        onChange={(e) => setNewModel(e.target.value)}
-                        style={{
-                          padding: 6,
-                          width: "100%",
-                          marginTop: 2,
-                          borderRadius: 6,
-                          border: "1px solid #4b5563",
-                          background: "#020617",
-                          color: "#e5e7eb",
-                          fontSize: 13,
-                        }}
-                      />
-                    </label>
-
-                    <label style={{ fontSize: 13 }}>
-                      Purchase Date
-                      <input
-                        type="date"
-                        value={newPurchaseDate}
-                        onChange={(e) => setNewPurchaseDate(e.target.value)}
-                        style={{
-                          padding: 6,
-                          width: "100%",
-                          marginTop: 2,
-                          borderRadius: 6,
-                          border: "1px solid #4b5563",
-                          background: "#020617",
-                          color: "#e5e7eb",
-                          fontSize: 13,
-                        }}
-                      />
-                    </label>
-
-                    <label style={{ fontSize: 13 }}>
-                      Purchase Price
-                      <input
-                        type="text"
-                        value={newPurchase}
-                        placeholder="e.g. 250"
-                        onChange={(e) => setNewPurchase(e.target.value)}
-                        style={{
-                          padding: 6,
-                          width: "100%",
-                          marginTop: 2,
-                          borderRadius: 6,
-                          border: "1px solid #4b5563",
-                          background: "#020617",
-                          color: "#e5e7eb",
-                          fontSize: 13,
-                        }}
-                      />
-                    </label>
-
-                    <label style={{ fontSize: 13 }}>
-                      Parts Cost
-                      <input
-                        type="text"
-                        value={newParts}
-                        placeholder="e.g. 30"
-                        onChange={(e) => setNewParts(e.target.value)}
-                        style={{
-                          padding: 6,
-                          width: "100%",
-                          marginTop: 2,
-                          borderRadius: 6,
-                          border: "1px solid #4b5563",
-                          background: "#020617",
-                          color: "#e5e7eb",
-                          fontSize: 13,
-                        }}
-                      />
-                    </label>
-                  </div>
-                  <div
-                    style={{
-                      display: "flex",
-                      justifyContent: "flex-end",
-                      gap: 8,
-                      marginTop: 6,
-                    }}
-                  >
-                    <button
-                      onClick={() => {
-                        setShowAdd(false);
-                        setNewModel("");
-                        setNewPurchase("");
-                        setNewParts("");
-                        setNewPurchaseDate("");
-                      }}
-                      style={subtleButtonStyle}
-                    >
-                      Cancel
-                    </button>
-                    <button
-                      onClick={handleAddWatch}
-                      style={primaryButtonStyle}
-                    >
-                      Save
-                    </button>
-                  </div>
-                </div>
-              )}
+                  <option value="all">All statuses</option>
+                  {settings.lifecycle.statuses
+                    .filter((s) => s.group !== "sold")
+                    .map((s) => (
+                      <option key={s.name} value={s.name}>
+                        {s.name}
+                      </option>
+                    ))}
+                </select>
+                <label style={{ fontSize: 13, marginLeft: 12 }}>
+                  <input
+                    type="checkbox"
+                    checked={groupByStatus}
+                    onChange={(e) => setGroupByStatus(e.target.checked)}
+                  />{" "}
+                  Group by status
+                </label>
+              </div>
 
               <div
                 style={{
@@ -1226,6 +2894,13 @@ const App: React.FC = () => {
                   Export FULL Backup (JSON)
                 </button>
 
+                <button
+                  onClick={exportPhotoBackup}
+                  style={subtleButtonStyle}
+                >
+                  Export Backup with Photos (ZIP)
+                </button>
+
                 <label
                   style={{
                     ...subtleButtonStyle,
@@ -1235,10 +2910,10 @@ const App: React.FC = () => {
                     cursor: "pointer",
                   }}
                 >
-                  Import Backup JSON
+                  Import Backup (JSON/ZIP)
                   <input
                     type="file"
-                    accept="application/json,.json"
+                    accept="application/json,.json,application/zip,.zip"
                     style={{ display: "none" }}
                     onChange={handleBackupFileChange}
                   />
@@ -1246,158 +2921,90 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            {/* Available inventory only */}
-            <div
-              style={{
-                overflowX: "auto",
-                borderRadius: 10,
-                border: "1px solid #1f2933",
-                background:
-                  "linear-gradient(135deg,rgba(15,23,42,0.96),rgba(3,7,18,0.98))",
-                boxShadow: "0 20px 45px rgba(0,0,0,0.55)",
-              }}
-            >
-              <table
+            {staleListings.length > 0 && (
+              <div
                 style={{
-                  width: "100%",
-                  borderCollapse: "collapse",
-                  fontSize: 14,
+                  display: "flex",
+                  flexWrap: "wrap",
+                  alignItems: "center",
+                  gap: 8,
+                  marginBottom: 12,
+                  padding: "6px 10px",
+                  borderRadius: 8,
+                  border: "1px solid #f97316",
+                  background: "rgba(249,115,22,0.08)",
+                  fontSize: 13,
                 }}
               >
-                <thead>
-                  <tr>
-                    <th style={tableHeadCell}>Model</th>
-                    <th style={tableHeadCell}>Date Bought</th>
-                    <th style={tableHeadCell}>Purchase</th>
-                    <th style={tableHeadCell}>Parts</th>
-                    <th style={tableHeadCell}>Posted</th>
-                    <th style={tableHeadCell}>Status</th>
-                    <th style={tableHeadCell}>Date Sold</th>
-                    <th style={tableHeadCell}>Worn ×</th>
-                    <th style={tableHeadCell}>Wear now</th>
-                    <th style={tableHeadCell}>Mark sold</th>
-                    <th style={tableHeadCell}>Edit</th>
-                    <th style={tableHeadCell}>Delete</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {derived.available.map((w: any, idx: number) => (
-                    <tr
-                      key={w.id}
-                      style={{
-                        background:
-                          idx % 2 === 0 ? "rgba(15,23,42,0.9)" : "rgba(2,6,23,0.9)",
-                      }}
-                    >
-                      <td style={tableBodyCell}>{w.model}</td>
-                      <td style={tableBodyCell}>
-                        {w.purchaseDate || "—"}
-                      </td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        {toCurrency(w.purchasePrice)}
-                      </td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        {toCurrency(w.partsCost)}
-                      </td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        {toCurrency(w.postedPrice ?? null)}
-                      </td>
-                      <td style={tableBodyCell}>{w.status}</td>
-                      <td style={tableBodyCell}>{w.dateSold || "—"}</td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        {w.wearCount}
-                      </td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        <button
-                          onClick={() => startWear(w.id)}
-                          style={subtleButtonStyle}
-                        >
-                          Wear now
-                        </button>
-                      </td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        <button
-                          onClick={() => markSold(w.id)}
-                          style={subtleButtonStyle}
-                        >
-                          Sold
-                        </button>
-                      </td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        <button
-                          onClick={() => editWatch(w.id)}
-                          style={subtleButtonStyle}
-                        >
-                          Edit
-                        </button>
-                      </td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        <button
-                          onClick={() => deleteWatch(w.id)}
-                          style={dangerButtonStyle}
-                        >
-                          Delete
-                        </button>
-                      </td>
-                    </tr>
-                  ))}
-                  {derived.available.length === 0 && (
-                    <tr>
-                      <td
-                        colSpan={12}
-                        style={{
-                          padding: 10,
-                          textAlign: "center",
-                          color: "#6b7280",
-                        }}
-                      >
-                        No available watches.
-                      </td>
-                    </tr>
-                  )}
-                </tbody>
-              </table>
-            </div>
+                <span>
+                  {staleListings.length} listing(s) at the same price for{" "}
+                  {settings.priceDropDays}+ days:
+                </span>
+                {staleListings.map((s) => (
+                  <button
+                    key={s.watch.id}
+                    onClick={() => setListingWatchId(s.watch.id)}
+                    style={{ ...subtleButtonStyle, padding: "2px 8px" }}
+                  >
+                    {s.watch.model} · {s.days}d
+                  </button>
+                ))}
+                <label style={{ marginLeft: "auto", color: "#9ca3af" }}>
+                  Remind after{" "}
+                  <input
+                    type="number"
+                    min={1}
+                    value={settings.priceDropDays}
+                    onChange={(e) => {
+                      const days = Number(e.target.value);
+                      if (Number.isInteger(days) && days >= 1) {
+                        setSettings((prev) => ({
+                          ...prev,
+                          priceDropDays: days,
+                        }));
+                      }
+                    }}
+                    style={{ ...inputStyle, width: 56 }}
+                  />{" "}
+                  days
+                </label>
+              </div>
+            )}
+
+            {selectedInventory.length > 0 && (
+              <BatchActionsBar
+                count={selectedInventory.length}
+                statusOptions={batchStatusOptions(selectedInventory)}
+                onStatus={(to) => batchSetStatus(selectedInventory, to)}
+                tags={settings.tags}
+                onTag={(id) => batchTag(selectedInventory, id)}
+                onSell={() => batchSetStatus(selectedInventory, SOLD)}
+                onAddCost={() =>
+                  setBatchDialog({
+                    kind: "cost",
+                    ids: selectedInventory.map((w) => w.id),
+                  })
+                }
+                onArchive={() => batchArchive(selectedInventory)}
+                onDelete={() => batchDelete(selectedInventory)}
+                onExport={() => exportSelectionCSV(selectedInventory)}
+                onClear={clearSelection}
+              />
+            )}
+
+            {/* Available inventory only */}
+            <DataTable
+              rows={derived.available}
+              rowKey={(w) => w.id}
+              columns={inventoryColumns}
+              layout={tableLayout("inventory")}
+              defaultLayout={DEFAULT_TABLE_LAYOUTS.inventory}
+              onLayoutChange={setTableLayout("inventory")}
+              groupBy={groupByStatus ? (w) => w.status : undefined}
+              selected={selectedIds}
+              onSelectionChange={setSelectedIds}
+              emptyMessage="No available watches."
+            />
           </div>
         )}
 
@@ -1476,29 +3083,78 @@ const App: React.FC = () => {
             >
               <div>
                 <div style={{ fontSize: 12, color: "#9ca3af" }}>
-                  Total Cost
+                  Total Cost ({settings.reportingCurrency})
+                </div>
+                <div>
+                  {toCurrency(
+                    soldSummaryFiltered.totalCost || 0,
+                    settings.reportingCurrency
+                  )}
+                </div>
+              </div>
+              <div>
+                <div style={{ fontSize: 12, color: "#9ca3af" }}>
+                  Total Sold ({settings.reportingCurrency})
+                </div>
+                <div>
+                  {toCurrency(
+                    soldSummaryFiltered.totalSold || 0,
+                    settings.reportingCurrency
+                  )}
+                </div>
+              </div>
+              <div>
+                <div style={{ fontSize: 12, color: "#9ca3af" }}>
+                  Selling Fees ({settings.reportingCurrency})
+                </div>
+                <div>
+                  {toCurrency(
+                    soldSummaryFiltered.totalFees || 0,
+                    settings.reportingCurrency
+                  )}
+                </div>
+              </div>
+              <div>
+                <div style={{ fontSize: 12, color: "#9ca3af" }}>
+                  Gross Profit ({settings.reportingCurrency})
                 </div>
                 <div>
-                  {toCurrency(soldSummaryFiltered.totalCost || 0)}
+                  {toCurrency(
+                    soldSummaryFiltered.totalGrossProfit || 0,
+                    settings.reportingCurrency
+                  )}
                 </div>
               </div>
               <div>
                 <div style={{ fontSize: 12, color: "#9ca3af" }}>
-                  Total Sold
+                  Net Profit ({settings.reportingCurrency})
                 </div>
                 <div>
-                  {toCurrency(soldSummaryFiltered.totalSold || 0)}
+                  {toCurrency(
+                    soldSummaryFiltered.totalProfit || 0,
+                    settings.reportingCurrency
+                  )}
                 </div>
               </div>
               <div>
                 <div style={{ fontSize: 12, color: "#9ca3af" }}>
-                  Total Profit
+                  Avg Days to Sell
                 </div>
                 <div>
-                  {toCurrency(soldSummaryFiltered.totalProfit || 0)}
+                  {avgDaysToSellFiltered === null
+                    ? "—"
+                    : Math.round(avgDaysToSellFiltered)}
                 </div>
               </div>
-              <div style={{ marginLeft: "auto" }}>
+              <div
+                style={{ marginLeft: "auto", display: "flex", gap: 8 }}
+              >
+                <button
+                  onClick={() => setTaxReportOpen(true)}
+                  style={primaryButtonStyle}
+                >
+                  Tax report…
+                </button>
                 <button
                   onClick={exportPLCSV}
                   style={primaryButtonStyle}
@@ -1508,165 +3164,36 @@ const App: React.FC = () => {
               </div>
             </div>
 
-            <div
-              style={{
-                overflowX: "auto",
-                borderRadius: 10,
-                border: "1px solid #1f2933",
-                background:
-                  "linear-gradient(135deg,rgba(15,23,42,0.96),rgba(3,7,18,0.98))",
-                boxShadow: "0 20px 45px rgba(0,0,0,0.55)",
-              }}
-            >
-              <table
-                style={{
-                  width: "100%",
-                  borderCollapse: "collapse",
-                  fontSize: 14,
-                }}
-              >
-                <thead>
-                  <tr>
-                    <th style={tableHeadCell}>Model</th>
-                    <th style={tableHeadCell}>Purchase</th>
-                    <th style={tableHeadCell}>Parts</th>
-                    <th style={tableHeadCell}>Total Cost</th>
-                    <th style={tableHeadCell}>Sold Price</th>
-                    <th style={tableHeadCell}>Profit</th>
-                    <th style={tableHeadCell}>Date Sold</th>
-                    <th style={tableHeadCell}>Worn ×</th>
-                    <th style={tableHeadCell}>Undo</th>
-                    <th style={tableHeadCell}>Edit</th>
-                    <th style={tableHeadCell}>Delete</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {filteredSold.map((w: any, idx: number) => (
-                    <tr
-                      key={w.id}
-                      style={{
-                        background:
-                          idx % 2 === 0 ? "rgba(15,23,42,0.9)" : "rgba(2,6,23,0.9)",
-                      }}
-                    >
-                      <td style={tableBodyCell}>{w.model}</td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        {toCurrency(w.purchasePrice)}
-                      </td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        {toCurrency(w.partsCost)}
-                      </td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        {toCurrency(w.totalCost)}
-                      </td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        {toCurrency(w.soldPrice ?? null)}
-                      </td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                          color:
-                            typeof w.profit === "number"
-                              ? w.profit > 0
-                                ? "#4ade80"
-                                : w.profit < 0
-                                ? "#f97373"
-                                : "#e5e7eb"
-                              : "#9ca3af",
-                        }}
-                      >
-                        {typeof w.profit === "number"
-                          ? toCurrency(w.profit)
-                          : "—"}
-                      </td>
-                      <td style={tableBodyCell}>{w.dateSold || "—"}</td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        {w.wearCount}
-                      </td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        <button
-                          onClick={() => undoSold(w.id)}
-                          style={subtleButtonStyle}
-                        >
-                          Undo
-                        </button>
-                      </td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        <button
-                          onClick={() => editSoldWatch(w.id)}
-                          style={subtleButtonStyle}
-                        >
-                          Edit
-                        </button>
-                      </td>
-                      <td
-                        style={{
-                          ...tableBodyCell,
-                          textAlign: "right",
-                        }}
-                      >
-                        <button
-                          onClick={() => deleteWatch(w.id)}
-                          style={dangerButtonStyle}
-                        >
-                          Delete
-                        </button>
-                      </td>
-                    </tr>
-                  ))}
-                  {filteredSold.length === 0 && (
-                    <tr>
-                      <td
-                        colSpan={11}
-                        style={{
-                          padding: 10,
-                          textAlign: "center",
-                          color: "#6b7280",
-                        }}
-                      >
-                        No sold watches match the current filters.
-                      </td>
-                    </tr>
-                  )}
-                </tbody>
-              </table>
-            </div>
+            {selectedSold.length > 0 && (
+              <BatchActionsBar
+                count={selectedSold.length}
+                statusOptions={batchStatusOptions(selectedSold)}
+                onStatus={(to) => batchSetStatus(selectedSold, to)}
+                tags={settings.tags}
+                onTag={(id) => batchTag(selectedSold, id)}
+                onAddCost={() =>
+                  setBatchDialog({
+                    kind: "cost",
+                    ids: selectedSold.map((w) => w.id),
+                  })
+                }
+                onDelete={() => batchDelete(selectedSold)}
+                onExport={() => exportSelectionCSV(selectedSold)}
+                onClear={clearSelection}
+              />
+            )}
+
+            <DataTable
+              rows={filteredSold}
+              rowKey={(w) => w.id}
+              columns={soldColumns}
+              layout={tableLayout("sold")}
+              defaultLayout={DEFAULT_TABLE_LAYOUTS.sold}
+              onLayoutChange={setTableLayout("sold")}
+              emptyMessage="No sold watches match the current filters."
+              selected={selectedIds}
+              onSelectionChange={setSelectedIds}
+            />
           </div>
         )}
 
@@ -1700,11 +3227,20 @@ const App: React.FC = () => {
                         <>
                           {label}
                           <br />
-                          Since: {formatDateTime(active.start)}
+                          Since: {formatDateTime(active.start)} (
+                          {formatDuration(active.start, null)})
                         </>
                       );
                     })()}
                   </div>
+                  <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+                    <button onClick={stopWear} style={primaryButtonStyle}>
+                      Stop wearing
+                    </button>
+                    <button onClick={stopWearAt} style={subtleButtonStyle}>
+                      Took it off at…
+                    </button>
+                  </div>
                 </>
               ) : (
                 <div style={{ fontSize: 14, color: "#9ca3af" }}>
@@ -1755,6 +3291,40 @@ const App: React.FC = () => {
                 marginBottom: 16,
               }}
             >
+              <label
+                style={{
+                  display: "inline-flex",
+                  alignItems: "center",
+                  gap: 6,
+                  fontSize: 14,
+                }}
+              >
+                Auto-close sessions after
+                <input
+                  type="number"
+                  min={1}
+                  max={72}
+                  value={settings.maxSessionHours}
+                  onChange={(e) => {
+                    const hours = Number(e.target.value);
+                    if (Number.isFinite(hours) && hours >= 1) {
+                      setSettings((prev) => ({
+                        ...prev,
+                        maxSessionHours: hours,
+                      }));
+                    }
+                  }}
+                  style={{
+                    width: 60,
+                    padding: 4,
+                    borderRadius: 6,
+                    border: "1px solid #374151",
+                    background: "#020617",
+                    color: "#e5e7eb",
+                  }}
+                />
+                h
+              </label>
               <button
                 onClick={clearWearLogs}
                 style={dangerButtonStyle}
@@ -1787,109 +3357,44 @@ const App: React.FC = () => {
             </div>
 
             {/* Wear history */}
-            <div
-              style={{
-                overflowX: "auto",
-                borderRadius: 10,
-                border: "1px solid #1f2933",
-                background:
-                  "linear-gradient(135deg,rgba(15,23,42,0.96),rgba(3,7,18,0.98))",
-                boxShadow: "0 20px 45px rgba(0,0,0,0.55)",
-              }}
-            >
-              <table
-                style={{
-                  width: "100%",
-                  borderCollapse: "collapse",
-                  fontSize: 14,
-                }}
-              >
-                <thead>
-                  <tr>
-                    <th style={tableHeadCell}>Watch</th>
-                    <th style={tableHeadCell}>Start</th>
-                    <th style={tableHeadCell}>End</th>
-                    <th style={tableHeadCell}>Duration</th>
-                    <th style={tableHeadCell}>Actions</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {wearLogs
-                    .filter((log) => {
-                      if (wearWatchFilter === "all") return true;
-                      const watch = items.find(
-                        (i) => i.id === log.watchId
-                      );
-                      const label = (watch?.model || "").trim();
-                      return label === wearWatchFilter;
-                    })
-                    .map((log, idx) => {
-                      const watch = items.find((i) => i.id === log.watchId);
-                      const label = watch ? watch.model : "(deleted)";
-                      return (
-                        <tr
-                          key={log.id}
-                          style={{
-                            background:
-                              idx % 2 === 0
-                                ? "rgba(15,23,42,0.9)"
-                                : "rgba(2,6,23,0.9)",
-                          }}
-                        >
-                          <td style={tableBodyCell}>{label}</td>
-                          <td style={tableBodyCell}>
-                            {formatDateTime(log.start)}
-                          </td>
-                          <td style={tableBodyCell}>
-                            {formatDateTime(log.end)}
-                          </td>
-                          <td style={tableBodyCell}>
-                            {formatDuration(log.start, log.end)}
-                          </td>
-                          <td style={tableBodyCell}>
-                            <button
-                              onClick={() => editWearLog(log.id)}
-                              style={{
-                                ...subtleButtonStyle,
-                                padding: "3px 8px",
-                                marginRight: 4,
-                              }}
-                            >
-                              Edit
-                            </button>
-                            <button
-                              onClick={() => deleteWearLog(log.id)}
-                              style={{
-                                ...dangerButtonStyle,
-                                padding: "3px 8px",
-                              }}
-                            >
-                              Delete
-                            </button>
-                          </td>
-                        </tr>
-                      );
-                    })}
-                  {wearLogs.length === 0 && (
-                    <tr>
-                      <td
-                        colSpan={5}
-                        style={{
-                          padding: 10,
-                          textAlign: "center",
-                          color: "#6b7280",
-                        }}
-                      >
-                        No wear sessions yet.
-                      </td>
-                    </tr>
-                  )}
-                </tbody>
-              </table>
-            </div>
+            <DataTable
+              rows={wearRows}
+              rowKey={(log) => log.id}
+              columns={wearColumns}
+              layout={tableLayout("wear")}
+              defaultLayout={DEFAULT_TABLE_LAYOUTS.wear}
+              onLayoutChange={setTableLayout("wear")}
+              emptyMessage="No wear sessions yet."
+            />
           </div>
         )}
 
+        {/* CONTACTS TAB */}
+        {activeTab === "contacts" && (
+          <ContactsPanel
+            contacts={contacts}
+            histories={contactHistories}
+            reportingCurrency={settings.reportingCurrency}
+            onSave={saveContact}
+            onDelete={deleteContact}
+          />
+        )}
+
+        {/* TRASH TAB */}
+        {activeTab === "trash" && (
+          <TrashPanel
+            items={trashedItems}
+            wearCounts={derived.wearCountMap}
+            retentionDays={settings.trashRetentionDays}
+            onRetentionChange={(days) =>
+              setSettings((prev) => ({ ...prev, trashRetentionDays: days }))
+            }
+            onRestore={restoreWatch}
+            onDeleteForever={deleteForever}
+            onEmpty={emptyTrash}
+          />
+        )}
+
         {/* STATS TAB */}
         {activeTab === "stats" && (
           <div>
@@ -1916,7 +3421,7 @@ const App: React.FC = () => {
               </div>
               <div>
                 <div style={{ fontSize: 12, color: "#9ca3af" }}>
-                  Available
+                  In inventory
                 </div>
                 <div>{totalAvailable}</div>
               </div>
@@ -1924,6 +3429,31 @@ const App: React.FC = () => {
                 <div style={{ fontSize: 12, color: "#9ca3af" }}>Sold</div>
                 <div>{totalSoldCount}</div>
               </div>
+              <div>
+                <div style={{ fontSize: 12, color: "#9ca3af" }}>Archived</div>
+                <div>{totalArchived}</div>
+              </div>
+              <div>
+                <div style={{ fontSize: 12, color: "#9ca3af" }}>
+                  Avg days to sell
+                </div>
+                <div>
+                  {avgDaysToSell === null ? "—" : Math.round(avgDaysToSell)}
+                </div>
+              </div>
+              <div
+                title={
+                  "Cost of the watches sold in the last 12 months divided " +
+                  "by the average cost of inventory held"
+                }
+              >
+                <div style={{ fontSize: 12, color: "#9ca3af" }}>
+                  Turnover (12 months)
+                </div>
+                <div>
+                  {turnover === null ? "—" : `${turnover.toFixed(1)}×`}
+                </div>
+              </div>
               {favouriteWatch && (
                 <div>
                   <div style={{ fontSize: 12, color: "#9ca3af" }}>
@@ -1942,131 +3472,263 @@ const App: React.FC = () => {
                   </div>
                   <div>
                     {mostProfitableWatch.model} ·{" "}
-                    {toCurrency(mostProfitableWatch.profit)}
+                    {toCurrency(
+                      mostProfitableWatch.profit,
+                      settings.reportingCurrency
+                    )}
                   </div>
                 </div>
               )}
             </div>
 
+            <InventoryValuationPanel
+              valuation={valuation}
+              reportingCurrency={settings.reportingCurrency}
+            />
+
+            <ListingReportPanel report={listingOutcomes} />
+
+            <StatsChartsPanel
+              range={chartRange}
+              preset={typeof statsRange === "string" ? statsRange : "custom"}
+              onPresetChange={setStatsRange}
+              onRangeChange={setStatsRange}
+              sales={derived.sold}
+              holdings={chartHoldings}
+              wearLogs={chartWearLogs}
+              minutesOf={wearMinutes}
+              watchLabel={(id) =>
+                items.find((w) => w.id === id)?.model || "Unknown watch"
+              }
+              reportingCurrency={settings.reportingCurrency}
+            />
+
+            <ExchangeRatesPanel
+              rates={exchangeRates}
+              reportingCurrency={settings.reportingCurrency}
+              currencyOptions={currencyOptions}
+              missingCurrencies={missingRateCurrencies}
+              onReportingCurrencyChange={(code) =>
+                setSettings((prev) => ({ ...prev, reportingCurrency: code }))
+              }
+              onAdd={(rate) => setExchangeRates((prev) => [...prev, rate])}
+              onDelete={(id) =>
+                setExchangeRates((prev) => prev.filter((r) => r.id !== id))
+              }
+            />
+
+            <FeeProfilesPanel
+              profiles={settings.feeProfiles}
+              onChange={(feeProfiles) =>
+                setSettings((prev) => ({ ...prev, feeProfiles }))
+              }
+            />
+
+            <SalesBreakdownPanel
+              rows={derived.sold}
+              reportingCurrency={settings.reportingCurrency}
+            />
+
+            <LifecyclePanel
+              lifecycle={settings.lifecycle}
+              usedStatuses={new Set(items.map((w) => w.status))}
+              onChange={(lifecycle) =>
+                setSettings((prev) => ({ ...prev, lifecycle }))
+              }
+            />
+
+            <TagsPanel
+              tags={settings.tags}
+              stats={tagTotals}
+              reportingCurrency={settings.reportingCurrency}
+              onAdd={addTag}
+              onChange={(tags) => setSettings((prev) => ({ ...prev, tags }))}
+              onDelete={deleteTag}
+            />
+
             {/* Per-watch stats table */}
-            <div
-              style={{
-                overflowX: "auto",
-                borderRadius: 10,
-                border: "1px solid #1f2933",
-                background:
-                  "linear-gradient(135deg,rgba(15,23,42,0.96),rgba(3,7,18,0.98))",
-                boxShadow: "0 20px 45px rgba(0,0,0,0.55)",
-              }}
-            >
-              <table
-                style={{
-                  width: "100%",
-                  borderCollapse: "collapse",
-                  fontSize: 14,
-                }}
-              >
-                <thead>
-                  <tr>
-                    <th style={tableHeadCell}>Model</th>
-                    <th style={tableHeadCell}>Status</th>
-                    <th style={tableHeadCell}>Worn ×</th>
-                    <th style={tableHeadCell}>Total wear time</th>
-                    <th style={tableHeadCell}>Purchase</th>
-                    <th style={tableHeadCell}>Sold price</th>
-                    <th style={tableHeadCell}>Profit</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {statsByWatch.map((s, idx) => {
-                    const w = s.watch;
-                    const totalCost = w.purchasePrice + w.partsCost;
-                    const profit =
-                      w.status === "Sold" && typeof w.soldPrice === "number"
-                        ? w.soldPrice - totalCost
-                        : null;
-                    return (
-                      <tr
-                        key={w.id}
-                        style={{
-                          background:
-                            idx % 2 === 0
-                              ? "rgba(15,23,42,0.9)"
-                              : "rgba(2,6,23,0.9)",
-                        }}
-                      >
-                        <td style={tableBodyCell}>{w.model}</td>
-                        <td style={tableBodyCell}>{w.status}</td>
-                        <td
-                          style={{
-                            ...tableBodyCell,
-                            textAlign: "right",
-                          }}
-                        >
-                          {s.wearCount}
-                        </td>
-                        <td style={tableBodyCell}>
-                          {s.wearCount > 0
-                            ? formatTotalDuration(s.totalMinutes)
-                            : "—"}
-                        </td>
-                        <td
-                          style={{
-                            ...tableBodyCell,
-                            textAlign: "right",
-                          }}
-                        >
-                          {toCurrency(w.purchasePrice)}
-                        </td>
-                        <td
-                          style={{
-                            ...tableBodyCell,
-                            textAlign: "right",
-                          }}
-                        >
-                          {toCurrency(w.soldPrice ?? null)}
-                        </td>
-                        <td
-                          style={{
-                            ...tableBodyCell,
-                            textAlign: "right",
-                            color:
-                              typeof profit === "number"
-                                ? profit > 0
-                                  ? "#4ade80"
-                                  : profit < 0
-                                  ? "#f97373"
-                                  : "#e5e7eb"
-                                : "#9ca3af",
-                          }}
-                        >
-                          {typeof profit === "number"
-                            ? toCurrency(profit)
-                            : "—"}
-                        </td>
-                      </tr>
-                    );
-                  })}
-                  {statsByWatch.length === 0 && (
-                    <tr>
-                      <td
-                        colSpan={7}
-                        style={{
-                          padding: 10,
-                          textAlign: "center",
-                          color: "#6b7280",
-                        }}
-                      >
-                        No watches to show yet.
-                      </td>
-                    </tr>
-                  )}
-                </tbody>
-              </table>
-            </div>
+            <DataTable
+              rows={statsByWatch}
+              rowKey={(s) => s.watch.id}
+              columns={statsColumns}
+              layout={tableLayout("stats")}
+              defaultLayout={DEFAULT_TABLE_LAYOUTS.stats}
+              onLayoutChange={setTableLayout("stats")}
+              emptyMessage="No watches to show yet."
+            />
           </div>
         )}
       </div>
+
+      {pendingImport && (
+        <ImportWatchesDialog
+          fileName={pendingImport.fileName}
+          header={pendingImport.header}
+          records={pendingImport.records}
+          existing={activeItems}
+          profiles={mappingProfiles}
+          lifecycle={settings.lifecycle}
+          tags={settings.tags}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={applyWatchImport}
+        />
+      )}
+
+      {pendingRestore && (
+        <BackupImportDialog
+          fileName={pendingRestore.fileName}
+          result={pendingRestore.result}
+          current={{
+            items,
+            wearLogs,
+            mappingProfiles,
+            exchangeRates,
+            contacts,
+          }}
+          currentPhotoCount={photos.length}
+          onCancel={() => setPendingRestore(null)}
+          onConfirm={applyBackup}
+        />
+      )}
+
+      {watchForm && (
+        <WatchFormDialog
+          mode={watchForm.mode}
+          watch={items.find((w) => w.id === watchForm.watchId) ?? null}
+          defaultCurrency={settings.reportingCurrency}
+          currencyOptions={currencyOptions}
+          feeProfiles={settings.feeProfiles}
+          tags={settings.tags}
+          onCreateTag={addTag}
+          contacts={contacts}
+          onCreateContact={addContact}
+          onCancel={() => setWatchForm(null)}
+          onSubmit={saveWatchForm}
+        />
+      )}
+
+      {taxReportOpen && (
+        <TaxReportDialog
+          sold={filteredSold.map(taxInput)}
+          holdings={activeItems
+            .filter((w) => matchingIds.has(w.id))
+            .map(taxInput)}
+          filtered={
+            soldYearFilter !== "all" ||
+            soldProfitFilter !== "all" ||
+            matchingIds.size < activeItems.length
+          }
+          settings={settings.tax}
+          reportingCurrency={settings.reportingCurrency}
+          onSettingsChange={(tax) => setSettings((prev) => ({ ...prev, tax }))}
+          onExportCSV={exportTaxCSV}
+          onPrint={printTaxReport}
+          onClose={() => setTaxReportOpen(false)}
+        />
+      )}
+
+      {batchDialog?.kind === "sell" && (
+        <BatchSellDialog
+          watches={items.filter((w) => batchDialog.ids.includes(w.id))}
+          targetStatus={batchDialog.targetStatus}
+          currencyOptions={currencyOptions}
+          feeProfiles={settings.feeProfiles}
+          onCancel={() => setBatchDialog(null)}
+          onSubmit={(sold) => saveBatchSale(sold, batchDialog.targetStatus)}
+        />
+      )}
+
+      {batchDialog?.kind === "cost" && (
+        <BatchCostDialog
+          count={batchDialog.ids.length}
+          defaultCurrency={settings.reportingCurrency}
+          currencyOptions={currencyOptions}
+          onCancel={() => setBatchDialog(null)}
+          onSubmit={(cost) => saveBatchCost(batchDialog.ids, cost)}
+        />
+      )}
+
+      {wearLogEditing && (
+        <WearLogDialog
+          log={wearLogEditing}
+          model={
+            items.find((w) => w.id === wearLogEditing.watchId)?.model ||
+            "(deleted)"
+          }
+          requireEnd={wearLogTarget?.requireEnd ?? false}
+          defaultEnd={effectiveEnd(wearLogEditing, settings.maxSessionHours)}
+          note={
+            !wearLogForm && staleLogId
+              ? `You never stopped wearing it. When did you take it off? Cancel leaves it open; the total is capped at ${settings.maxSessionHours}h.`
+              : undefined
+          }
+          onCancel={closeWearLogForm}
+          onSubmit={saveWearLog}
+        />
+      )}
+
+      {toast && (
+        <Toast
+          key={toast.entryId}
+          message={toast.message}
+          actionLabel={
+            journal.undoEntry?.id === toast.entryId ? "Undo" : undefined
+          }
+          onAction={() => {
+            journal.undo();
+            dismissToast();
+          }}
+          onDismiss={dismissToast}
+        />
+      )}
+
+      {listingWatch && (
+        <ListingLogDialog
+          watch={listingWatch}
+          currencyOptions={currencyOptions}
+          channelOptions={settings.feeProfiles.map((p) => p.name)}
+          onChange={(listings) => saveListings(listingWatch.id, listings)}
+          onClose={() => setListingWatchId(null)}
+        />
+      )}
+
+      {offersWatch && (
+        <OffersDialog
+          watch={offersWatch}
+          contacts={contacts}
+          currencyOptions={currencyOptions}
+          onCreateContact={addContact}
+          onChange={(offers) => saveOffers(offersWatch.id, offers)}
+          onClose={() => setOffersWatchId(null)}
+        />
+      )}
+
+      {ledgerWatch && (
+        <CostLedgerDialog
+          watch={ledgerWatch}
+          currencyOptions={currencyOptions}
+          onChange={(entries) => saveLedger(ledgerWatch.id, entries)}
+          onClose={() => setLedgerWatchId(null)}
+        />
+      )}
+
+      {galleryWatch && (
+        <PhotoGalleryDialog
+          watch={galleryWatch}
+          photos={photosByWatch.get(galleryWatch.id) ?? []}
+          onAdd={(files, stage) => addPhotos(galleryWatch.id, files, stage)}
+          onUpdate={updatePhoto}
+          onDelete={deletePhoto}
+          onClose={() => setGalleryWatchId(null)}
+        />
+      )}
+
+      {historyWatch && (
+        <StatusHistoryDialog
+          watch={historyWatch}
+          onClose={() => setHistoryWatchId(null)}
+        />
+      )}
     </div>
   );
 };
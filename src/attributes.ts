@@ -0,0 +1,83 @@
+import type { WatchItem } from "./types.ts";
+
+// Free-text identification fields, in form/CSV order.
+export const TEXT_ATTRIBUTES = [
+  "brand",
+  "reference",
+  "serial",
+  "movement",
+  "caseMaterial",
+] as const;
+
+export type TextAttribute = (typeof TEXT_ATTRIBUTES)[number];
+
+// What the Stats tab can break sales down by.
+export type AttributeGrouping = "brand" | "movement" | "caseMaterial" | "year";
+
+export const GROUPING_LABELS: Record<AttributeGrouping, string> = {
+  brand: "Brand",
+  movement: "Movement",
+  caseMaterial: "Case material",
+  year: "Year",
+};
+
+export const groupKey = (w: WatchItem, by: AttributeGrouping) => {
+  const v = w[by];
+  return v === undefined || v === null || v === "" ? "(not set)" : String(v);
+};
+
+// "Seiko · 6309-7040 · 1982": the identifying details shown under the model.
+export const attributeSummary = (w: WatchItem) =>
+  [w.brand, w.reference, w.year, w.caseSizeMm && `${w.caseSizeMm} mm`]
+    .filter(Boolean)
+    .join(" · ");
+
+// Case-insensitive match against the model and every identification field.
+export const matchesSearch = (w: WatchItem, query: string) => {
+  if (!query) return true;
+  const q = query.toLowerCase();
+  return [w.model, ...TEXT_ATTRIBUTES.map((f) => w[f]), w.year]
+    .filter((v) => v !== undefined && v !== null)
+    .some((v) => String(v).toLowerCase().includes(q));
+};
+
+export const flagText = (v: boolean | undefined) =>
+  v === undefined ? "" : v ? "Yes" : "No";
+
+// Spreadsheet spellings of yes/no; null when the cell is neither.
+export const parseFlag = (v: string): boolean | null => {
+  const s = v.trim().toLowerCase();
+  if (["yes", "y", "true", "1", "x", "✓"].includes(s)) return true;
+  if (["no", "n", "false", "0", "-"].includes(s)) return false;
+  return null;
+};
+
+export const isProductionYear = (n: number) =>
+  Number.isInteger(n) && n >= 1700 && n <= new Date().getFullYear() + 1;
+
+export type WatchRef = { id?: string; serial?: string; model?: string };
+
+// Finds the watch a wear-log row means: by ID, then serial, then a model
+// only one watch has. Anything else is a miss rather than a guess.
+export const findWatch = (
+  items: WatchItem[],
+  { id, serial, model }: WatchRef
+): WatchItem | null => {
+  if (id) {
+    const byId = items.find((w) => w.id === id);
+    if (byId) return byId;
+  }
+  const unique = (matches: WatchItem[]) =>
+    matches.length === 1 ? matches[0] : null;
+  if (serial) {
+    const s = serial.trim().toLowerCase();
+    const bySerial = unique(
+      items.filter((w) => w.serial?.trim().toLowerCase() === s)
+    );
+    if (bySerial) return bySerial;
+  }
+  if (model) {
+    return unique(items.filter((w) => w.model.trim() === model.trim()));
+  }
+  return null;
+};
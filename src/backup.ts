@@ -0,0 +1,816 @@
+import type {
+  Contact,
+  ExchangeRate,
+  FeeProfile,
+  ImportField,
+  Lifecycle,
+  MappingProfile,
+  SavedSearch,
+  Settings,
+  StatusGroup,
+  TableLayout,
+  Tag,
+  TaxSettings,
+  WatchItem,
+  WatchPhoto,
+  WearLog,
+} from "./types.ts";
+import { SCHEMA_VERSION } from "./storage/migrations.ts";
+import { DATE_FORMATS } from "./formats.ts";
+import { isCurrencyCode, LEGACY_CURRENCY } from "./currency.ts";
+import { DEFAULT_FEE_PROFILES } from "./fees.ts";
+import { DEFAULT_TRASH_RETENTION_DAYS } from "./trash.ts";
+import { DEFAULT_LIFECYCLE } from "./lifecycle.ts";
+import { isProductionYear, TEXT_ATTRIBUTES } from "./attributes.ts";
+import { PHOTO_STAGES } from "./photos.ts";
+import { DEFAULT_TAX_SETTINGS, isMonthDay } from "./taxReport.ts";
+import { DEFAULT_PRICE_DROP_DAYS } from "./listings.ts";
+import { OFFER_STATUSES } from "./contacts.ts";
+import { createZip, readZip, type ZipEntry } from "./zip.ts";
+
+export type BackupData = {
+  settings: Settings | null; // null when the file predates settings (v1)
+  items: WatchItem[];
+  wearLogs: WearLog[];
+  mappingProfiles: MappingProfile[];
+  exchangeRates: ExchangeRate[];
+  contacts: Contact[];
+};
+
+export type BackupFileV1 = {
+  version: 1;
+  exportedAt: string; // ISO timestamp
+  items: WatchItem[];
+  wearLogs: WearLog[];
+  mappingProfiles?: MappingProfile[];
+};
+
+export type BackupFileV2 = {
+  version: 2;
+  app: "watch-tracker";
+  exportedAt: string; // ISO timestamp
+  schemaVersion: number; // IndexedDB schema the data was exported from
+  checksum: { algorithm: "SHA-256"; value: string }; // over JSON of `data`
+  data: BackupData;
+};
+
+export type InvalidRecord = {
+  collection: keyof Omit<BackupData, "settings"> | "photos";
+  index: number;
+  id: string | null;
+  errors: string[];
+};
+
+export type CollectionDiff = {
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+};
+
+export type BackupReadResult =
+  | { ok: false; error: string }
+  | {
+      ok: true;
+      sourceVersion: 1 | 2;
+      exportedAt: string | null;
+      checksum: "valid" | "mismatch" | "missing";
+      data: BackupData;
+      invalid: InvalidRecord[];
+      // Only ZIP backups carry photos; null leaves the current ones alone.
+      photos: WatchPhoto[] | null;
+    };
+
+const toHex = (buf: ArrayBuffer) =>
+  Array.from(new Uint8Array(buf))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+export const sha256 = async (text: string) =>
+  toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+
+export const createBackup = async (
+  data: BackupData
+): Promise<BackupFileV2> => ({
+  version: 2,
+  app: "watch-tracker",
+  exportedAt: new Date().toISOString(),
+  schemaVersion: SCHEMA_VERSION,
+  checksum: { algorithm: "SHA-256", value: await sha256(JSON.stringify(data)) },
+  data,
+});
+
+// ===== Record validators =====
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isFiniteNumber = (v: unknown): v is number =>
+  typeof v === "number" && Number.isFinite(v);
+
+const isIsoDate = (v: unknown) =>
+  typeof v === "string" &&
+  /^\d{4}-\d{2}-\d{2}$/.test(v) &&
+  !Number.isNaN(new Date(v).getTime());
+
+const isIsoDateTime = (v: unknown) =>
+  typeof v === "string" && !Number.isNaN(new Date(v).getTime());
+
+const optional = (v: unknown) => v === undefined || v === null;
+
+export const validateWatchItem = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ["Not an object"];
+  const errors: string[] = [];
+  if (typeof raw.id !== "string" || !raw.id) errors.push("Missing id");
+  if (typeof raw.model !== "string" || !raw.model.trim()) {
+    errors.push("Missing model");
+  }
+  if (!isFiniteNumber(raw.purchasePrice)) {
+    errors.push("purchasePrice is not a number");
+  }
+  if (!isFiniteNumber(raw.partsCost)) errors.push("partsCost is not a number");
+  for (const key of ["postedPrice", "soldPrice"]) {
+    if (!optional(raw[key]) && !isFiniteNumber(raw[key])) {
+      errors.push(`${key} is not a number`);
+    }
+  }
+  if (typeof raw.status !== "string" || !raw.status) {
+    errors.push("Missing status");
+  }
+  if (!optional(raw.statusHistory)) {
+    if (
+      !Array.isArray(raw.statusHistory) ||
+      raw.statusHistory.some(
+        (c) =>
+          !isObject(c) ||
+          (c.from !== null && typeof c.from !== "string") ||
+          typeof c.to !== "string" ||
+          !isIsoDateTime(c.at)
+      )
+    ) {
+      errors.push("statusHistory is not a list of status changes");
+    }
+  }
+  for (const key of ["purchaseDate", "dateSold"]) {
+    if (!optional(raw[key]) && !isIsoDate(raw[key])) {
+      errors.push(`${key} is not a YYYY-MM-DD date`);
+    }
+  }
+  for (const key of ["notes", ...TEXT_ATTRIBUTES]) {
+    if (!optional(raw[key]) && typeof raw[key] !== "string") {
+      errors.push(`${key} is not text`);
+    }
+  }
+  if (
+    !optional(raw.caseSizeMm) &&
+    !(isFiniteNumber(raw.caseSizeMm) && raw.caseSizeMm > 0)
+  ) {
+    errors.push("caseSizeMm is not a positive number");
+  }
+  if (
+    !optional(raw.year) &&
+    !(isFiniteNumber(raw.year) && isProductionYear(raw.year))
+  ) {
+    errors.push("year is not a plausible year");
+  }
+  for (const key of ["hasBox", "hasPapers"]) {
+    if (!optional(raw[key]) && typeof raw[key] !== "boolean") {
+      errors.push(`${key} is not true/false`);
+    }
+  }
+  for (const key of [
+    "purchaseCurrency",
+    "partsCurrency",
+    "postedCurrency",
+    "soldCurrency",
+  ]) {
+    if (
+      !optional(raw[key]) &&
+      !(typeof raw[key] === "string" && isCurrencyCode(raw[key]))
+    ) {
+      errors.push(`${key} is not a currency code`);
+    }
+  }
+  if (!optional(raw.deletedAt) && !isIsoDateTime(raw.deletedAt)) {
+    errors.push("deletedAt is not a date/time");
+  }
+  if (!optional(raw.saleChannel) && typeof raw.saleChannel !== "string") {
+    errors.push("saleChannel is not text");
+  }
+  if (!optional(raw.saleFees)) {
+    const fees = raw.saleFees;
+    if (
+      !isObject(fees) ||
+      !["platform", "payment", "shipping", "tax"].every((k) =>
+        isFiniteNumber(fees[k])
+      )
+    ) {
+      errors.push("saleFees is not a set of fee amounts");
+    }
+  }
+  if (
+    !optional(raw.tags) &&
+    !(Array.isArray(raw.tags) && raw.tags.every((t) => typeof t === "string"))
+  ) {
+    errors.push("tags is not a list of tag ids");
+  }
+  if (!optional(raw.costLedger)) {
+    if (!Array.isArray(raw.costLedger)) {
+      errors.push("costLedger is not a list");
+    } else {
+      raw.costLedger.forEach((entry, i) => {
+        validateCostEntry(entry).forEach((e) =>
+          errors.push(`costLedger[${i}]: ${e}`)
+        );
+      });
+    }
+  }
+  if (!optional(raw.listings)) {
+    if (!Array.isArray(raw.listings)) {
+      errors.push("listings is not a list");
+    } else {
+      raw.listings.forEach((entry, i) => {
+        validateListing(entry).forEach((e) =>
+          errors.push(`listings[${i}]: ${e}`)
+        );
+      });
+    }
+  }
+  for (const key of ["sellerId", "buyerId"]) {
+    if (!optional(raw[key]) && typeof raw[key] !== "string") {
+      errors.push(`${key} is not a contact id`);
+    }
+  }
+  if (!optional(raw.offers)) {
+    if (!Array.isArray(raw.offers)) {
+      errors.push("offers is not a list");
+    } else {
+      raw.offers.forEach((entry, i) => {
+        validateOffer(entry).forEach((e) => errors.push(`offers[${i}]: ${e}`));
+      });
+    }
+  }
+  return errors;
+};
+
+const validateCostEntry = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ["Not an object"];
+  const errors: string[] = [];
+  if (typeof raw.id !== "string" || !raw.id) errors.push("Missing id");
+  if (!isIsoDate(raw.date)) errors.push("date is not a YYYY-MM-DD date");
+  for (const key of ["vendor", "category"]) {
+    if (typeof raw[key] !== "string") errors.push(`${key} is not text`);
+  }
+  if (!isFiniteNumber(raw.amount)) errors.push("amount is not a number");
+  if (!(typeof raw.currency === "string" && isCurrencyCode(raw.currency))) {
+    errors.push("currency is not a currency code");
+  }
+  if (!optional(raw.note) && typeof raw.note !== "string") {
+    errors.push("note is not text");
+  }
+  return errors;
+};
+
+const validateListing = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ["Not an object"];
+  const errors: string[] = [];
+  if (typeof raw.id !== "string" || !raw.id) errors.push("Missing id");
+  if (typeof raw.channel !== "string") errors.push("channel is not text");
+  if (!isIsoDate(raw.listed)) errors.push("listed is not a YYYY-MM-DD date");
+  if (!optional(raw.listedUnknown) && typeof raw.listedUnknown !== "boolean") {
+    errors.push("listedUnknown is not true or false");
+  }
+  if (!optional(raw.delisted) && !isIsoDate(raw.delisted)) {
+    errors.push("delisted is not a YYYY-MM-DD date");
+  }
+  if (!isFiniteNumber(raw.price)) errors.push("price is not a number");
+  if (!(typeof raw.currency === "string" && isCurrencyCode(raw.currency))) {
+    errors.push("currency is not a currency code");
+  }
+  if (!optional(raw.notes) && typeof raw.notes !== "string") {
+    errors.push("notes is not text");
+  }
+  return errors;
+};
+
+const validateOffer = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ["Not an object"];
+  const errors: string[] = [];
+  if (typeof raw.id !== "string" || !raw.id) errors.push("Missing id");
+  if (!optional(raw.contactId) && typeof raw.contactId !== "string") {
+    errors.push("contactId is not a contact id");
+  }
+  if (!isIsoDate(raw.date)) errors.push("date is not a YYYY-MM-DD date");
+  if (!isFiniteNumber(raw.amount)) errors.push("amount is not a number");
+  if (!(typeof raw.currency === "string" && isCurrencyCode(raw.currency))) {
+    errors.push("currency is not a currency code");
+  }
+  if (typeof raw.status !== "string" || !(raw.status in OFFER_STATUSES)) {
+    errors.push("Unknown status");
+  }
+  if (!optional(raw.note) && typeof raw.note !== "string") {
+    errors.push("note is not text");
+  }
+  return errors;
+};
+
+export const validateContact = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ["Not an object"];
+  const errors: string[] = [];
+  if (typeof raw.id !== "string" || !raw.id) errors.push("Missing id");
+  if (typeof raw.name !== "string" || !raw.name.trim()) {
+    errors.push("Missing name");
+  }
+  for (const key of ["platform", "handle", "email", "notes"]) {
+    if (!optional(raw[key]) && typeof raw[key] !== "string") {
+      errors.push(`${key} is not text`);
+    }
+  }
+  return errors;
+};
+
+export const validateExchangeRate = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ["Not an object"];
+  const errors: string[] = [];
+  if (typeof raw.id !== "string" || !raw.id) errors.push("Missing id");
+  if (!isIsoDate(raw.date)) errors.push("date is not a YYYY-MM-DD date");
+  for (const key of ["base", "quote"]) {
+    if (!(typeof raw[key] === "string" && isCurrencyCode(raw[key]))) {
+      errors.push(`${key} is not a currency code`);
+    }
+  }
+  if (!isFiniteNumber(raw.rate) || raw.rate <= 0) {
+    errors.push("rate is not a positive number");
+  }
+  return errors;
+};
+
+export const validateWearLog = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ["Not an object"];
+  const errors: string[] = [];
+  if (typeof raw.id !== "string" || !raw.id) errors.push("Missing id");
+  if (typeof raw.watchId !== "string" || !raw.watchId) {
+    errors.push("Missing watchId");
+  }
+  if (!isIsoDateTime(raw.start)) errors.push("start is not a date/time");
+  if (raw.end !== null && !isIsoDateTime(raw.end)) {
+    errors.push("end is not a date/time");
+  }
+  return errors;
+};
+
+const IMPORT_FIELDS: ImportField[] = [
+  "id",
+  "model",
+  "purchaseDate",
+  "purchasePrice",
+  "partsCost",
+  "postedPrice",
+  "soldPrice",
+  "status",
+  "dateSold",
+  "notes",
+  "purchaseCurrency",
+  "partsCurrency",
+  "postedCurrency",
+  "soldCurrency",
+  "brand",
+  "reference",
+  "serial",
+  "movement",
+  "caseSizeMm",
+  "caseMaterial",
+  "year",
+  "hasBox",
+  "hasPapers",
+  "tags",
+];
+
+export const validateMappingProfile = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ["Not an object"];
+  const errors: string[] = [];
+  if (typeof raw.id !== "string" || !raw.id) errors.push("Missing id");
+  if (typeof raw.name !== "string") errors.push("Missing name");
+  if (
+    !Array.isArray(raw.headers) ||
+    raw.headers.some((h) => typeof h !== "string")
+  ) {
+    errors.push("headers is not a list of text");
+  }
+  if (
+    !isObject(raw.columns) ||
+    Object.values(raw.columns).some(
+      (f) => !IMPORT_FIELDS.includes(f as ImportField)
+    )
+  ) {
+    errors.push("columns maps to unknown fields");
+  }
+  if (!DATE_FORMATS.includes(raw.dateFormat as (typeof DATE_FORMATS)[number])) {
+    errors.push("Unknown dateFormat");
+  }
+  if (raw.numberFormat !== "dot" && raw.numberFormat !== "comma") {
+    errors.push("Unknown numberFormat");
+  }
+  return errors;
+};
+
+// Splits a collection into valid records and a report of the rejected ones.
+// Duplicate IDs after the first are rejected too.
+const partition = <T extends { id: string }>(
+  collection: InvalidRecord["collection"],
+  raw: unknown,
+  validate: (r: unknown) => string[],
+  invalid: InvalidRecord[]
+): T[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  return raw.filter((r, index) => {
+    const errors = validate(r);
+    const id = isObject(r) && typeof r.id === "string" ? r.id : null;
+    if (id && seen.has(id)) errors.push("Duplicate id");
+    if (errors.length) {
+      invalid.push({ collection, index, id, errors });
+      return false;
+    }
+    seen.add(id!);
+    return true;
+  }) as T[];
+};
+
+const isFeeProfile = (raw: unknown): raw is FeeProfile =>
+  isObject(raw) &&
+  typeof raw.id === "string" &&
+  typeof raw.name === "string" &&
+  ["platformPercent", "platformFixed", "paymentPercent", "paymentFixed"].every(
+    (k) => isFiniteNumber(raw[k])
+  );
+
+const isSavedSearch = (raw: unknown): raw is SavedSearch =>
+  isObject(raw) &&
+  typeof raw.id === "string" &&
+  typeof raw.name === "string" &&
+  typeof raw.query === "string";
+
+const isTag = (raw: unknown): raw is Tag =>
+  isObject(raw) &&
+  typeof raw.id === "string" &&
+  typeof raw.name === "string" &&
+  typeof raw.color === "string";
+
+const isStringList = (raw: unknown): raw is string[] =>
+  Array.isArray(raw) && raw.every((v) => typeof v === "string");
+
+const isTableLayout = (raw: unknown): raw is TableLayout =>
+  isObject(raw) &&
+  isStringList(raw.order) &&
+  isStringList(raw.hidden) &&
+  Array.isArray(raw.sort) &&
+  raw.sort.every(
+    (k) =>
+      isObject(k) && typeof k.column === "string" && typeof k.desc === "boolean"
+  );
+
+// Layouts are cosmetic; a broken one just falls back to the default.
+const readTableLayouts = (raw: unknown): Settings["tableLayouts"] =>
+  isObject(raw)
+    ? Object.fromEntries(
+        Object.entries(raw).filter(([, layout]) => isTableLayout(layout))
+      )
+    : {};
+
+// Each tax setting falls back to its default on its own.
+const readTaxSettings = (raw: unknown): TaxSettings => {
+  if (!isObject(raw)) return DEFAULT_TAX_SETTINGS;
+  const d = DEFAULT_TAX_SETTINGS;
+  return {
+    fiscalYearStart: isMonthDay(raw.fiscalYearStart)
+      ? raw.fiscalYearStart
+      : d.fiscalYearStart,
+    longTermMonths:
+      Number.isInteger(raw.longTermMonths) && Number(raw.longTermMonths) >= 1
+        ? Number(raw.longTermMonths)
+        : d.longTermMonths,
+    treatment:
+      raw.treatment === "hobby" || raw.treatment === "business"
+        ? raw.treatment
+        : d.treatment,
+    costBasis:
+      raw.costBasis === "full" || raw.costBasis === "purchase"
+        ? raw.costBasis
+        : d.costBasis,
+  };
+};
+
+const STATUS_GROUPS: StatusGroup[] = ["inventory", "sold", "archived"];
+
+// A lifecycle is used only if it is fully well-formed.
+const readLifecycle = (raw: unknown): Lifecycle => {
+  if (!isObject(raw) || !Array.isArray(raw.statuses)) return DEFAULT_LIFECYCLE;
+  const statusesOk = raw.statuses.every(
+    (s) =>
+      isObject(s) &&
+      typeof s.name === "string" &&
+      STATUS_GROUPS.includes(s.group as StatusGroup) &&
+      typeof s.wearable === "boolean"
+  );
+  const transitionsOk =
+    isObject(raw.transitions) &&
+    Object.values(raw.transitions).every(
+      (to) => Array.isArray(to) && to.every((t) => typeof t === "string")
+    );
+  return statusesOk && transitionsOk && raw.statuses.length
+    ? (raw as Lifecycle)
+    : DEFAULT_LIFECYCLE;
+};
+
+const readSettings = (raw: unknown): Settings | null => {
+  if (!isObject(raw)) return null;
+  if (!isFiniteNumber(raw.maxSessionHours) || raw.maxSessionHours < 1) {
+    return null;
+  }
+  return {
+    maxSessionHours: raw.maxSessionHours,
+    reportingCurrency:
+      typeof raw.reportingCurrency === "string" &&
+      isCurrencyCode(raw.reportingCurrency)
+        ? raw.reportingCurrency
+        : LEGACY_CURRENCY,
+    trashRetentionDays:
+      isFiniteNumber(raw.trashRetentionDays) && raw.trashRetentionDays >= 1
+        ? raw.trashRetentionDays
+        : DEFAULT_TRASH_RETENTION_DAYS,
+    lifecycle: readLifecycle(raw.lifecycle),
+    // Older backups predate fee profiles; keep the built-in ones then.
+    feeProfiles: Array.isArray(raw.feeProfiles)
+      ? raw.feeProfiles.filter(isFeeProfile)
+      : DEFAULT_FEE_PROFILES,
+    savedSearches: Array.isArray(raw.savedSearches)
+      ? raw.savedSearches.filter(isSavedSearch)
+      : [],
+    tags: Array.isArray(raw.tags) ? raw.tags.filter(isTag) : [],
+    tableLayouts: readTableLayouts(raw.tableLayouts),
+    tax: readTaxSettings(raw.tax),
+    priceDropDays:
+      Number.isInteger(raw.priceDropDays) && Number(raw.priceDropDays) >= 1
+        ? Number(raw.priceDropDays)
+        : DEFAULT_PRICE_DROP_DAYS,
+  };
+};
+
+// Accepts v1 and v2 files; v1 is upgraded on the fly. Only structurally
+// broken files fail outright, bad records are dropped and reported.
+export const readBackup = async (text: string): Promise<BackupReadResult> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "This file is not valid JSON." };
+  }
+  if (!isObject(parsed)) {
+    return { ok: false, error: "This file is not a Watch Tracker backup." };
+  }
+
+  let rawData: Raw;
+  let checksum: "valid" | "mismatch" | "missing" = "missing";
+
+  if (parsed.version === 1) {
+    rawData = {
+      settings: null,
+      items: parsed.items,
+      wearLogs: parsed.wearLogs,
+      mappingProfiles: parsed.mappingProfiles ?? [],
+      exchangeRates: [],
+      contacts: [],
+    };
+  } else if (parsed.version === 2 && isObject(parsed.data)) {
+    rawData = parsed.data;
+    const expected = isObject(parsed.checksum) ? parsed.checksum.value : null;
+    if (typeof expected === "string") {
+      checksum =
+        (await sha256(JSON.stringify(parsed.data))) === expected
+          ? "valid"
+          : "mismatch";
+    }
+  } else {
+    return {
+      ok: false,
+      error:
+        typeof parsed.version === "number" && parsed.version > 2
+          ? "This backup was made by a newer version of Watch Tracker."
+          : "This file is not a Watch Tracker backup.",
+    };
+  }
+
+  if (!Array.isArray(rawData.items) || !Array.isArray(rawData.wearLogs)) {
+    return { ok: false, error: "This backup is missing watches or wear logs." };
+  }
+
+  const invalid: InvalidRecord[] = [];
+  const items = partition<WatchItem>(
+    "items",
+    rawData.items,
+    validateWatchItem,
+    invalid
+  );
+  const itemIds = new Set(items.map((w) => w.id));
+  const wearLogs = partition<WearLog>(
+    "wearLogs",
+    rawData.wearLogs,
+    (r) => {
+      const errors = validateWearLog(r);
+      if (!errors.length && !itemIds.has((r as WearLog).watchId)) {
+        errors.push("Refers to a watch that is not in the backup");
+      }
+      return errors;
+    },
+    invalid
+  );
+  const mappingProfiles = partition<MappingProfile>(
+    "mappingProfiles",
+    rawData.mappingProfiles,
+    validateMappingProfile,
+    invalid
+  );
+
+  const exchangeRates = partition<ExchangeRate>(
+    "exchangeRates",
+    rawData.exchangeRates ?? [],
+    validateExchangeRate,
+    invalid
+  );
+
+  // Watches keep their links to contacts missing from the backup; they just
+  // show no name.
+  const contacts = partition<Contact>(
+    "contacts",
+    rawData.contacts ?? [],
+    validateContact,
+    invalid
+  );
+
+  return {
+    ok: true,
+    sourceVersion: parsed.version === 1 ? 1 : 2,
+    exportedAt:
+      typeof parsed.exportedAt === "string" ? parsed.exportedAt : null,
+    checksum,
+    data: {
+      settings: readSettings(rawData.settings),
+      items,
+      wearLogs,
+      mappingProfiles,
+      exchangeRates,
+      contacts,
+    },
+    invalid,
+    photos: null,
+  };
+};
+
+export const diffCollection = <T extends { id: string }>(
+  current: T[],
+  incoming: T[]
+): CollectionDiff => {
+  const currentById = new Map(current.map((r) => [r.id, r]));
+  const incomingIds = new Set(incoming.map((r) => r.id));
+  const diff = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+
+  incoming.forEach((r) => {
+    const existing = currentById.get(r.id);
+    if (!existing) diff.added += 1;
+    else if (JSON.stringify(existing) !== JSON.stringify(r)) diff.changed += 1;
+    else diff.unchanged += 1;
+  });
+  current.forEach((r) => {
+    if (!incomingIds.has(r.id)) diff.removed += 1;
+  });
+
+  return diff;
+};
+
+// ===== ZIP backup with photos =====
+// backup.json is the same file a JSON backup holds; photos.json has the
+// photo records without their images, which sit under photos/ as
+// <id>.jpg and <id>-thumb.jpg.
+
+type PhotoMeta = Omit<WatchPhoto, "blob" | "thumbnail">;
+
+const photoFile = (id: string, thumbnail: boolean) =>
+  `photos/${id}${thumbnail ? "-thumb" : ""}.jpg`;
+
+export const createBackupArchive = async (
+  data: BackupData,
+  photos: WatchPhoto[]
+): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const json = (v: unknown) => encoder.encode(JSON.stringify(v, null, 2));
+  const meta: PhotoMeta[] = photos.map((p) => ({
+    id: p.id,
+    watchId: p.watchId,
+    stage: p.stage,
+    caption: p.caption,
+    addedAt: p.addedAt,
+    type: p.type,
+    width: p.width,
+    height: p.height,
+  }));
+  const entries: ZipEntry[] = [
+    { name: "backup.json", data: json(await createBackup(data)) },
+    { name: "photos.json", data: json(meta) },
+  ];
+  for (const p of photos) {
+    entries.push(
+      {
+        name: photoFile(p.id, false),
+        data: new Uint8Array(await p.blob.arrayBuffer()),
+      },
+      {
+        name: photoFile(p.id, true),
+        data: new Uint8Array(await p.thumbnail.arrayBuffer()),
+      }
+    );
+  }
+  return createZip(entries);
+};
+
+export const validatePhotoMeta = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ["Not an object"];
+  const errors: string[] = [];
+  if (typeof raw.id !== "string" || !raw.id) errors.push("Missing id");
+  if (typeof raw.watchId !== "string" || !raw.watchId) {
+    errors.push("Missing watchId");
+  }
+  if (typeof raw.stage !== "string" || !(raw.stage in PHOTO_STAGES)) {
+    errors.push("Unknown stage");
+  }
+  if (!optional(raw.caption) && typeof raw.caption !== "string") {
+    errors.push("caption is not text");
+  }
+  if (!isIsoDateTime(raw.addedAt)) errors.push("addedAt is not a date/time");
+  if (typeof raw.type !== "string") errors.push("Missing type");
+  for (const key of ["width", "height"]) {
+    if (!isFiniteNumber(raw[key]) || raw[key] <= 0) {
+      errors.push(`${key} is not a positive number`);
+    }
+  }
+  return errors;
+};
+
+export const readBackupArchive = async (
+  buffer: ArrayBuffer
+): Promise<BackupReadResult> => {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(buffer);
+  } catch (e) {
+    return { ok: false, error: (e as Error).message };
+  }
+  const backupJson = files.get("backup.json");
+  if (!backupJson) {
+    return { ok: false, error: "This ZIP has no backup.json inside." };
+  }
+  const decoder = new TextDecoder();
+  const result = await readBackup(decoder.decode(backupJson));
+  if (!result.ok) return result;
+
+  let rawPhotos: unknown = [];
+  const photosJson = files.get("photos.json");
+  try {
+    if (photosJson) rawPhotos = JSON.parse(decoder.decode(photosJson));
+  } catch {
+    return { ok: false, error: "photos.json in this ZIP is not valid JSON." };
+  }
+
+  const itemIds = new Set(result.data.items.map((w) => w.id));
+  const meta = partition<PhotoMeta>(
+    "photos",
+    rawPhotos,
+    (r) => {
+      const errors = validatePhotoMeta(r);
+      if (errors.length) return errors;
+      const p = r as PhotoMeta;
+      if (!itemIds.has(p.watchId)) {
+        errors.push("Refers to a watch that is not in the backup");
+      }
+      if (!files.has(photoFile(p.id, false))) errors.push("Image is missing");
+      return errors;
+    },
+    result.invalid
+  );
+
+  const photos = meta.map((p): WatchPhoto => {
+    const image = files.get(photoFile(p.id, false))!;
+    const thumb = files.get(photoFile(p.id, true)) ?? image;
+    return {
+      ...p,
+      blob: new Blob([image as Uint8Array<ArrayBuffer>], { type: p.type }),
+      thumbnail: new Blob([thumb as Uint8Array<ArrayBuffer>], {
+        type: p.type,
+      }),
+    };
+  });
+
+  return { ...result, photos };
+};
@@ -0,0 +1,253 @@
+import type { WearLog } from "./types.ts";
+
+// Series for the Stats tab charts. Months are "YYYY-MM", days "YYYY-MM-DD";
+// money is already in the reporting currency.
+
+export type DateRange = { from: string; to: string }; // inclusive days
+
+export type RangePreset = "12m" | "ytd" | "lastYear" | "all";
+
+export const RANGE_PRESETS: Record<RangePreset, string> = {
+  "12m": "Last 12 months",
+  ytd: "This year",
+  lastYear: "Last year",
+  all: "All time",
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export const dayKey = (d: Date) =>
+  `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const parseDay = (day: string) => {
+  const [y, m, d] = day.split("-").map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const addDays = (day: string, n: number) => {
+  const d = parseDay(day);
+  d.setDate(d.getDate() + n);
+  return dayKey(d);
+};
+
+// `earliest` is the first date in the data, used by "All time".
+export const presetRange = (
+  preset: RangePreset,
+  today: Date,
+  earliest: string | null
+): DateRange => {
+  const to = dayKey(today);
+  const year = today.getFullYear();
+  switch (preset) {
+    case "12m": // this month and the eleven before it
+      return {
+        from: dayKey(new Date(year, today.getMonth() - 11, 1)),
+        to,
+      };
+    case "ytd":
+      return { from: `${year}-01-01`, to };
+    case "lastYear":
+      return { from: `${year - 1}-01-01`, to: `${year - 1}-12-31` };
+    case "all":
+      return { from: earliest && earliest < to ? earliest : to, to };
+  }
+};
+
+// Colours for chart series, in turn.
+export const SERIES_COLORS = [
+  "#60a5fa",
+  "#4ade80",
+  "#facc15",
+  "#f472b6",
+  "#a78bfa",
+  "#9ca3af",
+];
+
+// "2026-03" -> "Mar 26"
+export const monthLabel = (month: string) => {
+  const [y, m] = month.split("-").map(Number);
+  return new Date(y, m - 1, 1).toLocaleDateString(undefined, {
+    month: "short",
+    year: "2-digit",
+  });
+};
+
+// "2026-03-02" -> "2 Mar"
+export const dayLabel = (day: string) =>
+  parseDay(day).toLocaleDateString(undefined, {
+    day: "numeric",
+    month: "short",
+  });
+
+// Round axis steps (1, 2 or 5 × a power of ten) covering min..max; always
+// includes zero.
+export const niceTicks = (min: number, max: number, count = 4) => {
+  const lo = Math.min(0, min);
+  const hi = Math.max(0, max, lo + 1);
+  const raw = (hi - lo) / count;
+  const mag = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].map((f) => f * mag).find((s) => s >= raw)!;
+  const ticks: number[] = [];
+  for (let t = Math.floor(lo / step) * step; t < hi + step; t += step) {
+    ticks.push(Math.round(t / step) * step);
+    if (t >= hi) break;
+  }
+  return ticks;
+};
+
+export const inRange = (day: string | null | undefined, range: DateRange) =>
+  !!day && day.slice(0, 10) >= range.from && day.slice(0, 10) <= range.to;
+
+export const monthsIn = (range: DateRange): string[] => {
+  const months: string[] = [];
+  let [y, m] = range.from.split("-").map(Number);
+  const last = range.to.slice(0, 7);
+  for (;;) {
+    const key = `${y}-${pad(m)}`;
+    if (key > last) return months;
+    months.push(key);
+    if (++m > 12) {
+      m = 1;
+      y += 1;
+    }
+  }
+};
+
+const monthEnd = (month: string) => {
+  const [y, m] = month.split("-").map(Number);
+  return dayKey(new Date(y, m, 0));
+};
+
+export type SaleFigures = {
+  dateSold?: string | null;
+  soldValue: number | null;
+  profit: number | null;
+};
+
+export type MonthlySales = { month: string; revenue: number; profit: number };
+
+export const monthlySales = (
+  sales: SaleFigures[],
+  range: DateRange
+): MonthlySales[] => {
+  const byMonth = new Map(
+    monthsIn(range).map((month) => [month, { month, revenue: 0, profit: 0 }])
+  );
+  sales.forEach((s) => {
+    if (!inRange(s.dateSold, range)) return;
+    const entry = byMonth.get(String(s.dateSold).slice(0, 7));
+    if (!entry) return;
+    entry.revenue += s.soldValue ?? 0;
+    entry.profit += s.profit ?? 0;
+  });
+  return Array.from(byMonth.values());
+};
+
+export const cumulative = (values: number[]) =>
+  values.reduce<number[]>(
+    (acc, v) => [...acc, (acc[acc.length - 1] ?? 0) + v],
+    []
+  );
+
+export type Holding = {
+  purchaseDate: string | null | undefined;
+  dateSold: string | null | undefined; // null while still owned
+  totalCost: number | null;
+};
+
+// Cost of the watches owned at the end of each month. Watches without a
+// purchase date can't be placed and are left out.
+export const inventoryValue = (
+  holdings: Holding[],
+  range: DateRange
+): number[] =>
+  monthsIn(range).map((month) => {
+    const end = monthEnd(month) < range.to ? monthEnd(month) : range.to;
+    return holdings.reduce((sum, h) => {
+      if (!h.purchaseDate || h.purchaseDate > end) return sum;
+      if (h.dateSold && h.dateSold <= end) return sum;
+      return sum + (h.totalCost ?? 0);
+    }, 0);
+  });
+
+// Monday of the day's week.
+export const weekStart = (day: string) => {
+  const d = parseDay(day);
+  return addDays(day, -((d.getDay() + 6) % 7));
+};
+
+export const weeksIn = (range: DateRange): string[] => {
+  const weeks: string[] = [];
+  for (let w = weekStart(range.from); w <= range.to; w = addDays(w, 7)) {
+    weeks.push(w);
+  }
+  return weeks;
+};
+
+export type WeeklyWear = {
+  weeks: string[];
+  // One series per watch, most worn first; the rest are summed as "Other".
+  series: { watchId: string | null; values: number[] }[];
+};
+
+// Sessions count towards the week (and day) they started in.
+export const weeklyWear = (
+  logs: WearLog[],
+  minutesOf: (log: WearLog) => number,
+  range: DateRange,
+  maxSeries = 6
+): WeeklyWear => {
+  const weeks = weeksIn(range);
+  const index = new Map(weeks.map((w, i) => [w, i]));
+  const byWatch = new Map<string, number[]>();
+  logs.forEach((log) => {
+    const day = dayKey(new Date(log.start));
+    if (!inRange(day, range)) return;
+    const i = index.get(weekStart(day));
+    if (i === undefined) return;
+    const values = byWatch.get(log.watchId) ?? weeks.map(() => 0);
+    values[i] += minutesOf(log);
+    byWatch.set(log.watchId, values);
+  });
+  const total = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  const ranked = Array.from(byWatch, ([watchId, values]) => ({
+    watchId: watchId as string | null,
+    values,
+  })).sort((a, b) => total(b.values) - total(a.values));
+  if (ranked.length <= maxSeries) return { weeks, series: ranked };
+  const other = weeks.map((_, i) =>
+    ranked.slice(maxSeries - 1).reduce((sum, s) => sum + s.values[i], 0)
+  );
+  return {
+    weeks,
+    series: [
+      ...ranked.slice(0, maxSeries - 1),
+      { watchId: null, values: other },
+    ],
+  };
+};
+
+export const dailyWear = (
+  logs: WearLog[],
+  minutesOf: (log: WearLog) => number,
+  range: DateRange
+): Map<string, number> => {
+  const days = new Map<string, number>();
+  logs.forEach((log) => {
+    const day = dayKey(new Date(log.start));
+    if (!inRange(day, range)) return;
+    days.set(day, (days.get(day) ?? 0) + minutesOf(log));
+  });
+  return days;
+};
+
+// The heatmap shows at most a year, ending with the range.
+export const calendarDays = (range: DateRange): string[] => {
+  const from =
+    addDays(range.to, -364) > range.from ? addDays(range.to, -364) : range.from;
+  const days: string[] = [];
+  for (let d = weekStart(from); d <= range.to; d = addDays(d, 1)) {
+    days.push(d);
+  }
+  return days;
+};
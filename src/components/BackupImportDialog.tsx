@@ -0,0 +1,174 @@
+import React, { useMemo } from "react";
+import type { WatchPhoto } from "../types.ts";
+import Modal from "./Modal.tsx";
+import {
+  diffCollection,
+  type BackupData,
+  type BackupReadResult,
+} from "../backup.ts";
+import {
+  dangerButtonStyle,
+  stripeRow,
+  subtleButtonStyle,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type BackupImportDialogProps = {
+  fileName: string;
+  result: Extract<BackupReadResult, { ok: true }>;
+  current: Omit<BackupData, "settings">;
+  currentPhotoCount: number;
+  onCancel: () => void;
+  onConfirm: (data: BackupData, photos: WatchPhoto[] | null) => void;
+};
+
+const COLLECTION_LABELS = {
+  items: "Watches",
+  wearLogs: "Wear sessions",
+  mappingProfiles: "Column mappings",
+  exchangeRates: "Exchange rates",
+  contacts: "Contacts",
+} as const;
+
+const INVALID_LABELS = { ...COLLECTION_LABELS, photos: "Photos" } as const;
+
+const BackupImportDialog: React.FC<BackupImportDialogProps> = ({
+  fileName,
+  result,
+  current,
+  currentPhotoCount,
+  onCancel,
+  onConfirm,
+}) => {
+  const { data, invalid, checksum, photos } = result;
+
+  const diffs = useMemo(
+    () =>
+      (
+        Object.keys(COLLECTION_LABELS) as (keyof typeof COLLECTION_LABELS)[]
+      ).map((key) => ({
+        key,
+        diff: diffCollection<{ id: string }>(current[key], data[key]),
+      })),
+    [current, data]
+  );
+
+  return (
+    <Modal
+      title={`Restore ${fileName}`}
+      onClose={onCancel}
+      footer={
+        <>
+          <button onClick={onCancel} style={subtleButtonStyle}>
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(data, photos)}
+            style={dangerButtonStyle}
+          >
+            Replace my data
+          </button>
+        </>
+      }
+    >
+      <div style={{ fontSize: 13, color: "#9ca3af", marginBottom: 12 }}>
+        Backup format v{result.sourceVersion}
+        {result.exportedAt &&
+          ` · exported ${new Date(result.exportedAt).toLocaleString()}`}
+        {result.sourceVersion === 1 &&
+          " · will be upgraded to the current format"}
+      </div>
+
+      {checksum === "valid" && (
+        <div style={{ fontSize: 13, color: "#4ade80", marginBottom: 12 }}>
+          Integrity check passed (SHA-256).
+        </div>
+      )}
+      {checksum === "mismatch" && (
+        <div style={{ fontSize: 13, color: "#f97373", marginBottom: 12 }}>
+          Integrity check FAILED: this file was modified or damaged after it was
+          exported. Only continue if you edited it on purpose.
+        </div>
+      )}
+      {checksum === "missing" && (
+        <div style={{ fontSize: 13, color: "#9ca3af", marginBottom: 12 }}>
+          This file has no checksum, so it cannot be verified.
+        </div>
+      )}
+
+      <div style={{ fontSize: 13, color: "#9ca3af", marginBottom: 12 }}>
+        {photos
+          ? `${photos.length} photo(s) in this archive will replace your ${currentPhotoCount}.`
+          : "This backup has no photos; photos of watches it keeps stay as they are."}
+      </div>
+
+      <table
+        style={{ width: "100%", borderCollapse: "collapse", marginBottom: 12 }}
+      >
+        <thead>
+          <tr>
+            <th style={tableHeadCell}></th>
+            <th style={tableHeadCell}>Added</th>
+            <th style={tableHeadCell}>Changed</th>
+            <th style={tableHeadCell}>Removed</th>
+            <th style={tableHeadCell}>Unchanged</th>
+          </tr>
+        </thead>
+        <tbody>
+          {diffs.map(({ key, diff }, idx) => (
+            <tr key={key} style={stripeRow(idx)}>
+              <td style={tableBodyCell}>{COLLECTION_LABELS[key]}</td>
+              <td style={{ ...tableBodyCell, color: "#4ade80" }}>
+                {diff.added}
+              </td>
+              <td style={{ ...tableBodyCell, color: "#60a5fa" }}>
+                {diff.changed}
+              </td>
+              <td style={{ ...tableBodyCell, color: "#f97373" }}>
+                {diff.removed}
+              </td>
+              <td style={tableBodyCell}>{diff.unchanged}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {invalid.length > 0 && (
+        <>
+          <div style={{ fontSize: 13, color: "#f97373", marginBottom: 6 }}>
+            {invalid.length} invalid record(s) will be skipped:
+          </div>
+          <div style={{ maxHeight: 200, overflowY: "auto" }}>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th style={tableHeadCell}>Collection</th>
+                  <th style={tableHeadCell}>#</th>
+                  <th style={tableHeadCell}>ID</th>
+                  <th style={tableHeadCell}>Problems</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invalid.map((r, idx) => (
+                  <tr key={`${r.collection}-${r.index}`} style={stripeRow(idx)}>
+                    <td style={tableBodyCell}>
+                      {INVALID_LABELS[r.collection]}
+                    </td>
+                    <td style={tableBodyCell}>{r.index + 1}</td>
+                    <td style={tableBodyCell}>{r.id ?? "—"}</td>
+                    <td style={{ ...tableBodyCell, color: "#9ca3af" }}>
+                      {r.errors.join("; ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default BackupImportDialog;
@@ -0,0 +1,82 @@
+import React from "react";
+import ChartFrame from "./ChartFrame.tsx";
+import ChartLegend from "./ChartLegend.tsx";
+
+export type ChartSeries = { name: string; color: string; values: number[] };
+
+type BarChartProps = {
+  labels: string[];
+  series: ChartSeries[];
+  stacked?: boolean; // stack the series instead of grouping them side by side
+  formatValue: (v: number) => string;
+  formatAxis?: (v: number) => string;
+};
+
+const BarChart: React.FC<BarChartProps> = ({
+  labels,
+  series,
+  stacked,
+  formatValue,
+  formatAxis = formatValue,
+}) => {
+  // Stacks grow away from zero, positives up and negatives down.
+  const extent = labels.map((_, i) => {
+    const values = series.map((s) => s.values[i] ?? 0);
+    return stacked
+      ? {
+          lo: values.filter((v) => v < 0).reduce((a, b) => a + b, 0),
+          hi: values.filter((v) => v > 0).reduce((a, b) => a + b, 0),
+        }
+      : { lo: Math.min(0, ...values), hi: Math.max(0, ...values) };
+  });
+  const min = Math.min(0, ...extent.map((e) => e.lo));
+  const max = Math.max(0, ...extent.map((e) => e.hi));
+
+  return (
+    <div>
+      <ChartFrame labels={labels} min={min} max={max} formatValue={formatAxis}>
+        {({ x, band, y }) =>
+          labels.map((label, i) => {
+            const gap = band * 0.15;
+            const width = stacked
+              ? band - gap * 2
+              : (band - gap * 2) / Math.max(series.length, 1);
+            let up = 0;
+            let down = 0;
+            return (
+              <g key={i}>
+                {series.map((s, k) => {
+                  const v = s.values[i] ?? 0;
+                  if (!v) return null;
+                  let from = 0;
+                  if (stacked) {
+                    from = v > 0 ? up : down;
+                    if (v > 0) up += v;
+                    else down += v;
+                  }
+                  const top = y(Math.max(from, from + v));
+                  const bottom = y(Math.min(from, from + v));
+                  return (
+                    <rect
+                      key={k}
+                      x={x(i) + gap + (stacked ? 0 : k * width)}
+                      y={top}
+                      width={Math.max(width, 1)}
+                      height={Math.max(bottom - top, 1)}
+                      fill={s.color}
+                    >
+                      <title>{`${label} · ${s.name}: ${formatValue(v)}`}</title>
+                    </rect>
+                  );
+                })}
+              </g>
+            );
+          })
+        }
+      </ChartFrame>
+      {series.length > 1 && <ChartLegend series={series} />}
+    </div>
+  );
+};
+
+export default BarChart;
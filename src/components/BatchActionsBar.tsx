@@ -0,0 +1,102 @@
+import React from "react";
+import type { Tag } from "../types.ts";
+import { dangerButtonStyle, inputStyle, subtleButtonStyle } from "../styles.ts";
+
+type BatchActionsBarProps = {
+  count: number;
+  statusOptions: string[]; // statuses at least one selected watch can move to
+  onStatus: (to: string) => void;
+  tags: Tag[];
+  onTag: (id: string) => void; // untags when every selected watch has it
+  onSell?: () => void;
+  onAddCost: () => void;
+  onArchive?: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onClear: () => void;
+};
+
+const BatchActionsBar: React.FC<BatchActionsBarProps> = ({
+  count,
+  statusOptions,
+  onStatus,
+  tags,
+  onTag,
+  onSell,
+  onAddCost,
+  onArchive,
+  onDelete,
+  onExport,
+  onClear,
+}) => (
+  <div
+    style={{
+      marginBottom: 8,
+      padding: "6px 10px",
+      borderRadius: 10,
+      border: "1px solid #1d4ed8",
+      background: "rgba(30,58,138,0.35)",
+      display: "flex",
+      flexWrap: "wrap",
+      alignItems: "center",
+      gap: 8,
+      fontSize: 13,
+    }}
+  >
+    <strong>{count} selected</strong>
+    {onSell && (
+      <button onClick={onSell} style={subtleButtonStyle}>
+        Mark sold…
+      </button>
+    )}
+    <select
+      value=""
+      onChange={(e) => onStatus(e.target.value)}
+      disabled={!statusOptions.length}
+      style={inputStyle}
+    >
+      <option value="">Set status…</option>
+      {statusOptions.map((s) => (
+        <option key={s} value={s}>
+          {s}
+        </option>
+      ))}
+    </select>
+    {tags.length > 0 && (
+      <select
+        value=""
+        onChange={(e) => onTag(e.target.value)}
+        style={inputStyle}
+      >
+        <option value="">Tag / untag…</option>
+        {tags.map((t) => (
+          <option key={t.id} value={t.id}>
+            {t.name}
+          </option>
+        ))}
+      </select>
+    )}
+    <button onClick={onAddCost} style={subtleButtonStyle}>
+      Add cost…
+    </button>
+    {onArchive && (
+      <button onClick={onArchive} style={subtleButtonStyle}>
+        Archive
+      </button>
+    )}
+    <button onClick={onExport} style={subtleButtonStyle}>
+      Export CSV
+    </button>
+    <button onClick={onDelete} style={dangerButtonStyle}>
+      Delete
+    </button>
+    <button
+      onClick={onClear}
+      style={{ ...subtleButtonStyle, marginLeft: "auto" }}
+    >
+      Clear selection
+    </button>
+  </div>
+);
+
+export default BatchActionsBar;
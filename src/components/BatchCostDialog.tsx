@@ -0,0 +1,151 @@
+import React, { useState } from "react";
+import type { CostEntry } from "../types.ts";
+import { COST_CATEGORIES } from "../costLedger.ts";
+import { parseAmount } from "../formats.ts";
+import { dayKey } from "../charts.ts";
+import FormDialog, { FormField } from "./FormDialog.tsx";
+import { fieldInputStyle, invalidInputStyle } from "../styles.ts";
+
+export type BatchCost = {
+  cost: Omit<CostEntry, "id">; // amount is the bill's total when split
+  split: boolean; // share the amount out instead of adding it to each
+};
+
+type BatchCostDialogProps = {
+  count: number;
+  defaultCurrency: string;
+  currencyOptions: string[];
+  onCancel: () => void;
+  onSubmit: (batch: BatchCost) => void;
+};
+
+const BatchCostDialog: React.FC<BatchCostDialogProps> = ({
+  count,
+  defaultCurrency,
+  currencyOptions,
+  onCancel,
+  onSubmit,
+}) => {
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState(defaultCurrency);
+  const [split, setSplit] = useState(true);
+  const [date, setDate] = useState(() => dayKey(new Date()));
+  const [category, setCategory] = useState(COST_CATEGORIES[0]);
+  const [vendor, setVendor] = useState("");
+  const [note, setNote] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+
+  const value = parseAmount(amount);
+  const errors = {
+    amount: value === null || value <= 0 ? "Enter an amount" : undefined,
+    date: /^\d{4}-\d{2}-\d{2}$/.test(date) ? undefined : "Pick a date",
+  };
+
+  const submit = () => {
+    setSubmitted(true);
+    if (errors.amount || errors.date || value === null) return;
+    onSubmit({
+      cost: {
+        date,
+        vendor: vendor.trim(),
+        category,
+        amount: value,
+        currency,
+        note: note.trim() || undefined,
+      },
+      split,
+    });
+  };
+
+  return (
+    <FormDialog
+      title={`Add a cost to ${count} watches`}
+      submitLabel="Add cost"
+      onCancel={onCancel}
+      onSubmit={submit}
+    >
+      <FormField
+        label="Amount"
+        error={submitted ? errors.amount : undefined}
+        hint={
+          split && value
+            ? `About ${(value / count).toFixed(2)} each`
+            : undefined
+        }
+      >
+        <input
+          type="text"
+          inputMode="decimal"
+          autoFocus
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          style={
+            submitted && errors.amount ? invalidInputStyle : fieldInputStyle
+          }
+        />
+      </FormField>
+      <FormField label="Currency">
+        <select
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          style={fieldInputStyle}
+        >
+          {Array.from(new Set([currency, ...currencyOptions])).map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+      </FormField>
+      <FormField label="The amount is">
+        <select
+          value={split ? "split" : "each"}
+          onChange={(e) => setSplit(e.target.value === "split")}
+          style={fieldInputStyle}
+        >
+          <option value="split">One bill, split evenly</option>
+          <option value="each">Added to each watch</option>
+        </select>
+      </FormField>
+      <FormField label="Date" error={submitted ? errors.date : undefined}>
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          style={submitted && errors.date ? invalidInputStyle : fieldInputStyle}
+        />
+      </FormField>
+      <FormField label="Category">
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          style={fieldInputStyle}
+        >
+          {COST_CATEGORIES.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+      </FormField>
+      <FormField label="Vendor">
+        <input
+          type="text"
+          value={vendor}
+          onChange={(e) => setVendor(e.target.value)}
+          style={fieldInputStyle}
+        />
+      </FormField>
+      <FormField label="Note" wide>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          style={fieldInputStyle}
+        />
+      </FormField>
+    </FormDialog>
+  );
+};
+
+export default BatchCostDialog;
@@ -0,0 +1,188 @@
+import React, { useState } from "react";
+import type { FeeProfile, WatchItem } from "../types.ts";
+import {
+  applyWatchForm,
+  validateWatchForm,
+  watchFormValues,
+  withChannelFees,
+} from "../watchForm.ts";
+import { currencyOf } from "../currency.ts";
+import { dayKey } from "../charts.ts";
+import FormDialog, { FormField } from "./FormDialog.tsx";
+import {
+  fieldInputStyle,
+  inputStyle,
+  invalidInputStyle,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type BatchSellDialogProps = {
+  watches: WatchItem[];
+  targetStatus: string;
+  currencyOptions: string[];
+  feeProfiles: FeeProfile[];
+  onCancel: () => void;
+  onSubmit: (sold: WatchItem[]) => void;
+};
+
+const today = () => dayKey(new Date());
+
+// One price per watch; the date and channel are shared, and each row gets
+// the channel's fees for its own price.
+const BatchSellDialog: React.FC<BatchSellDialogProps> = ({
+  watches,
+  targetStatus,
+  currencyOptions,
+  feeProfiles,
+  onCancel,
+  onSubmit,
+}) => {
+  // Starts from the posted price, which is usually what it sold for.
+  const [prices, setPrices] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      watches.map((w) => [
+        w.id,
+        typeof w.postedPrice === "number" ? String(w.postedPrice) : "",
+      ])
+    )
+  );
+  const [currencies, setCurrencies] = useState<Record<string, string>>(() =>
+    Object.fromEntries(watches.map((w) => [w.id, currencyOf(w, "posted")]))
+  );
+  const [dateSold, setDateSold] = useState(today);
+  const [saleChannel, setSaleChannel] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+
+  const profile = feeProfiles.find((p) => p.name === saleChannel);
+  const valuesFor = (w: WatchItem) =>
+    withChannelFees(
+      {
+        ...watchFormValues(w, currencies[w.id]),
+        soldPrice: prices[w.id],
+        soldCurrency: currencies[w.id],
+        dateSold,
+        saleChannel,
+      },
+      profile
+    );
+  const rows = watches.map((w) => {
+    const values = valuesFor(w);
+    return { watch: w, values, errors: validateWatchForm(values, "sell") };
+  });
+  const invalid = rows.filter((r) => Object.keys(r.errors).length);
+
+  const submit = () => {
+    setSubmitted(true);
+    if (invalid.length) return;
+    onSubmit(rows.map((r) => applyWatchForm(r.watch, r.values, "sell")));
+  };
+
+  return (
+    <FormDialog
+      title={`Mark ${watches.length} watches as ${targetStatus}`}
+      submitLabel="Mark sold"
+      width={720}
+      onCancel={onCancel}
+      onSubmit={submit}
+    >
+      <FormField label="Date sold">
+        <input
+          type="date"
+          value={dateSold}
+          onChange={(e) => setDateSold(e.target.value)}
+          style={fieldInputStyle}
+        />
+      </FormField>
+      <FormField
+        label="Sales channel"
+        hint="Fees are worked out for each price"
+      >
+        <select
+          value={saleChannel}
+          onChange={(e) => setSaleChannel(e.target.value)}
+          style={fieldInputStyle}
+        >
+          <option value="">None</option>
+          {feeProfiles.map((p) => (
+            <option key={p.id} value={p.name}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+      </FormField>
+      <div style={{ gridColumn: "1 / -1", maxHeight: 360, overflowY: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={tableHeadCell}>Model</th>
+              <th style={tableHeadCell}>Sold price</th>
+              <th style={tableHeadCell}>Currency</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ watch: w, errors }) => {
+              const error = submitted
+                ? (errors.soldPrice ?? errors.dateSold)
+                : undefined;
+              return (
+                <tr key={w.id}>
+                  <td style={tableBodyCell}>
+                    {w.model}
+                    {error && (
+                      <div style={{ fontSize: 12, color: "#f97373" }}>
+                        {error}
+                      </div>
+                    )}
+                  </td>
+                  <td style={tableBodyCell}>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="blank to set later"
+                      value={prices[w.id]}
+                      onChange={(e) =>
+                        setPrices((prev) => ({
+                          ...prev,
+                          [w.id]: e.target.value,
+                        }))
+                      }
+                      style={{
+                        ...(submitted && errors.soldPrice
+                          ? invalidInputStyle
+                          : fieldInputStyle),
+                        width: 140,
+                      }}
+                    />
+                  </td>
+                  <td style={tableBodyCell}>
+                    <select
+                      value={currencies[w.id]}
+                      onChange={(e) =>
+                        setCurrencies((prev) => ({
+                          ...prev,
+                          [w.id]: e.target.value,
+                        }))
+                      }
+                      style={inputStyle}
+                    >
+                      {Array.from(
+                        new Set([currencies[w.id], ...currencyOptions])
+                      ).map((c) => (
+                        <option key={c} value={c}>
+                          {c}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </FormDialog>
+  );
+};
+
+export default BatchSellDialog;
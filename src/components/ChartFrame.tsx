@@ -0,0 +1,89 @@
+import React from "react";
+import { niceTicks } from "../charts.ts";
+
+export type ChartGeometry = {
+  x: (i: number) => number; // left edge of the i-th band
+  band: number;
+  y: (v: number) => number;
+};
+
+type ChartFrameProps = {
+  labels: string[];
+  min: number;
+  max: number;
+  formatValue: (v: number) => string;
+  children: (g: ChartGeometry) => React.ReactNode;
+};
+
+const WIDTH = 640;
+const HEIGHT = 180;
+const PAD = { top: 8, right: 8, bottom: 20, left: 64 };
+
+// Axes, gridlines and x labels shared by the Stats charts; the chart draws
+// its marks with the geometry it is handed. Scales to the panel's width.
+const ChartFrame: React.FC<ChartFrameProps> = ({
+  labels,
+  min,
+  max,
+  formatValue,
+  children,
+}) => {
+  const ticks = niceTicks(min, max);
+  const lo = ticks[0];
+  const hi = ticks[ticks.length - 1];
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const band = plotWidth / Math.max(labels.length, 1);
+  const geometry: ChartGeometry = {
+    x: (i) => PAD.left + i * band,
+    band,
+    y: (v) => PAD.top + ((hi - v) / (hi - lo)) * plotHeight,
+  };
+  // Roughly a dozen labels fit along the bottom.
+  const every = Math.ceil(labels.length / 12);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      style={{ width: "100%", height: "auto", display: "block" }}
+    >
+      {ticks.map((t) => (
+        <g key={t}>
+          <line
+            x1={PAD.left}
+            x2={WIDTH - PAD.right}
+            y1={geometry.y(t)}
+            y2={geometry.y(t)}
+            stroke={t === 0 ? "#6b7280" : "#1f2937"}
+          />
+          <text
+            x={PAD.left - 6}
+            y={geometry.y(t) + 4}
+            textAnchor="end"
+            fontSize={10}
+            fill="#9ca3af"
+          >
+            {formatValue(t)}
+          </text>
+        </g>
+      ))}
+      {labels.map((label, i) =>
+        i % every === 0 ? (
+          <text
+            key={i}
+            x={geometry.x(i) + band / 2}
+            y={HEIGHT - 6}
+            textAnchor="middle"
+            fontSize={10}
+            fill="#9ca3af"
+          >
+            {label}
+          </text>
+        ) : null
+      )}
+      {children(geometry)}
+    </svg>
+  );
+};
+
+export default ChartFrame;
@@ -0,0 +1,37 @@
+import React from "react";
+
+type ChartLegendProps = {
+  series: { name: string; color: string }[];
+};
+
+const ChartLegend: React.FC<ChartLegendProps> = ({ series }) => (
+  <div
+    style={{
+      display: "flex",
+      flexWrap: "wrap",
+      gap: 12,
+      marginTop: 4,
+      fontSize: 12,
+      color: "#d1d5db",
+    }}
+  >
+    {series.map((s, i) => (
+      <span
+        key={i}
+        style={{ display: "inline-flex", alignItems: "center", gap: 4 }}
+      >
+        <span
+          style={{
+            width: 10,
+            height: 10,
+            borderRadius: 2,
+            background: s.color,
+          }}
+        />
+        {s.name}
+      </span>
+    ))}
+  </div>
+);
+
+export default ChartLegend;
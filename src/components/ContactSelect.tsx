@@ -0,0 +1,96 @@
+import React, { useState } from "react";
+import type { Contact } from "../types.ts";
+import { byContactName, contactLabel } from "../contacts.ts";
+import { fieldInputStyle, subtleButtonStyle } from "../styles.ts";
+
+type ContactSelectProps = {
+  contacts: Contact[];
+  value: string; // contact id, "" for none
+  onChange: (id: string) => void;
+  // Adds a "New contact…" choice; returns the created contact.
+  onCreate?: (name: string) => Contact;
+  style?: React.CSSProperties;
+};
+
+const NEW = "__new__";
+
+const ContactSelect: React.FC<ContactSelectProps> = ({
+  contacts,
+  value,
+  onChange,
+  onCreate,
+  style = fieldInputStyle,
+}) => {
+  // Name typed for a new contact; null while picking from the list.
+  const [newName, setNewName] = useState<string | null>(null);
+
+  const create = () => {
+    const name = newName?.trim();
+    if (name && onCreate) onChange(onCreate(name).id);
+    setNewName(null);
+  };
+
+  if (newName !== null) {
+    return (
+      <span style={{ display: "inline-flex", gap: 4 }}>
+        <input
+          type="text"
+          autoFocus
+          value={newName}
+          placeholder="Name of the new contact"
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter would submit the surrounding form, Escape close it.
+            if (e.key === "Enter") {
+              e.preventDefault();
+              create();
+            }
+            if (e.key === "Escape") {
+              e.stopPropagation();
+              setNewName(null);
+            }
+          }}
+          style={style}
+        />
+        <button
+          type="button"
+          onClick={create}
+          disabled={!newName.trim()}
+          style={subtleButtonStyle}
+        >
+          Add
+        </button>
+        <button
+          type="button"
+          onClick={() => setNewName(null)}
+          style={subtleButtonStyle}
+        >
+          Cancel
+        </button>
+      </span>
+    );
+  }
+
+  return (
+    <select
+      value={value}
+      onChange={(e) =>
+        e.target.value === NEW ? setNewName("") : onChange(e.target.value)
+      }
+      style={style}
+    >
+      <option value="">None</option>
+      {[...contacts].sort(byContactName).map((c) => (
+        <option key={c.id} value={c.id}>
+          {contactLabel(c)}
+        </option>
+      ))}
+      {value && !contacts.some((c) => c.id === value) && (
+        <option value={value}>(deleted contact)</option>
+      )}
+      {onCreate && <option value={NEW}>New contact…</option>}
+    </select>
+  );
+};
+
+export default ContactSelect;
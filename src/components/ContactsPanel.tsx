@@ -0,0 +1,325 @@
+import React, { useState } from "react";
+import type { Contact } from "../types.ts";
+import {
+  byContactName,
+  contactMatches,
+  createContact,
+  OFFER_STATUSES,
+  type ContactHistory,
+} from "../contacts.ts";
+import { toCurrency } from "../currency.ts";
+import {
+  dangerButtonStyle,
+  inputStyle,
+  primaryButtonStyle,
+  stripeRow,
+  subtleButtonStyle,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type ContactsPanelProps = {
+  contacts: Contact[];
+  histories: Map<string, ContactHistory>;
+  reportingCurrency: string;
+  onSave: (contact: Contact) => void; // adds or replaces by id
+  onDelete: (id: string) => void;
+};
+
+type ContactFields = Omit<Contact, "id">;
+
+const EMPTY: ContactFields = {
+  name: "",
+  platform: "",
+  handle: "",
+  email: "",
+  notes: "",
+};
+
+const profitColor = (v: number) =>
+  v > 0 ? "#4ade80" : v < 0 ? "#f97373" : undefined;
+
+const ContactsPanel: React.FC<ContactsPanelProps> = ({
+  contacts,
+  histories,
+  reportingCurrency,
+  onSave,
+  onDelete,
+}) => {
+  const [query, setQuery] = useState("");
+  const [fields, setFields] = useState<ContactFields>(EMPTY);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const money = (v: number | null) => toCurrency(v, reportingCurrency);
+  const set =
+    (key: keyof ContactFields) => (e: { target: { value: string } }) =>
+      setFields((prev) => ({ ...prev, [key]: e.target.value }));
+
+  const reset = () => {
+    setFields(EMPTY);
+    setEditingId(null);
+    setError("");
+  };
+
+  const save = () => {
+    if (!fields.name.trim()) {
+      setError("Enter a name.");
+      return;
+    }
+    const email = fields.email?.trim();
+    if (email && !/^[^\s@]+@[^\s@]+$/.test(email)) {
+      setError("That doesn't look like an email address.");
+      return;
+    }
+    const contact = createContact(fields);
+    onSave(editingId ? { ...contact, id: editingId } : contact);
+    reset();
+  };
+
+  const edit = (c: Contact) => {
+    setFields({ ...EMPTY, ...c });
+    setEditingId(c.id);
+    setError("");
+  };
+
+  const shown = contacts
+    .filter((c) => contactMatches(c, query))
+    .sort(byContactName);
+
+  return (
+    <div
+      style={{
+        marginBottom: 16,
+        padding: 10,
+        borderRadius: 10,
+        border: "1px solid #374151",
+        background:
+          "linear-gradient(135deg,rgba(15,23,42,0.98),rgba(3,7,18,0.98))",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ fontWeight: 600 }}>Contacts</div>
+      <div style={{ fontSize: 12, color: "#9ca3af", marginTop: 4 }}>
+        People you buy from, sell to or get offers from. Link them to a watch in
+        its edit and sale forms, or in its offers. Totals are in{" "}
+        {reportingCurrency}; profit counts each sold watch they were part of
+        once.
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+          marginTop: 12,
+        }}
+      >
+        <input
+          type="text"
+          value={fields.name}
+          placeholder="Name"
+          onChange={set("name")}
+          style={{ ...inputStyle, width: 150 }}
+        />
+        <input
+          type="text"
+          value={fields.platform}
+          placeholder="Platform"
+          onChange={set("platform")}
+          style={{ ...inputStyle, width: 110 }}
+        />
+        <input
+          type="text"
+          value={fields.handle}
+          placeholder="Handle"
+          onChange={set("handle")}
+          style={{ ...inputStyle, width: 110 }}
+        />
+        <input
+          type="email"
+          value={fields.email}
+          placeholder="Email"
+          onChange={set("email")}
+          style={{ ...inputStyle, width: 180 }}
+        />
+        <input
+          type="text"
+          value={fields.notes}
+          placeholder="Notes"
+          onChange={set("notes")}
+          style={{ ...inputStyle, flex: 1, minWidth: 140 }}
+        />
+        <button onClick={save} style={primaryButtonStyle}>
+          {editingId ? "Save contact" : "Add contact"}
+        </button>
+        {editingId && (
+          <button onClick={reset} style={subtleButtonStyle}>
+            Cancel
+          </button>
+        )}
+        {error && (
+          <span style={{ fontSize: 12, color: "#f97373" }}>{error}</span>
+        )}
+      </div>
+
+      <input
+        type="search"
+        value={query}
+        placeholder="Search name, handle, email or notes"
+        onChange={(e) => setQuery(e.target.value)}
+        style={{ ...inputStyle, width: 280, marginTop: 12 }}
+      />
+
+      <table
+        style={{ width: "100%", borderCollapse: "collapse", marginTop: 12 }}
+      >
+        <thead>
+          <tr>
+            <th style={tableHeadCell}>Name</th>
+            <th style={tableHeadCell}>Platform / handle</th>
+            <th style={tableHeadCell}>Email</th>
+            <th style={tableHeadCell}>Bought from</th>
+            <th style={tableHeadCell}>Sold to</th>
+            <th style={tableHeadCell}>Profit</th>
+            <th style={tableHeadCell}>Offers</th>
+            <th style={tableHeadCell}></th>
+          </tr>
+        </thead>
+        <tbody>
+          {shown.map((c, idx) => {
+            const h = histories.get(c.id);
+            const open = openId === c.id;
+            return (
+              <React.Fragment key={c.id}>
+                <tr style={stripeRow(idx)}>
+                  <td style={tableBodyCell}>
+                    {c.name}
+                    {c.notes && (
+                      <div style={{ fontSize: 12, color: "#9ca3af" }}>
+                        {c.notes}
+                      </div>
+                    )}
+                  </td>
+                  <td style={tableBodyCell}>
+                    {[c.platform, c.handle].filter(Boolean).join(" · ") || "—"}
+                  </td>
+                  <td style={tableBodyCell}>
+                    {c.email ? (
+                      <a
+                        href={`mailto:${c.email}`}
+                        style={{ color: "#93c5fd" }}
+                      >
+                        {c.email}
+                      </a>
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                  <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                    {h?.bought ? `${h.bought} · ${money(h.boughtTotal)}` : "—"}
+                  </td>
+                  <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                    {h?.sold ? `${h.sold} · ${money(h.soldTotal)}` : "—"}
+                  </td>
+                  <td
+                    style={{
+                      ...tableBodyCell,
+                      textAlign: "right",
+                      color: profitColor(h?.profit ?? 0),
+                    }}
+                  >
+                    {h?.deals.length ? money(h.profit) : "—"}
+                  </td>
+                  <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                    {h?.offers.length || "—"}
+                  </td>
+                  <td
+                    style={{
+                      ...tableBodyCell,
+                      textAlign: "right",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    <button
+                      onClick={() => setOpenId(open ? null : c.id)}
+                      disabled={!h?.deals.length && !h?.offers.length}
+                      style={{
+                        ...subtleButtonStyle,
+                        padding: "3px 8px",
+                        marginRight: 4,
+                      }}
+                    >
+                      {open ? "Hide history" : "History"}
+                    </button>
+                    <button
+                      onClick={() => edit(c)}
+                      style={{
+                        ...subtleButtonStyle,
+                        padding: "3px 8px",
+                        marginRight: 4,
+                      }}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => onDelete(c.id)}
+                      style={{ ...dangerButtonStyle, padding: "3px 8px" }}
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+                {open && h && (
+                  <tr>
+                    <td
+                      colSpan={8}
+                      style={{
+                        ...tableBodyCell,
+                        fontSize: 13,
+                        paddingLeft: 24,
+                      }}
+                    >
+                      {h.deals.map((d) => (
+                        <div key={`${d.role}-${d.watch.id}`}>
+                          {d.date ?? "—"} ·{" "}
+                          {d.role === "seller" ? "Bought" : "Sold"}{" "}
+                          <strong>{d.watch.model}</strong> for {money(d.amount)}
+                        </div>
+                      ))}
+                      {h.offers.map(({ watch, offer }) => (
+                        <div key={offer.id} style={{ color: "#9ca3af" }}>
+                          {offer.date} · Offered{" "}
+                          {toCurrency(offer.amount, offer.currency)} for{" "}
+                          {watch.model} ({OFFER_STATUSES[offer.status]})
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+          {shown.length === 0 && (
+            <tr>
+              <td
+                colSpan={8}
+                style={{
+                  ...tableBodyCell,
+                  textAlign: "center",
+                  color: "#9ca3af",
+                }}
+              >
+                {contacts.length ? "No contacts match." : "No contacts yet."}
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ContactsPanel;
@@ -0,0 +1,222 @@
+import React, { useState } from "react";
+import type { CostEntry, WatchItem } from "../types.ts";
+import { COST_CATEGORIES, ledgerOf } from "../costLedger.ts";
+import { currencyOf, isCurrencyCode, toCurrency } from "../currency.ts";
+import { parseNumber } from "../formats.ts";
+import { dayKey } from "../charts.ts";
+import Modal from "./Modal.tsx";
+import {
+  dangerButtonStyle,
+  inputStyle,
+  primaryButtonStyle,
+  stripeRow,
+  subtleButtonStyle,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type CostLedgerDialogProps = {
+  watch: WatchItem;
+  currencyOptions: string[];
+  // Returns false when the new total can't be worked out (missing rate).
+  onChange: (entries: CostEntry[]) => boolean;
+  onClose: () => void;
+};
+
+const CostLedgerDialog: React.FC<CostLedgerDialogProps> = ({
+  watch,
+  currencyOptions,
+  onChange,
+  onClose,
+}) => {
+  const entries = ledgerOf(watch);
+  const [date, setDate] = useState(() => dayKey(new Date()));
+  const [vendor, setVendor] = useState("");
+  const [category, setCategory] = useState(COST_CATEGORIES[0]);
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState(() => currencyOf(watch, "parts"));
+  const [note, setNote] = useState("");
+  const [error, setError] = useState("");
+
+  const save = (next: CostEntry[]) => {
+    if (onChange(next)) {
+      setError("");
+      return true;
+    }
+    setError(
+      `Add an exchange rate to ${currencyOf(watch, "parts")} for this ledger's currencies first.`
+    );
+    return false;
+  };
+
+  const add = () => {
+    const value = parseNumber(amount);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      setError("Pick the date of the expense.");
+      return;
+    }
+    if (!amount.trim() || Number.isNaN(value)) {
+      setError("Enter an amount.");
+      return;
+    }
+    if (!isCurrencyCode(currency)) {
+      setError("Pick a currency.");
+      return;
+    }
+    const entry: CostEntry = {
+      id: crypto.randomUUID(),
+      date,
+      vendor: vendor.trim(),
+      category,
+      amount: value,
+      currency,
+      note: note.trim() || undefined,
+    };
+    if (!save([...entries, entry])) return;
+    setVendor("");
+    setAmount("");
+    setNote("");
+  };
+
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+
+  return (
+    <Modal
+      title={`Costs · ${watch.model}`}
+      onClose={onClose}
+      footer={
+        <button onClick={onClose} style={subtleButtonStyle}>
+          Done
+        </button>
+      }
+    >
+      <div style={{ fontSize: 14, marginBottom: 12 }}>
+        Parts &amp; service total:{" "}
+        <strong>
+          {toCurrency(watch.partsCost, currencyOf(watch, "parts"))}
+        </strong>
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+          marginBottom: 12,
+        }}
+      >
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          style={inputStyle}
+        />
+        <input
+          type="text"
+          value={vendor}
+          placeholder="Vendor"
+          onChange={(e) => setVendor(e.target.value)}
+          style={{ ...inputStyle, width: 130 }}
+        />
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          style={inputStyle}
+        >
+          {COST_CATEGORIES.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={amount}
+          placeholder="Amount"
+          onChange={(e) => setAmount(e.target.value)}
+          style={{ ...inputStyle, width: 90 }}
+        />
+        <select
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          style={inputStyle}
+        >
+          {currencyOptions.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={note}
+          placeholder="Note (optional)"
+          onChange={(e) => setNote(e.target.value)}
+          style={{ ...inputStyle, flex: 1, minWidth: 140 }}
+        />
+        <button onClick={add} style={primaryButtonStyle}>
+          Add cost
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ fontSize: 12, color: "#f97373", marginBottom: 8 }}>
+          {error}
+        </div>
+      )}
+
+      <table
+        style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}
+      >
+        <thead>
+          <tr>
+            <th style={tableHeadCell}>Date</th>
+            <th style={tableHeadCell}>Vendor</th>
+            <th style={tableHeadCell}>Category</th>
+            <th style={tableHeadCell}>Amount</th>
+            <th style={tableHeadCell}>Note</th>
+            <th style={tableHeadCell}></th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((e, idx) => (
+            <tr key={e.id} style={stripeRow(idx)}>
+              <td style={tableBodyCell}>{e.date}</td>
+              <td style={tableBodyCell}>{e.vendor || "—"}</td>
+              <td style={tableBodyCell}>{e.category}</td>
+              <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                {toCurrency(e.amount, e.currency)}
+              </td>
+              <td style={tableBodyCell}>{e.note || ""}</td>
+              <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                <button
+                  onClick={() => save(entries.filter((x) => x.id !== e.id))}
+                  style={{ ...dangerButtonStyle, padding: "3px 8px" }}
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+          {sorted.length === 0 && (
+            <tr>
+              <td
+                colSpan={6}
+                style={{
+                  ...tableBodyCell,
+                  textAlign: "center",
+                  color: "#9ca3af",
+                }}
+              >
+                No parts or service costs recorded.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </Modal>
+  );
+};
+
+export default CostLedgerDialog;
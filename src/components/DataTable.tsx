@@ -0,0 +1,340 @@
+import React, { useState } from "react";
+import type { TableLayout } from "../types.ts";
+import {
+  EMPTY_LAYOUT,
+  moveColumn,
+  nextSort,
+  orderedColumns,
+  sortRows,
+  toggleHidden,
+  visibleColumns,
+  type Column,
+} from "../table.ts";
+import {
+  stripeRow,
+  subtleButtonStyle,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type DataTableProps<T> = {
+  rows: T[];
+  rowKey: (row: T) => string;
+  columns: Column<T>[];
+  layout: TableLayout;
+  defaultLayout?: TableLayout; // what "Reset" goes back to
+  onLayoutChange: (layout: TableLayout) => void;
+  emptyMessage: string;
+  // Rows are sorted within groups; groups keep the order they first appear
+  // in `rows`.
+  groupBy?: (row: T) => string;
+  // Adds a checkbox column; "select all" covers the rows passed in.
+  selected?: Set<string>;
+  onSelectionChange?: (ids: Set<string>) => void;
+};
+
+const sortedGroups = <T,>(
+  rows: T[],
+  columns: Column<T>[],
+  layout: TableLayout,
+  groupBy: (row: T) => string
+) => {
+  const groups = new Map<string, T[]>();
+  rows.forEach((row) => {
+    const key = groupBy(row);
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  });
+  let start = 0;
+  return Array.from(groups, ([key, members]) => {
+    const group = {
+      key,
+      start, // for striping across groups
+      rows: sortRows(members, columns, layout.sort),
+    };
+    start += members.length;
+    return group;
+  });
+};
+
+const DataTable = <T,>({
+  rows,
+  rowKey,
+  columns,
+  layout,
+  defaultLayout = EMPTY_LAYOUT,
+  onLayoutChange,
+  emptyMessage,
+  groupBy,
+  selected,
+  onSelectionChange,
+}: DataTableProps<T>) => {
+  const [choosing, setChoosing] = useState(false);
+
+  const shown = visibleColumns(columns, layout);
+  const groups = groupBy
+    ? sortedGroups(rows, columns, layout, groupBy)
+    : [{ key: "", start: 0, rows: sortRows(rows, columns, layout.sort) }];
+
+  const onHeaderClick = (e: React.MouseEvent, column: Column<T>) => {
+    if (!column.sortValue) return;
+    onLayoutChange({
+      ...layout,
+      sort: nextSort(layout.sort, column.id, e.shiftKey),
+    });
+  };
+
+  const selectable = selected !== undefined && onSelectionChange !== undefined;
+  const rowKeys = rows.map(rowKey);
+  const selectedCount = rowKeys.filter((k) => selected?.has(k)).length;
+  const allSelected = rows.length > 0 && selectedCount === rows.length;
+  const span = shown.length + (selectable ? 1 : 0);
+
+  const toggleAll = () => {
+    const next = new Set(selected);
+    rowKeys.forEach((k) => (allSelected ? next.delete(k) : next.add(k)));
+    onSelectionChange?.(next);
+  };
+
+  const toggleRow = (key: string) => {
+    const next = new Set(selected);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    onSelectionChange?.(next);
+  };
+
+  const sortMark = (id: string) => {
+    const i = layout.sort.findIndex((k) => k.column === id);
+    if (i === -1) return null;
+    const arrow = layout.sort[i].desc ? "▼" : "▲";
+    return (
+      <span style={{ marginLeft: 4, color: "#60a5fa" }}>
+        {arrow}
+        {layout.sort.length > 1 && <sup>{i + 1}</sup>}
+      </span>
+    );
+  };
+
+  return (
+    <div>
+      <div
+        style={{
+          position: "relative",
+          display: "flex",
+          justifyContent: "flex-end",
+          alignItems: "center",
+          gap: 8,
+          marginBottom: 6,
+          fontSize: 12,
+          color: "#9ca3af",
+        }}
+      >
+        <span>Click a header to sort, shift-click to add a sort key.</span>
+        <button
+          onClick={() => setChoosing((v) => !v)}
+          style={{ ...subtleButtonStyle, padding: "3px 8px" }}
+        >
+          Columns
+        </button>
+        <button
+          onClick={() => onLayoutChange(defaultLayout)}
+          title="Default columns and sort"
+          style={{ ...subtleButtonStyle, padding: "3px 8px" }}
+        >
+          Reset
+        </button>
+        {choosing && (
+          <ul
+            style={{
+              position: "absolute",
+              zIndex: 20,
+              top: "100%",
+              right: 0,
+              margin: "2px 0 0",
+              padding: 6,
+              listStyle: "none",
+              borderRadius: 6,
+              border: "1px solid #374151",
+              background: "#020617",
+              boxShadow: "0 10px 25px rgba(0,0,0,0.5)",
+              color: "#e5e7eb",
+              fontSize: 13,
+            }}
+          >
+            {orderedColumns(columns, layout).map((c, i, all) => (
+              <li
+                key={c.id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 6,
+                  padding: "2px 0",
+                }}
+              >
+                <label style={{ flex: 1, whiteSpace: "nowrap" }}>
+                  <input
+                    type="checkbox"
+                    checked={!layout.hidden.includes(c.id)}
+                    disabled={c.hideable === false}
+                    onChange={() => onLayoutChange(toggleHidden(layout, c.id))}
+                    style={{ marginRight: 6 }}
+                  />
+                  {c.header}
+                </label>
+                <button
+                  onClick={() =>
+                    onLayoutChange(moveColumn(columns, layout, c.id, -1))
+                  }
+                  disabled={i === 0}
+                  title="Move left"
+                  style={{ ...subtleButtonStyle, padding: "1px 6px" }}
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() =>
+                    onLayoutChange(moveColumn(columns, layout, c.id, 1))
+                  }
+                  disabled={i === all.length - 1}
+                  title="Move right"
+                  style={{ ...subtleButtonStyle, padding: "1px 6px" }}
+                >
+                  ↓
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div
+        style={{
+          overflowX: "auto",
+          borderRadius: 10,
+          border: "1px solid #1f2933",
+          background:
+            "linear-gradient(135deg,rgba(15,23,42,0.96),rgba(3,7,18,0.98))",
+          boxShadow: "0 20px 45px rgba(0,0,0,0.55)",
+        }}
+      >
+        <table
+          style={{
+            width: "100%",
+            borderCollapse: "collapse",
+            fontSize: 14,
+          }}
+        >
+          <thead>
+            <tr>
+              {selectable && (
+                <th style={{ ...tableHeadCell, width: 1 }}>
+                  <input
+                    type="checkbox"
+                    aria-label="Select all"
+                    checked={allSelected}
+                    ref={(el) => {
+                      if (el) {
+                        el.indeterminate = selectedCount > 0 && !allSelected;
+                      }
+                    }}
+                    onChange={toggleAll}
+                  />
+                </th>
+              )}
+              {shown.map((c) => (
+                <th
+                  key={c.id}
+                  onClick={(e) => onHeaderClick(e, c)}
+                  aria-sort={
+                    layout.sort[0]?.column === c.id
+                      ? layout.sort[0].desc
+                        ? "descending"
+                        : "ascending"
+                      : undefined
+                  }
+                  style={{
+                    ...tableHeadCell,
+                    cursor: c.sortValue ? "pointer" : "default",
+                    userSelect: "none",
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  {c.header}
+                  {sortMark(c.id)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map((g) => (
+              <React.Fragment key={g.key}>
+                {groupBy && (
+                  <tr>
+                    <td
+                      colSpan={span}
+                      style={{
+                        ...tableBodyCell,
+                        fontWeight: 600,
+                        color: "#e5e7eb",
+                        background: "rgba(30,41,59,0.95)",
+                      }}
+                    >
+                      {g.key} ({g.rows.length})
+                    </td>
+                  </tr>
+                )}
+                {g.rows.map((row, idx) => (
+                  <tr
+                    key={rowKey(row)}
+                    style={
+                      selected?.has(rowKey(row))
+                        ? { background: "rgba(30,58,138,0.45)" }
+                        : stripeRow(g.start + idx)
+                    }
+                  >
+                    {selectable && (
+                      <td style={tableBodyCell}>
+                        <input
+                          type="checkbox"
+                          aria-label="Select row"
+                          checked={selected.has(rowKey(row))}
+                          onChange={() => toggleRow(rowKey(row))}
+                        />
+                      </td>
+                    )}
+                    {shown.map((c) => (
+                      <td
+                        key={c.id}
+                        style={{
+                          ...tableBodyCell,
+                          textAlign: c.align ?? "left",
+                          ...c.cellStyle?.(row),
+                        }}
+                      >
+                        {c.render(row)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </React.Fragment>
+            ))}
+            {rows.length === 0 && (
+              <tr>
+                <td
+                  colSpan={span}
+                  style={{
+                    padding: 10,
+                    textAlign: "center",
+                    color: "#6b7280",
+                  }}
+                >
+                  {emptyMessage}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DataTable;
@@ -0,0 +1,191 @@
+import React, { useState } from "react";
+import type { ExchangeRate } from "../types.ts";
+import { isCurrencyCode } from "../currency.ts";
+import { parseNumber } from "../formats.ts";
+import { dayKey } from "../charts.ts";
+import {
+  dangerButtonStyle,
+  inputStyle,
+  primaryButtonStyle,
+  stripeRow,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type ExchangeRatesPanelProps = {
+  rates: ExchangeRate[];
+  reportingCurrency: string;
+  currencyOptions: string[];
+  missingCurrencies: string[];
+  onReportingCurrencyChange: (code: string) => void;
+  onAdd: (rate: ExchangeRate) => void;
+  onDelete: (id: string) => void;
+};
+
+const ExchangeRatesPanel: React.FC<ExchangeRatesPanelProps> = ({
+  rates,
+  reportingCurrency,
+  currencyOptions,
+  missingCurrencies,
+  onReportingCurrencyChange,
+  onAdd,
+  onDelete,
+}) => {
+  const [date, setDate] = useState(() => dayKey(new Date()));
+  const [base, setBase] = useState("");
+  const [rate, setRate] = useState("");
+  const [error, setError] = useState("");
+
+  const add = () => {
+    const code = base.trim().toUpperCase();
+    const value = parseNumber(rate);
+    if (!isCurrencyCode(code)) {
+      setError("Enter a 3-letter currency code, e.g. JPY.");
+      return;
+    }
+    if (code === reportingCurrency) {
+      setError(`${code} is already the reporting currency.`);
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      setError("Pick the date the rate applies from.");
+      return;
+    }
+    if (!(value > 0)) {
+      setError("Rate must be a positive number.");
+      return;
+    }
+    onAdd({
+      id: crypto.randomUUID(),
+      date,
+      base: code,
+      quote: reportingCurrency,
+      rate: value,
+    });
+    setBase("");
+    setRate("");
+    setError("");
+  };
+
+  const sorted = [...rates].sort(
+    (a, b) =>
+      b.date.localeCompare(a.date) ||
+      `${a.base}${a.quote}`.localeCompare(`${b.base}${b.quote}`)
+  );
+
+  return (
+    <div
+      style={{
+        marginBottom: 16,
+        padding: 10,
+        borderRadius: 10,
+        border: "1px solid #374151",
+        background:
+          "linear-gradient(135deg,rgba(15,23,42,0.98),rgba(3,7,18,0.98))",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+        <span style={{ fontWeight: 600 }}>Reporting currency</span>
+        <select
+          value={reportingCurrency}
+          onChange={(e) => onReportingCurrencyChange(e.target.value)}
+          style={inputStyle}
+        >
+          {currencyOptions.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <span style={{ fontSize: 12, color: "#9ca3af" }}>
+          Totals and profit are converted using the rate in force on each
+          purchase and sale date.
+        </span>
+      </div>
+
+      {missingCurrencies.length > 0 && (
+        <div style={{ marginTop: 8, fontSize: 13, color: "#f97373" }}>
+          Some watches can't be converted to {reportingCurrency}. Add a rate
+          for: {missingCurrencies.join(", ")}.
+        </div>
+      )}
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+          marginTop: 12,
+        }}
+      >
+        <span>From</span>
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          style={inputStyle}
+        />
+        <span>1</span>
+        <input
+          type="text"
+          value={base}
+          placeholder="JPY"
+          maxLength={3}
+          onChange={(e) => setBase(e.target.value)}
+          style={{ ...inputStyle, width: 60 }}
+        />
+        <span>=</span>
+        <input
+          type="text"
+          value={rate}
+          placeholder="0.0067"
+          onChange={(e) => setRate(e.target.value)}
+          style={{ ...inputStyle, width: 90 }}
+        />
+        <span>{reportingCurrency}</span>
+        <button onClick={add} style={primaryButtonStyle}>
+          Add rate
+        </button>
+        {error && (
+          <span style={{ fontSize: 12, color: "#f97373" }}>{error}</span>
+        )}
+      </div>
+
+      {sorted.length > 0 && (
+        <div style={{ maxHeight: 220, overflowY: "auto", marginTop: 12 }}>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={tableHeadCell}>From date</th>
+                <th style={tableHeadCell}>Rate</th>
+                <th style={tableHeadCell}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((r, idx) => (
+                <tr key={r.id} style={stripeRow(idx)}>
+                  <td style={tableBodyCell}>{r.date}</td>
+                  <td style={tableBodyCell}>
+                    1 {r.base} = {r.rate} {r.quote}
+                  </td>
+                  <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                    <button
+                      onClick={() => onDelete(r.id)}
+                      style={{ ...dangerButtonStyle, padding: "3px 8px" }}
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExchangeRatesPanel;
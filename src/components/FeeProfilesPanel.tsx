@@ -0,0 +1,178 @@
+import React, { useState } from "react";
+import type { FeeProfile } from "../types.ts";
+import { describeProfile } from "../fees.ts";
+import { parseNumber } from "../formats.ts";
+import {
+  dangerButtonStyle,
+  inputStyle,
+  primaryButtonStyle,
+  stripeRow,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type FeeProfilesPanelProps = {
+  profiles: FeeProfile[];
+  onChange: (profiles: FeeProfile[]) => void;
+};
+
+const FeeProfilesPanel: React.FC<FeeProfilesPanelProps> = ({
+  profiles,
+  onChange,
+}) => {
+  const [name, setName] = useState("");
+  const [platformPercent, setPlatformPercent] = useState("");
+  const [platformFixed, setPlatformFixed] = useState("");
+  const [paymentPercent, setPaymentPercent] = useState("");
+  const [paymentFixed, setPaymentFixed] = useState("");
+  const [error, setError] = useState("");
+
+  const add = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError("Name the sales channel, e.g. Chrono24.");
+      return;
+    }
+    if (profiles.some((p) => p.name.toLowerCase() === trimmed.toLowerCase())) {
+      setError(`There is already a profile called ${trimmed}.`);
+      return;
+    }
+    const values = [
+      platformPercent,
+      platformFixed,
+      paymentPercent,
+      paymentFixed,
+    ].map((v) => (v.trim() ? parseNumber(v) : 0));
+    if (values.some((v) => Number.isNaN(v) || v < 0)) {
+      setError("Fees must be zero or positive numbers.");
+      return;
+    }
+    onChange([
+      ...profiles,
+      {
+        id: crypto.randomUUID(),
+        name: trimmed,
+        platformPercent: values[0],
+        platformFixed: values[1],
+        paymentPercent: values[2],
+        paymentFixed: values[3],
+      },
+    ]);
+    setName("");
+    setPlatformPercent("");
+    setPlatformFixed("");
+    setPaymentPercent("");
+    setPaymentFixed("");
+    setError("");
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: 16,
+        padding: 10,
+        borderRadius: 10,
+        border: "1px solid #374151",
+        background:
+          "linear-gradient(135deg,rgba(15,23,42,0.98),rgba(3,7,18,0.98))",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ fontWeight: 600 }}>Sales channel fees</div>
+      <div style={{ fontSize: 12, color: "#9ca3af", marginTop: 4 }}>
+        Used to pre-fill platform and payment fees when a watch is marked sold.
+        Fixed amounts are in the currency of the sale.
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+          marginTop: 12,
+        }}
+      >
+        <input
+          type="text"
+          value={name}
+          placeholder="Channel"
+          onChange={(e) => setName(e.target.value)}
+          style={{ ...inputStyle, width: 120 }}
+        />
+        <span>Platform</span>
+        <input
+          type="text"
+          value={platformPercent}
+          placeholder="13.25"
+          onChange={(e) => setPlatformPercent(e.target.value)}
+          style={{ ...inputStyle, width: 60 }}
+        />
+        <span>% +</span>
+        <input
+          type="text"
+          value={platformFixed}
+          placeholder="0.30"
+          onChange={(e) => setPlatformFixed(e.target.value)}
+          style={{ ...inputStyle, width: 60 }}
+        />
+        <span>Payment</span>
+        <input
+          type="text"
+          value={paymentPercent}
+          placeholder="0"
+          onChange={(e) => setPaymentPercent(e.target.value)}
+          style={{ ...inputStyle, width: 60 }}
+        />
+        <span>% +</span>
+        <input
+          type="text"
+          value={paymentFixed}
+          placeholder="0"
+          onChange={(e) => setPaymentFixed(e.target.value)}
+          style={{ ...inputStyle, width: 60 }}
+        />
+        <button onClick={add} style={primaryButtonStyle}>
+          Add channel
+        </button>
+        {error && (
+          <span style={{ fontSize: 12, color: "#f97373" }}>{error}</span>
+        )}
+      </div>
+
+      {profiles.length > 0 && (
+        <table
+          style={{ width: "100%", borderCollapse: "collapse", marginTop: 12 }}
+        >
+          <thead>
+            <tr>
+              <th style={tableHeadCell}>Channel</th>
+              <th style={tableHeadCell}>Fees</th>
+              <th style={tableHeadCell}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {profiles.map((p, idx) => (
+              <tr key={p.id} style={stripeRow(idx)}>
+                <td style={tableBodyCell}>{p.name}</td>
+                <td style={tableBodyCell}>{describeProfile(p)}</td>
+                <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                  <button
+                    onClick={() =>
+                      onChange(profiles.filter((x) => x.id !== p.id))
+                    }
+                    style={{ ...dangerButtonStyle, padding: "3px 8px" }}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default FeeProfilesPanel;
@@ -0,0 +1,93 @@
+import React, { useId } from "react";
+import Modal from "./Modal.tsx";
+import { primaryButtonStyle, subtleButtonStyle } from "../styles.ts";
+
+type FormDialogProps = {
+  title: string;
+  submitLabel?: string;
+  width?: number;
+  onCancel: () => void;
+  // Called on Save / Enter; the dialog stays open until the parent closes it,
+  // so invalid input never partially applies.
+  onSubmit: () => void;
+  children: React.ReactNode;
+};
+
+const FormDialog: React.FC<FormDialogProps> = ({
+  title,
+  submitLabel = "Save",
+  width = 560,
+  onCancel,
+  onSubmit,
+  children,
+}) => {
+  const formId = useId();
+
+  return (
+    <Modal
+      title={title}
+      onClose={onCancel}
+      width={width}
+      footer={
+        <>
+          <button type="button" onClick={onCancel} style={subtleButtonStyle}>
+            Cancel
+          </button>
+          <button type="submit" form={formId} style={primaryButtonStyle}>
+            {submitLabel}
+          </button>
+        </>
+      }
+    >
+      <form
+        id={formId}
+        noValidate
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSubmit();
+        }}
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit,minmax(180px,1fr))",
+          gap: 10,
+        }}
+      >
+        {children}
+      </form>
+    </Modal>
+  );
+};
+
+type FormFieldProps = {
+  label: string;
+  error?: string;
+  hint?: string;
+  wide?: boolean; // span the whole row
+  children: React.ReactNode;
+};
+
+export const FormField: React.FC<FormFieldProps> = ({
+  label,
+  error,
+  hint,
+  wide,
+  children,
+}) => (
+  <label style={{ fontSize: 13, gridColumn: wide ? "1 / -1" : undefined }}>
+    {label}
+    <div style={{ marginTop: 2 }}>{children}</div>
+    {error ? (
+      <div style={{ fontSize: 12, color: "#f97373", marginTop: 2 }}>
+        {error}
+      </div>
+    ) : (
+      hint && (
+        <div style={{ fontSize: 12, color: "#9ca3af", marginTop: 2 }}>
+          {hint}
+        </div>
+      )
+    )}
+  </label>
+);
+
+export default FormDialog;
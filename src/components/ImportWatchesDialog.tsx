@@ -0,0 +1,447 @@
+import React, { useMemo, useState } from "react";
+import Modal from "./Modal.tsx";
+import type {
+  ImportField,
+  Lifecycle,
+  MappingProfile,
+  Tag,
+  WatchItem,
+} from "../types.ts";
+import {
+  DATE_FORMATS,
+  type DateFormat,
+  type NumberFormat,
+} from "../formats.ts";
+import {
+  IMPORT_FIELD_LABELS,
+  detectColumns,
+  detectFormats,
+  findProfileFor,
+  importedTagNames,
+  mappingFromProfile,
+  normaliseHeader,
+  parseWatchRows,
+  planWatchImport,
+  type ColumnMapping,
+  type ImportMode,
+  type ImportPlan,
+  type ImportRowStatus,
+} from "../watchImport.ts";
+import { missingTags } from "../tags.ts";
+import {
+  inputStyle,
+  primaryButtonStyle,
+  stripeRow,
+  subtleButtonStyle,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type ImportWatchesDialogProps = {
+  fileName: string;
+  header: string[];
+  records: string[][];
+  existing: WatchItem[];
+  profiles: MappingProfile[];
+  lifecycle: Lifecycle;
+  tags: Tag[];
+  onCancel: () => void;
+  // `newTags` are tags the file names that don't exist yet.
+  onConfirm: (
+    plan: ImportPlan,
+    profile: MappingProfile | null,
+    newTags: Tag[]
+  ) => void;
+};
+
+const MODE_HELP: Record<ImportMode, string> = {
+  merge:
+    "Update matching watches, add new ones, leave everything else untouched.",
+  append: "Only add watches that are not already in your inventory.",
+  replace:
+    "Make the inventory exactly match the file. Watches missing from the file are moved to the Trash.",
+};
+
+const STATUS_COLOR: Record<ImportRowStatus, string> = {
+  new: "#4ade80",
+  updated: "#60a5fa",
+  unchanged: "#9ca3af",
+  skipped: "#f97373",
+};
+
+const FIELDS = Object.keys(IMPORT_FIELD_LABELS) as ImportField[];
+
+// One field (or "") per source column.
+const toColumnFields = (header: string[], mapping: ColumnMapping) =>
+  header.map(
+    (_, idx) => FIELDS.find((f) => mapping[f] === idx) ?? ("" as const)
+  );
+
+const toMapping = (columnFields: (ImportField | "")[]) => {
+  const mapping: ColumnMapping = {};
+  columnFields.forEach((f, idx) => {
+    if (f) mapping[f] = idx;
+  });
+  return mapping;
+};
+
+const ImportWatchesDialog: React.FC<ImportWatchesDialogProps> = ({
+  fileName,
+  header,
+  records,
+  existing,
+  profiles,
+  lifecycle,
+  tags,
+  onCancel,
+  onConfirm,
+}) => {
+  const [initial] = useState(() => {
+    const profile = findProfileFor(header, profiles);
+    const mapping = profile
+      ? mappingFromProfile(header, profile)
+      : detectColumns(header);
+    const formats = profile ?? detectFormats(records, mapping);
+    return {
+      profile,
+      columnFields: toColumnFields(header, mapping),
+      dateFormat: formats.dateFormat,
+      numberFormat: formats.numberFormat,
+      // Files we recognise completely go straight to the preview.
+      step:
+        profile || Object.keys(mapping).length === header.length
+          ? ("preview" as const)
+          : ("map" as const),
+    };
+  });
+
+  const [step, setStep] = useState<"map" | "preview">(initial.step);
+  const [columnFields, setColumnFields] = useState(initial.columnFields);
+  const [dateFormat, setDateFormat] = useState<DateFormat>(initial.dateFormat);
+  const [numberFormat, setNumberFormat] = useState<NumberFormat>(
+    initial.numberFormat
+  );
+  const [saveProfile, setSaveProfile] = useState(initial.profile !== null);
+  const [profileName, setProfileName] = useState(
+    initial.profile?.name ?? fileName.replace(/\.[^.]+$/, "")
+  );
+  const [mode, setMode] = useState<ImportMode>("merge");
+
+  const mapping = useMemo(() => toMapping(columnFields), [columnFields]);
+  const newTags = useMemo(
+    () => missingTags(tags, importedTagNames(records, mapping)),
+    [tags, records, mapping]
+  );
+  const parsed = useMemo(
+    () =>
+      parseWatchRows(records, mapping, {
+        dateFormat,
+        numberFormat,
+        lifecycle,
+        tags: [...tags, ...newTags],
+      }),
+    [records, mapping, dateFormat, numberFormat, lifecycle, tags, newTags]
+  );
+  const plan = useMemo(
+    () => planWatchImport(existing, parsed, mode, lifecycle),
+    [existing, parsed, mode, lifecycle]
+  );
+
+  const assign = (idx: number, field: ImportField | "") =>
+    setColumnFields((prev) =>
+      prev.map((f, i) => (i === idx ? field : f === field ? "" : f))
+    );
+
+  const applyProfile = (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    setColumnFields(
+      toColumnFields(header, mappingFromProfile(header, profile))
+    );
+    setDateFormat(profile.dateFormat);
+    setNumberFormat(profile.numberFormat);
+    setProfileName(profile.name);
+  };
+
+  const confirm = () => {
+    const profile: MappingProfile | null = saveProfile
+      ? {
+          id:
+            profiles.find((p) => p.name === profileName.trim())?.id ??
+            initial.profile?.id ??
+            crypto.randomUUID(),
+          name: profileName.trim() || fileName,
+          headers: header.map(normaliseHeader),
+          columns: Object.fromEntries(
+            columnFields.flatMap((f, idx) =>
+              f ? [[normaliseHeader(header[idx]), f]] : []
+            )
+          ),
+          dateFormat,
+          numberFormat,
+          updatedAt: new Date().toISOString(),
+        }
+      : null;
+    onConfirm(plan, profile, newTags);
+  };
+
+  const counts = plan.rows.reduce(
+    (acc, r) => ({ ...acc, [r.status]: acc[r.status] + 1 }),
+    { new: 0, updated: 0, unchanged: 0, skipped: 0 }
+  );
+  const hasChanges =
+    counts.new > 0 || counts.updated > 0 || plan.removed.length > 0;
+  const hasModel = mapping.model !== undefined;
+
+  const samples = (idx: number) =>
+    records
+      .map((r) => (r[idx] ?? "").trim())
+      .filter(Boolean)
+      .slice(0, 3)
+      .join(" · ");
+
+  const mappingStep = (
+    <>
+      {profiles.length > 0 && (
+        <div style={{ fontSize: 14, marginBottom: 12 }}>
+          <span style={{ marginRight: 4 }}>Use saved mapping:</span>
+          <select
+            value=""
+            onChange={(e) => applyProfile(e.target.value)}
+            style={inputStyle}
+          >
+            <option value="">Choose…</option>
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div style={{ maxHeight: 320, overflowY: "auto", marginBottom: 12 }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={tableHeadCell}>Source column</th>
+              <th style={tableHeadCell}>Sample values</th>
+              <th style={tableHeadCell}>Import as</th>
+            </tr>
+          </thead>
+          <tbody>
+            {header.map((h, idx) => (
+              <tr key={idx} style={stripeRow(idx)}>
+                <td style={tableBodyCell}>{h || `(column ${idx + 1})`}</td>
+                <td style={{ ...tableBodyCell, color: "#9ca3af" }}>
+                  {samples(idx) || "—"}
+                </td>
+                <td style={tableBodyCell}>
+                  <select
+                    value={columnFields[idx]}
+                    onChange={(e) =>
+                      assign(idx, e.target.value as ImportField | "")
+                    }
+                    style={inputStyle}
+                  >
+                    <option value="">Ignore</option>
+                    {FIELDS.map((f) => (
+                      <option key={f} value={f}>
+                        {IMPORT_FIELD_LABELS[f]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 16, fontSize: 14 }}>
+        <label>
+          <span style={{ marginRight: 4 }}>Dates:</span>
+          <select
+            value={dateFormat}
+            onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+            style={inputStyle}
+          >
+            {DATE_FORMATS.map((f) => (
+              <option key={f} value={f}>
+                {f}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span style={{ marginRight: 4 }}>Amounts:</span>
+          <select
+            value={numberFormat}
+            onChange={(e) => setNumberFormat(e.target.value as NumberFormat)}
+            style={inputStyle}
+          >
+            <option value="dot">1,234.56</option>
+            <option value="comma">1.234,56</option>
+          </select>
+        </label>
+      </div>
+      {!hasModel && (
+        <div style={{ fontSize: 12, color: "#f97373", marginTop: 8 }}>
+          Assign a column to Model to continue.
+        </div>
+      )}
+    </>
+  );
+
+  const previewStep = (
+    <>
+      <div style={{ display: "flex", gap: 16, fontSize: 14, marginBottom: 8 }}>
+        {(["merge", "append", "replace"] as ImportMode[]).map((m) => (
+          <label key={m} style={{ display: "flex", gap: 4 }}>
+            <input
+              type="radio"
+              name="import-mode"
+              checked={mode === m}
+              onChange={() => setMode(m)}
+            />
+            {m[0].toUpperCase() + m.slice(1)}
+          </label>
+        ))}
+      </div>
+      <div style={{ fontSize: 12, color: "#9ca3af", marginBottom: 12 }}>
+        {MODE_HELP[mode]}
+      </div>
+
+      <div style={{ display: "flex", gap: 16, fontSize: 14, marginBottom: 12 }}>
+        <span style={{ color: STATUS_COLOR.new }}>{counts.new} new</span>
+        <span style={{ color: STATUS_COLOR.updated }}>
+          {counts.updated} updated
+        </span>
+        <span style={{ color: STATUS_COLOR.unchanged }}>
+          {counts.unchanged} unchanged
+        </span>
+        <span style={{ color: STATUS_COLOR.skipped }}>
+          {counts.skipped} skipped
+        </span>
+        {plan.removed.length > 0 && (
+          <span style={{ color: "#f97373" }}>
+            {plan.removed.length} to Trash
+          </span>
+        )}
+      </div>
+      {newTags.length > 0 && (
+        <div style={{ fontSize: 12, color: "#9ca3af", marginBottom: 12 }}>
+          New tags: {newTags.map((t) => t.name).join(", ")}
+        </div>
+      )}
+
+      <div style={{ maxHeight: 320, overflowY: "auto", marginBottom: 12 }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={tableHeadCell}>Line</th>
+              <th style={tableHeadCell}>Model</th>
+              <th style={tableHeadCell}>Date Bought</th>
+              <th style={tableHeadCell}>Result</th>
+              <th style={tableHeadCell}>Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.rows.map((r, idx) => (
+              <tr key={r.line} style={stripeRow(idx)}>
+                <td style={tableBodyCell}>{r.line}</td>
+                <td style={tableBodyCell}>{r.model || "—"}</td>
+                <td style={tableBodyCell}>{r.purchaseDate || "—"}</td>
+                <td style={{ ...tableBodyCell, color: STATUS_COLOR[r.status] }}>
+                  {r.status}
+                </td>
+                <td style={{ ...tableBodyCell, color: "#9ca3af" }}>
+                  {r.reason ||
+                    (r.changedFields?.length
+                      ? `Changes: ${r.changedFields.join(", ")}`
+                      : "")}
+                </td>
+              </tr>
+            ))}
+            {plan.removed.map((w, idx) => (
+              <tr key={w.id} style={stripeRow(plan.rows.length + idx)}>
+                <td style={tableBodyCell}>—</td>
+                <td style={tableBodyCell}>{w.model}</td>
+                <td style={tableBodyCell}>{w.purchaseDate || "—"}</td>
+                <td style={{ ...tableBodyCell, color: "#f97373" }}>to Trash</td>
+                <td style={{ ...tableBodyCell, color: "#9ca3af" }}>
+                  Not in file
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <label
+        style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 14 }}
+      >
+        <input
+          type="checkbox"
+          checked={saveProfile}
+          onChange={(e) => setSaveProfile(e.target.checked)}
+        />
+        Remember this column mapping as
+        <input
+          type="text"
+          value={profileName}
+          disabled={!saveProfile}
+          onChange={(e) => setProfileName(e.target.value)}
+          style={{ ...inputStyle, flex: 1 }}
+        />
+      </label>
+    </>
+  );
+
+  return (
+    <Modal
+      title={`Import ${fileName}`}
+      onClose={onCancel}
+      width={860}
+      footer={
+        step === "map" ? (
+          <>
+            <button onClick={onCancel} style={subtleButtonStyle}>
+              Cancel
+            </button>
+            <button
+              onClick={() => setStep("preview")}
+              disabled={!hasModel}
+              style={{ ...primaryButtonStyle, opacity: hasModel ? 1 : 0.5 }}
+            >
+              Next: preview
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => setStep("map")}
+              style={{ ...subtleButtonStyle, marginRight: "auto" }}
+            >
+              Back to column mapping
+            </button>
+            <button onClick={onCancel} style={subtleButtonStyle}>
+              Cancel
+            </button>
+            <button
+              onClick={confirm}
+              disabled={!hasChanges}
+              style={{ ...primaryButtonStyle, opacity: hasChanges ? 1 : 0.5 }}
+            >
+              Import
+            </button>
+          </>
+        )
+      }
+    >
+      {step === "map" ? mappingStep : previewStep}
+    </Modal>
+  );
+};
+
+export default ImportWatchesDialog;
@@ -0,0 +1,164 @@
+import React from "react";
+import { STALE_AFTER_DAYS, type InventoryValuation } from "../valuation.ts";
+import { toCurrency } from "../currency.ts";
+import { stripeRow, tableBodyCell, tableHeadCell } from "../styles.ts";
+
+type InventoryValuationPanelProps = {
+  valuation: InventoryValuation;
+  reportingCurrency: string;
+};
+
+const InventoryValuationPanel: React.FC<InventoryValuationPanelProps> = ({
+  valuation,
+  reportingCurrency,
+}) => {
+  const money = (v: number | null) => toCurrency(v, reportingCurrency);
+  const figure = (label: string, value: React.ReactNode) => (
+    <div>
+      <div style={{ fontSize: 12, color: "#9ca3af" }}>{label}</div>
+      <div>{value}</div>
+    </div>
+  );
+
+  return (
+    <div
+      style={{
+        marginBottom: 16,
+        padding: 10,
+        borderRadius: 10,
+        border: "1px solid #374151",
+        background:
+          "linear-gradient(135deg,rgba(15,23,42,0.98),rgba(3,7,18,0.98))",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ fontWeight: 600 }}>Inventory valuation</div>
+      <div style={{ fontSize: 12, color: "#9ca3af", marginTop: 4 }}>
+        Unsold watches in inventory matching the search. Expected profit is
+        posted price minus cost for the listed ones, before selling fees; age is
+        days since purchase.
+      </div>
+
+      <div
+        style={{ display: "flex", flexWrap: "wrap", gap: 16, marginTop: 10 }}
+      >
+        {figure("Unsold watches", valuation.count)}
+        {figure("Capital tied up", money(valuation.cost))}
+        {figure(
+          `Posted prices (${valuation.listed} listed)`,
+          money(valuation.posted)
+        )}
+        {figure(
+          "Expected profit",
+          <span
+            style={{
+              color: valuation.expectedProfit < 0 ? "#f97373" : "#4ade80",
+            }}
+          >
+            {money(valuation.expectedProfit)}
+          </span>
+        )}
+      </div>
+
+      <div style={{ overflowX: "auto", marginTop: 12 }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={tableHeadCell}>Age</th>
+              <th style={tableHeadCell}>Watches</th>
+              <th style={tableHeadCell}>Cost</th>
+              <th style={{ ...tableHeadCell, width: "40%" }}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {valuation.buckets.map((b, idx) => (
+              <tr key={b.label} style={stripeRow(idx)}>
+                <td style={tableBodyCell}>{b.label}</td>
+                <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                  {b.count}
+                </td>
+                <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                  {money(b.cost)}
+                  {b.incomplete > 0 && (
+                    <span
+                      title="Missing a cost or exchange rate"
+                      style={{ color: "#facc15" }}
+                    >
+                      {" "}
+                      + {b.incomplete} unknown
+                    </span>
+                  )}
+                </td>
+                <td style={tableBodyCell}>
+                  <div
+                    style={{
+                      height: 8,
+                      borderRadius: 4,
+                      background: b.maxDays === null ? "#f97316" : "#60a5fa",
+                      width: valuation.cost
+                        ? `${(b.cost / valuation.cost) * 100}%`
+                        : 0,
+                    }}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {valuation.undated > 0 && (
+          <div style={{ fontSize: 12, color: "#9ca3af", marginTop: 4 }}>
+            {valuation.undated} watch(es) without a purchase date aren't aged.
+          </div>
+        )}
+        {valuation.incomplete > 0 && (
+          <div style={{ fontSize: 12, color: "#facc15", marginTop: 4 }}>
+            {valuation.incomplete} watch(es) missing a cost or exchange rate are
+            left out of the cost, posted and profit figures.
+          </div>
+        )}
+      </div>
+
+      {valuation.slowest.length > 0 && (
+        <>
+          <div style={{ fontSize: 13, fontWeight: 600, margin: "12px 0 6px" }}>
+            Slowest movers
+          </div>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <tbody>
+              {valuation.slowest.map((s, idx) => (
+                <tr key={s.id} style={stripeRow(idx)}>
+                  <td style={tableBodyCell}>
+                    {s.model}
+                    {s.stale && (
+                      <span
+                        title={`Unsold for over ${STALE_AFTER_DAYS} days`}
+                        style={{
+                          marginLeft: 6,
+                          padding: "0 6px",
+                          borderRadius: 999,
+                          fontSize: 11,
+                          color: "#fdba74",
+                          border: "1px solid #f97316",
+                        }}
+                      >
+                        slow
+                      </span>
+                    )}
+                  </td>
+                  <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                    {s.days} days
+                  </td>
+                  <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                    {money(s.totalCost)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InventoryValuationPanel;
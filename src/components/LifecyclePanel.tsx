@@ -0,0 +1,233 @@
+import React, { useState } from "react";
+import type { Lifecycle, LifecycleStatus, StatusGroup } from "../types.ts";
+import { ARCHIVED, AVAILABLE, SOLD } from "../lifecycle.ts";
+import {
+  dangerButtonStyle,
+  inputStyle,
+  primaryButtonStyle,
+  stripeRow,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type LifecyclePanelProps = {
+  lifecycle: Lifecycle;
+  usedStatuses: Set<string>;
+  onChange: (lifecycle: Lifecycle) => void;
+};
+
+const GROUP_LABELS: Record<StatusGroup, string> = {
+  inventory: "Inventory",
+  sold: "Sold",
+  archived: "Archived",
+};
+
+// The app moves watches into these itself (undo sale, archive), so they
+// can't be removed.
+const BUILT_IN = new Set([AVAILABLE, SOLD, ARCHIVED]);
+
+const LifecyclePanel: React.FC<LifecyclePanelProps> = ({
+  lifecycle,
+  usedStatuses,
+  onChange,
+}) => {
+  const [name, setName] = useState("");
+  const [group, setGroup] = useState<StatusGroup>("inventory");
+  const [error, setError] = useState("");
+
+  const { statuses, transitions } = lifecycle;
+
+  const updateStatus = (target: string, patch: Partial<LifecycleStatus>) =>
+    onChange({
+      ...lifecycle,
+      statuses: statuses.map((s) =>
+        s.name === target ? { ...s, ...patch } : s
+      ),
+    });
+
+  const toggleTransition = (from: string, to: string) => {
+    const current = transitions[from] ?? [];
+    onChange({
+      ...lifecycle,
+      transitions: {
+        ...transitions,
+        [from]: current.includes(to)
+          ? current.filter((t) => t !== to)
+          : [...current, to],
+      },
+    });
+  };
+
+  const add = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError("Name the status, e.g. At auction.");
+      return;
+    }
+    if (statuses.some((s) => s.name.toLowerCase() === trimmed.toLowerCase())) {
+      setError(`There is already a status called ${trimmed}.`);
+      return;
+    }
+    onChange({
+      statuses: [
+        ...statuses,
+        { name: trimmed, group, wearable: group === "inventory" },
+      ],
+      transitions: { ...transitions, [trimmed]: [AVAILABLE] },
+    });
+    setName("");
+    setError("");
+  };
+
+  const remove = (target: string) => {
+    const rest: Record<string, string[]> = {};
+    for (const [from, to] of Object.entries(transitions)) {
+      if (from !== target) rest[from] = to.filter((t) => t !== target);
+    }
+    onChange({
+      statuses: statuses.filter((s) => s.name !== target),
+      transitions: rest,
+    });
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: 16,
+        padding: 10,
+        borderRadius: 10,
+        border: "1px solid #374151",
+        background:
+          "linear-gradient(135deg,rgba(15,23,42,0.98),rgba(3,7,18,0.98))",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ fontWeight: 600 }}>Watch lifecycle</div>
+      <div style={{ fontSize: 12, color: "#9ca3af", marginTop: 4 }}>
+        Statuses in the Sold group appear on the Sold tab and count towards
+        profit. Only wearable statuses can be worn. Tick the statuses each one
+        may move to.
+      </div>
+
+      <div style={{ overflowX: "auto", marginTop: 12 }}>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={tableHeadCell}>Status</th>
+              <th style={tableHeadCell}>Group</th>
+              <th style={tableHeadCell}>Wearable</th>
+              <th style={tableHeadCell}>Can move to</th>
+              <th style={tableHeadCell}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {statuses.map((s, idx) => (
+              <tr key={s.name} style={stripeRow(idx)}>
+                <td style={tableBodyCell}>{s.name}</td>
+                <td style={tableBodyCell}>
+                  <select
+                    value={s.group}
+                    disabled={BUILT_IN.has(s.name)}
+                    onChange={(e) =>
+                      updateStatus(s.name, {
+                        group: e.target.value as StatusGroup,
+                      })
+                    }
+                    style={inputStyle}
+                  >
+                    {(Object.keys(GROUP_LABELS) as StatusGroup[]).map((g) => (
+                      <option key={g} value={g}>
+                        {GROUP_LABELS[g]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td style={tableBodyCell}>
+                  <input
+                    type="checkbox"
+                    checked={s.wearable}
+                    onChange={(e) =>
+                      updateStatus(s.name, { wearable: e.target.checked })
+                    }
+                  />
+                </td>
+                <td style={{ ...tableBodyCell, fontSize: 12 }}>
+                  <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
+                    {statuses
+                      .filter((t) => t.name !== s.name)
+                      .map((t) => (
+                        <label
+                          key={t.name}
+                          style={{ display: "inline-flex", gap: 3 }}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={(transitions[s.name] ?? []).includes(
+                              t.name
+                            )}
+                            onChange={() => toggleTransition(s.name, t.name)}
+                          />
+                          {t.name}
+                        </label>
+                      ))}
+                  </div>
+                </td>
+                <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                  <button
+                    onClick={() => remove(s.name)}
+                    disabled={BUILT_IN.has(s.name) || usedStatuses.has(s.name)}
+                    title={
+                      usedStatuses.has(s.name)
+                        ? "Some watches still have this status"
+                        : undefined
+                    }
+                    style={{ ...dangerButtonStyle, padding: "3px 8px" }}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+          marginTop: 12,
+        }}
+      >
+        <input
+          type="text"
+          value={name}
+          placeholder="New status"
+          onChange={(e) => setName(e.target.value)}
+          style={{ ...inputStyle, width: 180 }}
+        />
+        <select
+          value={group}
+          onChange={(e) => setGroup(e.target.value as StatusGroup)}
+          style={inputStyle}
+        >
+          {(Object.keys(GROUP_LABELS) as StatusGroup[]).map((g) => (
+            <option key={g} value={g}>
+              {GROUP_LABELS[g]}
+            </option>
+          ))}
+        </select>
+        <button onClick={add} style={primaryButtonStyle}>
+          Add status
+        </button>
+        {error && (
+          <span style={{ fontSize: 12, color: "#f97373" }}>{error}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LifecyclePanel;
@@ -0,0 +1,56 @@
+import React from "react";
+import ChartFrame from "./ChartFrame.tsx";
+import ChartLegend from "./ChartLegend.tsx";
+import type { ChartSeries } from "./BarChart.tsx";
+
+type LineChartProps = {
+  labels: string[];
+  series: ChartSeries[];
+  formatValue: (v: number) => string;
+  formatAxis?: (v: number) => string;
+};
+
+const LineChart: React.FC<LineChartProps> = ({
+  labels,
+  series,
+  formatValue,
+  formatAxis = formatValue,
+}) => {
+  const values = series.flatMap((s) => s.values);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+
+  return (
+    <div>
+      <ChartFrame labels={labels} min={min} max={max} formatValue={formatAxis}>
+        {({ x, band, y }) =>
+          series.map((s) => {
+            const points = s.values.map(
+              (v, i) => [x(i) + band / 2, y(v)] as const
+            );
+            return (
+              <g key={s.name}>
+                <polyline
+                  points={points.map(([px, py]) => `${px},${py}`).join(" ")}
+                  fill="none"
+                  stroke={s.color}
+                  strokeWidth={2}
+                />
+                {points.map(([px, py], i) => (
+                  <circle key={i} cx={px} cy={py} r={3} fill={s.color}>
+                    <title>{`${labels[i]} · ${s.name}: ${formatValue(
+                      s.values[i]
+                    )}`}</title>
+                  </circle>
+                ))}
+              </g>
+            );
+          })
+        }
+      </ChartFrame>
+      {series.length > 1 && <ChartLegend series={series} />}
+    </div>
+  );
+};
+
+export default LineChart;
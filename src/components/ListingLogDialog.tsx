@@ -0,0 +1,352 @@
+import React, { useState } from "react";
+import type { Listing, WatchItem } from "../types.ts";
+import {
+  currentListing,
+  isOpen,
+  listingsOf,
+  priceDrops,
+  withPriceChange,
+} from "../listings.ts";
+import { currencyOf, isCurrencyCode, toCurrency } from "../currency.ts";
+import { parseAmount, parseNumber } from "../formats.ts";
+import { dayKey } from "../charts.ts";
+import Modal from "./Modal.tsx";
+import {
+  dangerButtonStyle,
+  inputStyle,
+  primaryButtonStyle,
+  stripeRow,
+  subtleButtonStyle,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type ListingLogDialogProps = {
+  watch: WatchItem;
+  currencyOptions: string[];
+  channelOptions: string[];
+  onChange: (listings: Listing[]) => void;
+  onClose: () => void;
+};
+
+const today = () => dayKey(new Date());
+
+const ListingLogDialog: React.FC<ListingLogDialogProps> = ({
+  watch,
+  currencyOptions,
+  channelOptions,
+  onChange,
+  onClose,
+}) => {
+  const listings = listingsOf(watch);
+  const current = currentListing(listings);
+  const [channel, setChannel] = useState(watch.saleChannel ?? "");
+  const [listed, setListed] = useState(today);
+  const [price, setPrice] = useState("");
+  const [currency, setCurrency] = useState(() => currencyOf(watch, "posted"));
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState("");
+  // The listing whose asking price is being edited in its row.
+  const [repricing, setRepricing] = useState<{
+    id: string;
+    price: string;
+  } | null>(null);
+
+  const update = (id: string, patch: Partial<Listing>) =>
+    onChange(listings.map((l) => (l.id === id ? { ...l, ...patch } : l)));
+
+  const add = () => {
+    const value = parseNumber(price);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(listed)) {
+      setError("Pick the date it was listed.");
+      return;
+    }
+    if (!price.trim() || Number.isNaN(value) || value <= 0) {
+      setError("Enter the asking price.");
+      return;
+    }
+    if (!isCurrencyCode(currency)) {
+      setError("Pick a currency.");
+      return;
+    }
+    onChange([
+      ...listings,
+      {
+        id: crypto.randomUUID(),
+        channel: channel.trim(),
+        listed,
+        price: value,
+        currency,
+        delisted: null,
+        notes: notes.trim() || undefined,
+      },
+    ]);
+    setPrice("");
+    setNotes("");
+    setError("");
+  };
+
+  const changePrice = () => {
+    if (!repricing) return;
+    const value = parseAmount(repricing.price);
+    if (value === null || value <= 0) {
+      setError("Enter the new asking price.");
+      return;
+    }
+    const changed = withPriceChange(
+      { ...watch, listings },
+      repricing.id,
+      value
+    );
+    onChange(changed.listings ?? []);
+    setRepricing(null);
+    setError("");
+  };
+
+  return (
+    <Modal
+      title={`Listings · ${watch.model}`}
+      width={860}
+      onClose={onClose}
+      footer={
+        <button onClick={onClose} style={subtleButtonStyle}>
+          Done
+        </button>
+      }
+    >
+      <div style={{ fontSize: 14, marginBottom: 12 }}>
+        Asking price:{" "}
+        <strong>
+          {current ? toCurrency(current.price, current.currency) : "not listed"}
+        </strong>
+        {listings.length > 1 && (
+          <span style={{ color: "#9ca3af" }}>
+            {" "}
+            · {priceDrops(listings)} price drop(s)
+          </span>
+        )}
+      </div>
+
+      <datalist id="listing-channels">
+        {channelOptions.map((c) => (
+          <option key={c} value={c} />
+        ))}
+      </datalist>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+          marginBottom: 12,
+        }}
+      >
+        <input
+          type="text"
+          list="listing-channels"
+          value={channel}
+          placeholder="Channel"
+          onChange={(e) => setChannel(e.target.value)}
+          style={{ ...inputStyle, width: 130 }}
+        />
+        <input
+          type="date"
+          value={listed}
+          onChange={(e) => setListed(e.target.value)}
+          style={inputStyle}
+        />
+        <input
+          type="text"
+          value={price}
+          placeholder="Asking price"
+          onChange={(e) => setPrice(e.target.value)}
+          style={{ ...inputStyle, width: 100 }}
+        />
+        <select
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          style={inputStyle}
+        >
+          {Array.from(new Set([currency, ...currencyOptions])).map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={notes}
+          placeholder="Notes (optional)"
+          onChange={(e) => setNotes(e.target.value)}
+          style={{ ...inputStyle, flex: 1, minWidth: 140 }}
+        />
+        <button onClick={add} style={primaryButtonStyle}>
+          Add listing
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ fontSize: 12, color: "#f97373", marginBottom: 8 }}>
+          {error}
+        </div>
+      )}
+
+      <table
+        style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}
+      >
+        <thead>
+          <tr>
+            <th style={tableHeadCell}>Channel</th>
+            <th style={tableHeadCell}>Listed</th>
+            <th style={tableHeadCell}>Delisted</th>
+            <th style={tableHeadCell}>Asking</th>
+            <th style={tableHeadCell}>Views / offers</th>
+            <th style={tableHeadCell}></th>
+          </tr>
+        </thead>
+        <tbody>
+          {listings.map((l, idx) => (
+            <tr key={l.id} style={stripeRow(idx)}>
+              <td style={tableBodyCell}>{l.channel || "—"}</td>
+              <td style={tableBodyCell}>
+                {l.listedUnknown ? (
+                  <span
+                    title="Posted before listings were logged"
+                    style={{ color: "#9ca3af" }}
+                  >
+                    unknown
+                  </span>
+                ) : (
+                  l.listed
+                )}
+              </td>
+              <td style={tableBodyCell}>{l.delisted || "open"}</td>
+              <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                {repricing?.id === l.id ? (
+                  <input
+                    type="text"
+                    autoFocus
+                    value={repricing.price}
+                    aria-label={`New asking price (${l.currency})`}
+                    onChange={(e) =>
+                      setRepricing({ id: l.id, price: e.target.value })
+                    }
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") changePrice();
+                      if (e.key === "Escape") {
+                        // Keep the dialog open.
+                        e.stopPropagation();
+                        setRepricing(null);
+                      }
+                    }}
+                    style={{ ...inputStyle, width: 90, textAlign: "right" }}
+                  />
+                ) : (
+                  toCurrency(l.price, l.currency)
+                )}
+              </td>
+              <td style={tableBodyCell}>
+                <input
+                  type="text"
+                  defaultValue={l.notes ?? ""}
+                  placeholder="e.g. 40 views, 2 offers"
+                  onBlur={(e) => {
+                    const next = e.target.value.trim() || undefined;
+                    if (next !== l.notes) update(l.id, { notes: next });
+                  }}
+                  style={{ ...inputStyle, width: "100%" }}
+                />
+              </td>
+              <td
+                style={{
+                  ...tableBodyCell,
+                  textAlign: "right",
+                  whiteSpace: "nowrap",
+                }}
+              >
+                {repricing?.id === l.id ? (
+                  <>
+                    <button
+                      onClick={changePrice}
+                      style={{
+                        ...primaryButtonStyle,
+                        padding: "3px 8px",
+                        marginRight: 4,
+                      }}
+                    >
+                      Save price
+                    </button>
+                    <button
+                      onClick={() => {
+                        setRepricing(null);
+                        setError("");
+                      }}
+                      style={{
+                        ...subtleButtonStyle,
+                        padding: "3px 8px",
+                        marginRight: 4,
+                      }}
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  isOpen(l) && (
+                    <>
+                      <button
+                        onClick={() =>
+                          setRepricing({ id: l.id, price: String(l.price) })
+                        }
+                        style={{
+                          ...subtleButtonStyle,
+                          padding: "3px 8px",
+                          marginRight: 4,
+                        }}
+                      >
+                        Change price
+                      </button>
+                      <button
+                        onClick={() => update(l.id, { delisted: today() })}
+                        style={{
+                          ...subtleButtonStyle,
+                          padding: "3px 8px",
+                          marginRight: 4,
+                        }}
+                      >
+                        Delist
+                      </button>
+                    </>
+                  )
+                )}
+                <button
+                  onClick={() =>
+                    onChange(listings.filter((x) => x.id !== l.id))
+                  }
+                  style={{ ...dangerButtonStyle, padding: "3px 8px" }}
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+          {listings.length === 0 && (
+            <tr>
+              <td
+                colSpan={6}
+                style={{
+                  ...tableBodyCell,
+                  textAlign: "center",
+                  color: "#9ca3af",
+                }}
+              >
+                Not listed anywhere yet.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </Modal>
+  );
+};
+
+export default ListingLogDialog;
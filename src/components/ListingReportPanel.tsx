@@ -0,0 +1,81 @@
+import React from "react";
+import type { ListingReport } from "../listings.ts";
+import { stripeRow, tableBodyCell, tableHeadCell } from "../styles.ts";
+
+type ListingReportPanelProps = {
+  report: ListingReport;
+};
+
+// r close to -1: the longer (or the more drops), the lower the price.
+const describe = (r: number | null) => {
+  if (r === null) return "not enough sales yet";
+  const strength =
+    Math.abs(r) >= 0.6 ? "strong" : Math.abs(r) >= 0.3 ? "moderate" : "weak";
+  return `${strength} ${r < 0 ? "negative" : "positive"} (r = ${r.toFixed(2)})`;
+};
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+const ListingReportPanel: React.FC<ListingReportPanelProps> = ({ report }) => (
+  <div
+    style={{
+      marginBottom: 16,
+      padding: 10,
+      borderRadius: 10,
+      border: "1px solid #374151",
+      background:
+        "linear-gradient(135deg,rgba(15,23,42,0.98),rgba(3,7,18,0.98))",
+      fontSize: 14,
+    }}
+  >
+    <div style={{ fontWeight: 600 }}>Listing outcomes</div>
+    <div style={{ fontSize: 12, color: "#9ca3af", marginTop: 4 }}>
+      Sold watches with a listing log, by how many times the asking price was
+      cut. "Of first ask" is the sale price as a share of the first asking
+      price.
+    </div>
+
+    {report.count === 0 ? (
+      <div style={{ marginTop: 8, fontSize: 13, color: "#9ca3af" }}>
+        No sold watches with listings yet.
+      </div>
+    ) : (
+      <>
+        <table
+          style={{ width: "100%", borderCollapse: "collapse", marginTop: 12 }}
+        >
+          <thead>
+            <tr>
+              <th style={tableHeadCell}>Price drops</th>
+              <th style={tableHeadCell}>Sold</th>
+              <th style={tableHeadCell}>Avg days listed</th>
+              <th style={tableHeadCell}>Of first ask</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.groups.map((g, idx) => (
+              <tr key={g.label} style={stripeRow(idx)}>
+                <td style={tableBodyCell}>{g.label}</td>
+                <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                  {g.count}
+                </td>
+                <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                  {Math.round(g.avgDaysListed)}
+                </td>
+                <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                  {percent(g.avgSoldVsAsk)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div style={{ fontSize: 12, color: "#9ca3af", marginTop: 8 }}>
+          Time listed vs sale price: {describe(report.daysVsPrice)}. Price drops
+          vs sale price: {describe(report.dropsVsPrice)}.
+        </div>
+      </>
+    )}
+  </div>
+);
+
+export default ListingReportPanel;
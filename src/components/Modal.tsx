@@ -0,0 +1,80 @@
+import React, { useEffect } from "react";
+
+type ModalProps = {
+  title: string;
+  onClose: () => void;
+  footer?: React.ReactNode;
+  width?: number;
+  children: React.ReactNode;
+};
+
+const Modal: React.FC<ModalProps> = ({
+  title,
+  onClose,
+  footer,
+  width = 720,
+  children,
+}) => {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  return (
+    <div
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 50,
+        background: "rgba(0,0,0,0.6)",
+        display: "flex",
+        alignItems: "flex-start",
+        justifyContent: "center",
+        padding: "48px 16px",
+        overflowY: "auto",
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        style={{
+          width: "100%",
+          maxWidth: width,
+          borderRadius: 10,
+          border: "1px solid #374151",
+          padding: 16,
+          background:
+            "linear-gradient(135deg,rgba(15,23,42,0.98),rgba(2,6,23,0.99))",
+          boxShadow: "0 22px 45px rgba(0,0,0,0.55)",
+          color: "#e5e7eb",
+          display: "flex",
+          flexDirection: "column",
+          gap: 12,
+        }}
+      >
+        <div style={{ fontWeight: 600, fontSize: 16 }}>{title}</div>
+        <div>{children}</div>
+        {footer && (
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "flex-end",
+              gap: 8,
+            }}
+          >
+            {footer}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Modal;
@@ -0,0 +1,228 @@
+import React, { useState } from "react";
+import type { Contact, Offer, OfferStatus, WatchItem } from "../types.ts";
+import { contactLabel, OFFER_STATUSES, offersOf } from "../contacts.ts";
+import { currencyOf, isCurrencyCode, toCurrency } from "../currency.ts";
+import { parseNumber } from "../formats.ts";
+import { dayKey } from "../charts.ts";
+import Modal from "./Modal.tsx";
+import ContactSelect from "./ContactSelect.tsx";
+import {
+  dangerButtonStyle,
+  inputStyle,
+  primaryButtonStyle,
+  stripeRow,
+  subtleButtonStyle,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type OffersDialogProps = {
+  watch: WatchItem;
+  contacts: Contact[];
+  currencyOptions: string[];
+  onCreateContact: (name: string) => Contact;
+  onChange: (offers: Offer[]) => void;
+  onClose: () => void;
+};
+
+const today = () => dayKey(new Date());
+
+const STATUS_COLORS: Record<OfferStatus, string> = {
+  pending: "#facc15",
+  accepted: "#4ade80",
+  declined: "#9ca3af",
+};
+
+const OffersDialog: React.FC<OffersDialogProps> = ({
+  watch,
+  contacts,
+  currencyOptions,
+  onCreateContact,
+  onChange,
+  onClose,
+}) => {
+  const offers = offersOf(watch);
+  const [contactId, setContactId] = useState("");
+  const [date, setDate] = useState(today);
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState(() => currencyOf(watch, "posted"));
+  const [note, setNote] = useState("");
+  const [error, setError] = useState("");
+
+  const nameOf = (id: string | null | undefined) => {
+    if (!id) return "—";
+    const contact = contacts.find((c) => c.id === id);
+    return contact ? contactLabel(contact) : "(deleted contact)";
+  };
+
+  const add = () => {
+    const value = parseNumber(amount);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      setError("Pick the date of the offer.");
+      return;
+    }
+    if (!amount.trim() || Number.isNaN(value) || value <= 0) {
+      setError("Enter the amount offered.");
+      return;
+    }
+    if (!isCurrencyCode(currency)) {
+      setError("Pick a currency.");
+      return;
+    }
+    onChange([
+      ...offers,
+      {
+        id: crypto.randomUUID(),
+        contactId: contactId || null,
+        date,
+        amount: value,
+        currency,
+        status: "pending",
+        note: note.trim() || undefined,
+      },
+    ]);
+    setAmount("");
+    setNote("");
+    setError("");
+  };
+
+  const update = (id: string, patch: Partial<Offer>) =>
+    onChange(offers.map((o) => (o.id === id ? { ...o, ...patch } : o)));
+
+  return (
+    <Modal
+      title={`Offers · ${watch.model}`}
+      width={860}
+      onClose={onClose}
+      footer={
+        <button onClick={onClose} style={subtleButtonStyle}>
+          Done
+        </button>
+      }
+    >
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+          marginBottom: 12,
+        }}
+      >
+        <ContactSelect
+          contacts={contacts}
+          value={contactId}
+          onChange={setContactId}
+          onCreate={onCreateContact}
+          style={{ ...inputStyle, maxWidth: 200 }}
+        />
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          style={inputStyle}
+        />
+        <input
+          type="text"
+          value={amount}
+          placeholder="Amount"
+          onChange={(e) => setAmount(e.target.value)}
+          style={{ ...inputStyle, width: 100 }}
+        />
+        <select
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          style={inputStyle}
+        >
+          {Array.from(new Set([currency, ...currencyOptions])).map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={note}
+          placeholder="Note (optional)"
+          onChange={(e) => setNote(e.target.value)}
+          style={{ ...inputStyle, flex: 1, minWidth: 140 }}
+        />
+        <button onClick={add} style={primaryButtonStyle}>
+          Add offer
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ fontSize: 12, color: "#f97373", marginBottom: 8 }}>
+          {error}
+        </div>
+      )}
+
+      <table
+        style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}
+      >
+        <thead>
+          <tr>
+            <th style={tableHeadCell}>Date</th>
+            <th style={tableHeadCell}>From</th>
+            <th style={tableHeadCell}>Amount</th>
+            <th style={tableHeadCell}>Status</th>
+            <th style={tableHeadCell}>Note</th>
+            <th style={tableHeadCell}></th>
+          </tr>
+        </thead>
+        <tbody>
+          {offers.map((o, idx) => (
+            <tr key={o.id} style={stripeRow(idx)}>
+              <td style={tableBodyCell}>{o.date}</td>
+              <td style={tableBodyCell}>{nameOf(o.contactId)}</td>
+              <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                {toCurrency(o.amount, o.currency)}
+              </td>
+              <td style={tableBodyCell}>
+                <select
+                  value={o.status}
+                  onChange={(e) =>
+                    update(o.id, { status: e.target.value as OfferStatus })
+                  }
+                  style={{ ...inputStyle, color: STATUS_COLORS[o.status] }}
+                >
+                  {Object.entries(OFFER_STATUSES).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td style={tableBodyCell}>{o.note || "—"}</td>
+              <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                <button
+                  onClick={() => onChange(offers.filter((x) => x.id !== o.id))}
+                  style={{ ...dangerButtonStyle, padding: "3px 8px" }}
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+          {offers.length === 0 && (
+            <tr>
+              <td
+                colSpan={6}
+                style={{
+                  ...tableBodyCell,
+                  textAlign: "center",
+                  color: "#9ca3af",
+                }}
+              >
+                No offers yet.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </Modal>
+  );
+};
+
+export default OffersDialog;
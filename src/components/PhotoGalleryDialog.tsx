@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from "react";
+import type { PhotoStage, WatchItem, WatchPhoto } from "../types.ts";
+import Modal from "./Modal.tsx";
+import { PHOTO_STAGES, photoUrl } from "../photos.ts";
+import {
+  dangerButtonStyle,
+  inputStyle,
+  primaryButtonStyle,
+  subtleButtonStyle,
+} from "../styles.ts";
+
+type PhotoGalleryDialogProps = {
+  watch: WatchItem;
+  photos: WatchPhoto[]; // this watch's photos, oldest first
+  onAdd: (files: File[], stage: PhotoStage) => Promise<void>;
+  onUpdate: (photo: WatchPhoto) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+};
+
+const PhotoGalleryDialog: React.FC<PhotoGalleryDialogProps> = ({
+  watch,
+  photos,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onClose,
+}) => {
+  const [index, setIndex] = useState(0);
+  const [stage, setStage] = useState<PhotoStage>("purchase");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  // Clamped here rather than in an effect so deleting the last photo just
+  // shows the one before it.
+  const current = photos[Math.min(index, photos.length - 1)];
+  const at = current ? photos.indexOf(current) : -1;
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement | null)?.tagName === "INPUT") return;
+      if (e.key === "ArrowLeft") setIndex((i) => Math.max(0, i - 1));
+      if (e.key === "ArrowRight") {
+        setIndex((i) => Math.min(photos.length - 1, i + 1));
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [photos.length]);
+
+  const upload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (!files.length) return;
+    setBusy(true);
+    setError("");
+    try {
+      await onAdd(files, stage);
+      setIndex(photos.length); // first of the new ones
+    } catch (err) {
+      console.error(err);
+      setError("Some photos could not be read. Use JPEG, PNG or WebP images.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={`Photos · ${watch.model}`}
+      onClose={onClose}
+      width={820}
+      footer={
+        <button onClick={onClose} style={subtleButtonStyle}>
+          Close
+        </button>
+      }
+    >
+      {current ? (
+        <>
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              gap: 8,
+              background: "#000",
+              borderRadius: 8,
+              minHeight: 240,
+            }}
+          >
+            <button
+              onClick={() => setIndex(Math.max(0, at - 1))}
+              disabled={at <= 0}
+              style={subtleButtonStyle}
+            >
+              ‹
+            </button>
+            <img
+              src={photoUrl(current.blob)}
+              alt={current.caption || watch.model}
+              style={{
+                maxWidth: "100%",
+                maxHeight: "55vh",
+                objectFit: "contain",
+                flex: 1,
+                minWidth: 0,
+              }}
+            />
+            <button
+              onClick={() => setIndex(Math.min(photos.length - 1, at + 1))}
+              disabled={at >= photos.length - 1}
+              style={subtleButtonStyle}
+            >
+              ›
+            </button>
+          </div>
+
+          <div
+            style={{
+              display: "flex",
+              flexWrap: "wrap",
+              alignItems: "center",
+              gap: 8,
+              marginTop: 8,
+              fontSize: 13,
+            }}
+          >
+            <span style={{ color: "#9ca3af" }}>
+              {at + 1} / {photos.length} · {current.width}×{current.height} ·{" "}
+              {new Date(current.addedAt).toLocaleDateString()}
+            </span>
+            <select
+              value={current.stage}
+              onChange={(e) =>
+                onUpdate({ ...current, stage: e.target.value as PhotoStage })
+              }
+              style={inputStyle}
+            >
+              {(Object.keys(PHOTO_STAGES) as PhotoStage[]).map((s) => (
+                <option key={s} value={s}>
+                  {PHOTO_STAGES[s]}
+                </option>
+              ))}
+            </select>
+            <input
+              key={current.id}
+              type="text"
+              defaultValue={current.caption ?? ""}
+              placeholder="Caption"
+              onBlur={(e) =>
+                onUpdate({
+                  ...current,
+                  caption: e.target.value.trim() || undefined,
+                })
+              }
+              style={{ ...inputStyle, flex: 1, minWidth: 160 }}
+            />
+            <button
+              onClick={() => onDelete(current.id)}
+              style={{ ...dangerButtonStyle, padding: "3px 8px" }}
+            >
+              Delete photo
+            </button>
+          </div>
+
+          <div
+            style={{
+              display: "flex",
+              gap: 6,
+              overflowX: "auto",
+              marginTop: 10,
+              paddingBottom: 4,
+            }}
+          >
+            {photos.map((p, i) => (
+              <button
+                key={p.id}
+                onClick={() => setIndex(i)}
+                title={PHOTO_STAGES[p.stage]}
+                style={{
+                  padding: 0,
+                  flex: "0 0 auto",
+                  border:
+                    i === at ? "2px solid #60a5fa" : "2px solid transparent",
+                  borderRadius: 6,
+                  background: "none",
+                  cursor: "pointer",
+                }}
+              >
+                <img
+                  src={photoUrl(p.thumbnail)}
+                  alt=""
+                  style={{
+                    width: 64,
+                    height: 64,
+                    objectFit: "cover",
+                    borderRadius: 4,
+                    display: "block",
+                  }}
+                />
+              </button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <div style={{ fontSize: 13, color: "#9ca3af" }}>
+          No photos of this watch yet.
+        </div>
+      )}
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+          marginTop: 16,
+        }}
+      >
+        <select
+          value={stage}
+          onChange={(e) => setStage(e.target.value as PhotoStage)}
+          style={inputStyle}
+        >
+          {(Object.keys(PHOTO_STAGES) as PhotoStage[]).map((s) => (
+            <option key={s} value={s}>
+              {PHOTO_STAGES[s]}
+            </option>
+          ))}
+        </select>
+        <label
+          style={{
+            ...primaryButtonStyle,
+            display: "inline-flex",
+            alignItems: "center",
+            cursor: busy ? "wait" : "pointer",
+            opacity: busy ? 0.6 : 1,
+          }}
+        >
+          {busy ? "Adding…" : "Add photos"}
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            disabled={busy}
+            style={{ display: "none" }}
+            onChange={upload}
+          />
+        </label>
+        <span style={{ fontSize: 12, color: "#9ca3af" }}>
+          Photos are resized and kept in this browser only.
+        </span>
+        {error && (
+          <span style={{ fontSize: 12, color: "#f97373" }}>{error}</span>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default PhotoGalleryDialog;
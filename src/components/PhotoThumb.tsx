@@ -0,0 +1,70 @@
+import React from "react";
+import type { WatchPhoto } from "../types.ts";
+import { photoUrl } from "../photos.ts";
+import { subtleButtonStyle } from "../styles.ts";
+
+type PhotoThumbProps = {
+  cover: WatchPhoto | undefined;
+  count: number;
+  onOpen: () => void;
+};
+
+const SIZE = 44;
+
+// Table cell content: the cover thumbnail, or an add button when the watch
+// has no photos yet.
+const PhotoThumb: React.FC<PhotoThumbProps> = ({ cover, count, onOpen }) =>
+  cover ? (
+    <button
+      onClick={onOpen}
+      title={`${count} photo(s)`}
+      style={{
+        position: "relative",
+        padding: 0,
+        border: "1px solid #374151",
+        borderRadius: 6,
+        background: "none",
+        cursor: "pointer",
+        width: SIZE,
+        height: SIZE,
+      }}
+    >
+      <img
+        src={photoUrl(cover.thumbnail)}
+        alt=""
+        style={{
+          width: "100%",
+          height: "100%",
+          objectFit: "cover",
+          borderRadius: 5,
+          display: "block",
+        }}
+      />
+      {count > 1 && (
+        <span
+          style={{
+            position: "absolute",
+            right: 2,
+            bottom: 2,
+            fontSize: 10,
+            padding: "0 3px",
+            borderRadius: 4,
+            background: "rgba(0,0,0,0.7)",
+            color: "#e5e7eb",
+          }}
+        >
+          {count}
+        </span>
+      )}
+    </button>
+  ) : (
+    <button
+      onClick={onOpen}
+      title="Add photos"
+      style={{ ...subtleButtonStyle, width: SIZE, height: SIZE, padding: 0 }}
+    >
+      +
+    </button>
+  );
+
+export default PhotoThumb;
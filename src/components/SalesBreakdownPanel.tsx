@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from "react";
+import type { WatchItem } from "../types.ts";
+import {
+  GROUPING_LABELS,
+  groupKey,
+  type AttributeGrouping,
+} from "../attributes.ts";
+import { toCurrency } from "../currency.ts";
+import { holdingDays } from "../turnover.ts";
+import {
+  inputStyle,
+  stripeRow,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type SalesBreakdownPanelProps = {
+  // sold watches with amounts already in the reporting currency
+  rows: (WatchItem & { soldValue: number | null; profit: number | null })[];
+  reportingCurrency: string;
+};
+
+type Group = {
+  key: string;
+  count: number;
+  revenue: number;
+  profit: number;
+  priced: number; // watches with a known profit, for the average
+  sellDays: number;
+  dated: number; // watches with both dates, for the average days to sell
+};
+
+const SalesBreakdownPanel: React.FC<SalesBreakdownPanelProps> = ({
+  rows,
+  reportingCurrency,
+}) => {
+  const [by, setBy] = useState<AttributeGrouping>("brand");
+
+  const groups = useMemo(() => {
+    const map = new Map<string, Group>();
+    rows.forEach((w) => {
+      const key = groupKey(w, by);
+      const g = map.get(key) ?? {
+        key,
+        count: 0,
+        revenue: 0,
+        profit: 0,
+        priced: 0,
+        sellDays: 0,
+        dated: 0,
+      };
+      g.count += 1;
+      if (typeof w.soldValue === "number") g.revenue += w.soldValue;
+      if (typeof w.profit === "number") {
+        g.profit += w.profit;
+        g.priced += 1;
+      }
+      const days = w.dateSold ? holdingDays(w.purchaseDate, w.dateSold) : null;
+      if (days !== null) {
+        g.sellDays += days;
+        g.dated += 1;
+      }
+      map.set(key, g);
+    });
+    return [...map.values()].sort((a, b) => b.profit - a.profit);
+  }, [rows, by]);
+
+  const money = (n: number) => toCurrency(n, reportingCurrency);
+
+  return (
+    <div
+      style={{
+        marginBottom: 16,
+        padding: 10,
+        borderRadius: 10,
+        border: "1px solid #374151",
+        background:
+          "linear-gradient(135deg,rgba(15,23,42,0.98),rgba(3,7,18,0.98))",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+        <span style={{ fontWeight: 600 }}>Sales by</span>
+        <select
+          value={by}
+          onChange={(e) => setBy(e.target.value as AttributeGrouping)}
+          style={inputStyle}
+        >
+          {(Object.keys(GROUPING_LABELS) as AttributeGrouping[]).map((g) => (
+            <option key={g} value={g}>
+              {GROUPING_LABELS[g]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {groups.length === 0 ? (
+        <div style={{ marginTop: 8, fontSize: 13, color: "#9ca3af" }}>
+          No sold watches yet.
+        </div>
+      ) : (
+        <table
+          style={{ width: "100%", borderCollapse: "collapse", marginTop: 12 }}
+        >
+          <thead>
+            <tr>
+              <th style={tableHeadCell}>{GROUPING_LABELS[by]}</th>
+              <th style={tableHeadCell}>Sold</th>
+              <th style={tableHeadCell}>Revenue</th>
+              <th style={tableHeadCell}>Net profit</th>
+              <th style={tableHeadCell}>Avg profit</th>
+              <th style={tableHeadCell}>Avg days to sell</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map((g, idx) => (
+              <tr key={g.key} style={stripeRow(idx)}>
+                <td style={tableBodyCell}>{g.key}</td>
+                <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                  {g.count}
+                </td>
+                <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                  {money(g.revenue)}
+                </td>
+                <td
+                  style={{
+                    ...tableBodyCell,
+                    textAlign: "right",
+                    color: g.profit < 0 ? "#f97373" : "#4ade80",
+                  }}
+                >
+                  {money(g.profit)}
+                </td>
+                <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                  {g.priced ? money(g.profit / g.priced) : "—"}
+                </td>
+                <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                  {g.dated ? Math.round(g.sellDays / g.dated) : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default SalesBreakdownPanel;
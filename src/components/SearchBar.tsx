@@ -0,0 +1,213 @@
+import React, { useState } from "react";
+import type { SavedSearch } from "../types.ts";
+import { QUERY_FIELDS, suggest } from "../query.ts";
+import {
+  dangerButtonStyle,
+  inputStyle,
+  primaryButtonStyle,
+  subtleButtonStyle,
+} from "../styles.ts";
+
+type SearchBarProps = {
+  query: string;
+  errors: string[];
+  fieldValues: Partial<Record<string, string[]>>; // for autocomplete
+  savedSearches: SavedSearch[];
+  onChange: (query: string) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+};
+
+const HELP = [
+  "Terms are combined with AND. Examples:",
+  'brand:seiko status:sold profit<0 sold:2025 worn>5 notes:"crystal"',
+  "-status:archived excludes, = matches a field exactly.",
+  "",
+  ...Object.entries(QUERY_FIELDS).map(([name, f]) => `${name}: ${f.help}`),
+].join("\n");
+
+const SearchBar: React.FC<SearchBarProps> = ({
+  query,
+  errors,
+  fieldValues,
+  savedSearches,
+  onChange,
+  onSave,
+  onDelete,
+}) => {
+  const [focused, setFocused] = useState(false);
+  const [highlight, setHighlight] = useState(0);
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState("");
+
+  const suggestions = focused ? suggest(query, fieldValues) : [];
+  const active = Math.min(highlight, suggestions.length - 1);
+  const selected = savedSearches.find((s) => s.query === query);
+
+  const change = (next: string) => {
+    setHighlight(0);
+    onChange(next);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestions.length) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlight((active + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlight((active - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      change(suggestions[active].query);
+    } else if (e.key === "Escape") {
+      setFocused(false);
+    }
+  };
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName("");
+    setNaming(false);
+  };
+
+  return (
+    <div style={{ marginBottom: 12, fontSize: 13 }}>
+      <label htmlFor="search" style={{ display: "block", marginBottom: 4 }}>
+        Search{" "}
+        <span title={HELP} style={{ color: "#60a5fa", cursor: "help" }}>
+          (syntax)
+        </span>
+      </label>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+        }}
+      >
+        <div style={{ position: "relative", flex: "1 1 320px", maxWidth: 520 }}>
+          <input
+            id="search"
+            type="text"
+            autoComplete="off"
+            placeholder="e.g. seiko, brand:seiko profit<0, worn>5"
+            value={query}
+            onChange={(e) => change(e.target.value)}
+            onFocus={() => setFocused(true)}
+            onBlur={() => setFocused(false)}
+            onKeyDown={onKeyDown}
+            style={{ ...inputStyle, width: "100%", boxSizing: "border-box" }}
+          />
+          {suggestions.length > 0 && (
+            <ul
+              style={{
+                position: "absolute",
+                zIndex: 20,
+                top: "100%",
+                left: 0,
+                right: 0,
+                margin: "2px 0 0",
+                padding: 4,
+                listStyle: "none",
+                borderRadius: 6,
+                border: "1px solid #374151",
+                background: "#020617",
+                boxShadow: "0 10px 25px rgba(0,0,0,0.5)",
+              }}
+            >
+              {suggestions.map((s, i) => (
+                <li
+                  key={s.query}
+                  // mousedown so the input's blur doesn't close us first
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    change(s.query);
+                  }}
+                  onMouseEnter={() => setHighlight(i)}
+                  style={{
+                    padding: "4px 6px",
+                    borderRadius: 4,
+                    cursor: "pointer",
+                    background: i === active ? "#1e293b" : "transparent",
+                  }}
+                >
+                  {s.label}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <select
+          value={selected?.id ?? ""}
+          onChange={(e) => {
+            const saved = savedSearches.find((s) => s.id === e.target.value);
+            change(saved ? saved.query : "");
+          }}
+          style={inputStyle}
+        >
+          <option value="">Saved searches…</option>
+          {savedSearches.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+        {selected ? (
+          <button
+            onClick={() => onDelete(selected.id)}
+            style={{ ...dangerButtonStyle, padding: "3px 8px" }}
+          >
+            Forget
+          </button>
+        ) : naming ? (
+          <>
+            <input
+              type="text"
+              value={name}
+              autoFocus
+              placeholder="Name this search"
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") save();
+                if (e.key === "Escape") setNaming(false);
+              }}
+              style={inputStyle}
+            />
+            <button onClick={save} style={primaryButtonStyle}>
+              Save
+            </button>
+          </>
+        ) : (
+          query.trim() && (
+            <button
+              onClick={() => setNaming(true)}
+              style={{ ...subtleButtonStyle, padding: "3px 8px" }}
+            >
+              Save search
+            </button>
+          )
+        )}
+        {query && (
+          <button
+            onClick={() => change("")}
+            style={{ ...subtleButtonStyle, padding: "3px 8px" }}
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {errors.length > 0 && (
+        <div style={{ marginTop: 4, fontSize: 12, color: "#f97373" }}>
+          Ignored: {errors.join("; ")}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
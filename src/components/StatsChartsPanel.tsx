@@ -0,0 +1,216 @@
+import React, { useMemo } from "react";
+import type { WearLog } from "../types.ts";
+import {
+  RANGE_PRESETS,
+  SERIES_COLORS,
+  cumulative,
+  dailyWear,
+  dayLabel,
+  inventoryValue,
+  monthLabel,
+  monthlySales,
+  monthsIn,
+  weeklyWear,
+  type DateRange,
+  type Holding,
+  type RangePreset,
+  type SaleFigures,
+} from "../charts.ts";
+import { toCurrency } from "../currency.ts";
+import { formatTotalDuration } from "../formats.ts";
+import { inputStyle } from "../styles.ts";
+import BarChart from "./BarChart.tsx";
+import LineChart from "./LineChart.tsx";
+import WearHeatmap from "./WearHeatmap.tsx";
+
+type StatsChartsPanelProps = {
+  range: DateRange;
+  preset: RangePreset | "custom";
+  onPresetChange: (preset: RangePreset) => void;
+  onRangeChange: (range: DateRange) => void;
+  sales: SaleFigures[]; // in the reporting currency
+  holdings: Holding[]; // every watch with a purchase date, sold or not
+  wearLogs: WearLog[];
+  minutesOf: (log: WearLog) => number;
+  watchLabel: (id: string) => string;
+  reportingCurrency: string;
+};
+
+const chartTitle: React.CSSProperties = {
+  fontSize: 13,
+  fontWeight: 600,
+  margin: "16px 0 6px",
+};
+
+const StatsChartsPanel: React.FC<StatsChartsPanelProps> = ({
+  range,
+  preset,
+  onPresetChange,
+  onRangeChange,
+  sales,
+  holdings,
+  wearLogs,
+  minutesOf,
+  watchLabel,
+  reportingCurrency,
+}) => {
+  const months = useMemo(() => monthsIn(range), [range]);
+  const monthly = useMemo(() => monthlySales(sales, range), [sales, range]);
+  const held = useMemo(
+    () => inventoryValue(holdings, range),
+    [holdings, range]
+  );
+  const weekly = useMemo(
+    () => weeklyWear(wearLogs, minutesOf, range),
+    [wearLogs, minutesOf, range]
+  );
+  const daily = useMemo(
+    () => dailyWear(wearLogs, minutesOf, range),
+    [wearLogs, minutesOf, range]
+  );
+
+  const money = (v: number) => toCurrency(v, reportingCurrency);
+  const moneyAxis = (v: number) =>
+    v.toLocaleString(undefined, {
+      style: "currency",
+      currency: reportingCurrency,
+      notation: "compact",
+    });
+  const hours = (v: number) => `${Math.round(v / 60)}h`;
+  const monthLabels = months.map(monthLabel);
+
+  return (
+    <div
+      style={{
+        marginBottom: 16,
+        padding: 10,
+        borderRadius: 10,
+        border: "1px solid #374151",
+        background:
+          "linear-gradient(135deg,rgba(15,23,42,0.98),rgba(3,7,18,0.98))",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ fontWeight: 600 }}>Charts</div>
+      <div style={{ fontSize: 12, color: "#9ca3af", marginTop: 4 }}>
+        For the watches matching the search. Sales count in the month they were
+        sold; inventory value is the cost of what you owned at each month end.
+        Hover a bar or point for its figure.
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+          marginTop: 10,
+          fontSize: 12,
+        }}
+      >
+        <select
+          value={preset}
+          onChange={(e) => onPresetChange(e.target.value as RangePreset)}
+          style={inputStyle}
+        >
+          {Object.entries(RANGE_PRESETS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+          {preset === "custom" && <option value="custom">Custom</option>}
+        </select>
+        <input
+          type="date"
+          value={range.from}
+          max={range.to}
+          onChange={(e) =>
+            e.target.value && onRangeChange({ ...range, from: e.target.value })
+          }
+          style={inputStyle}
+        />
+        <span style={{ color: "#9ca3af" }}>to</span>
+        <input
+          type="date"
+          value={range.to}
+          min={range.from}
+          onChange={(e) =>
+            e.target.value && onRangeChange({ ...range, to: e.target.value })
+          }
+          style={inputStyle}
+        />
+      </div>
+
+      <div style={chartTitle}>Revenue and profit by month</div>
+      <BarChart
+        labels={monthLabels}
+        series={[
+          {
+            name: "Revenue",
+            color: SERIES_COLORS[0],
+            values: monthly.map((m) => m.revenue),
+          },
+          {
+            name: "Net profit",
+            color: SERIES_COLORS[1],
+            values: monthly.map((m) => m.profit),
+          },
+        ]}
+        formatValue={money}
+        formatAxis={moneyAxis}
+      />
+
+      <div style={chartTitle}>Cumulative profit</div>
+      <LineChart
+        labels={monthLabels}
+        series={[
+          {
+            name: "Net profit",
+            color: SERIES_COLORS[1],
+            values: cumulative(monthly.map((m) => m.profit)),
+          },
+        ]}
+        formatValue={money}
+        formatAxis={moneyAxis}
+      />
+
+      <div style={chartTitle}>Inventory value</div>
+      <LineChart
+        labels={monthLabels}
+        series={[
+          {
+            name: "Cost of watches owned",
+            color: SERIES_COLORS[0],
+            values: held,
+          },
+        ]}
+        formatValue={money}
+        formatAxis={moneyAxis}
+      />
+
+      <div style={chartTitle}>Wear time per week</div>
+      {weekly.series.length ? (
+        <BarChart
+          labels={weekly.weeks.map(dayLabel)}
+          series={weekly.series.map((s, i) => ({
+            name: s.watchId ? watchLabel(s.watchId) : "Other",
+            color: SERIES_COLORS[i % SERIES_COLORS.length],
+            values: s.values,
+          }))}
+          stacked
+          formatValue={formatTotalDuration}
+          formatAxis={hours}
+        />
+      ) : (
+        <div style={{ fontSize: 12, color: "#9ca3af" }}>
+          No wear logged in this range.
+        </div>
+      )}
+
+      <div style={chartTitle}>Wear calendar</div>
+      <WearHeatmap range={range} minutesByDay={daily} />
+    </div>
+  );
+};
+
+export default StatsChartsPanel;
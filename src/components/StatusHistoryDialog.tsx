@@ -0,0 +1,71 @@
+import React from "react";
+import type { WatchItem } from "../types.ts";
+import Modal from "./Modal.tsx";
+import {
+  stripeRow,
+  subtleButtonStyle,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type StatusHistoryDialogProps = {
+  watch: WatchItem;
+  onClose: () => void;
+};
+
+const StatusHistoryDialog: React.FC<StatusHistoryDialogProps> = ({
+  watch,
+  onClose,
+}) => {
+  const history = [...(watch.statusHistory ?? [])].reverse();
+
+  return (
+    <Modal
+      title={`Status history · ${watch.model}`}
+      onClose={onClose}
+      width={520}
+      footer={
+        <button onClick={onClose} style={subtleButtonStyle}>
+          Close
+        </button>
+      }
+    >
+      <table
+        style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}
+      >
+        <thead>
+          <tr>
+            <th style={tableHeadCell}>When</th>
+            <th style={tableHeadCell}>From</th>
+            <th style={tableHeadCell}>To</th>
+          </tr>
+        </thead>
+        <tbody>
+          {history.map((c, idx) => (
+            <tr key={`${c.at}-${idx}`} style={stripeRow(idx)}>
+              <td style={tableBodyCell}>{new Date(c.at).toLocaleString()}</td>
+              <td style={tableBodyCell}>{c.from ?? "—"}</td>
+              <td style={tableBodyCell}>{c.to}</td>
+            </tr>
+          ))}
+          {history.length === 0 && (
+            <tr>
+              <td
+                colSpan={3}
+                style={{
+                  ...tableBodyCell,
+                  textAlign: "center",
+                  color: "#9ca3af",
+                }}
+              >
+                No status changes recorded yet. Currently {watch.status}.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </Modal>
+  );
+};
+
+export default StatusHistoryDialog;
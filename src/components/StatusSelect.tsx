@@ -0,0 +1,42 @@
+import React from "react";
+import type { Lifecycle } from "../types.ts";
+import { allowedNext } from "../lifecycle.ts";
+import { inputStyle, subtleButtonStyle } from "../styles.ts";
+
+type StatusSelectProps = {
+  status: string;
+  lifecycle: Lifecycle;
+  onChange: (status: string) => void;
+  onShowHistory: () => void;
+};
+
+// Offers only the transitions the lifecycle allows from the current status.
+const StatusSelect: React.FC<StatusSelectProps> = ({
+  status,
+  lifecycle,
+  onChange,
+  onShowHistory,
+}) => (
+  <span style={{ display: "inline-flex", gap: 4, alignItems: "center" }}>
+    <select
+      value={status}
+      onChange={(e) => onChange(e.target.value)}
+      style={{ ...inputStyle, padding: "3px 4px" }}
+    >
+      {[status, ...allowedNext(lifecycle, status)].map((s) => (
+        <option key={s} value={s}>
+          {s}
+        </option>
+      ))}
+    </select>
+    <button
+      onClick={onShowHistory}
+      title="Status history"
+      style={{ ...subtleButtonStyle, padding: "3px 6px" }}
+    >
+      ⋯
+    </button>
+  </span>
+);
+
+export default StatusSelect;
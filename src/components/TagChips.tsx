@@ -0,0 +1,20 @@
+import React from "react";
+import type { Tag } from "../types.ts";
+import { tagChipStyle } from "../styles.ts";
+
+type TagChipsProps = {
+  tags: Tag[];
+};
+
+const TagChips: React.FC<TagChipsProps> = ({ tags }) =>
+  tags.length ? (
+    <div style={{ display: "flex", flexWrap: "wrap", gap: 4, marginTop: 2 }}>
+      {tags.map((t) => (
+        <span key={t.id} style={tagChipStyle(t.color)}>
+          {t.name}
+        </span>
+      ))}
+    </div>
+  ) : null;
+
+export default TagChips;
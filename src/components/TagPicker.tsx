@@ -0,0 +1,86 @@
+import React, { useState } from "react";
+import type { Tag } from "../types.ts";
+import { findTag, parseTagList } from "../tags.ts";
+import { inputStyle, tagChipStyle } from "../styles.ts";
+
+type TagPickerProps = {
+  tags: Tag[];
+  selected: string[]; // tag ids
+  onChange: (ids: string[]) => void;
+  // Shows a "new tag" box when given; returns the created (or existing) tag.
+  onCreate?: (name: string) => Tag;
+};
+
+const TagPicker: React.FC<TagPickerProps> = ({
+  tags,
+  selected,
+  onChange,
+  onCreate,
+}) => {
+  const [name, setName] = useState("");
+
+  const toggle = (id: string) =>
+    onChange(
+      selected.includes(id)
+        ? selected.filter((s) => s !== id)
+        : [...selected, id]
+    );
+
+  // "a, b" adds two tags: separators can't be part of a name.
+  const create = () => {
+    if (!onCreate) return;
+    const names = parseTagList(name).filter(
+      (n, i, all) =>
+        all.findIndex((m) => m.toLowerCase() === n.toLowerCase()) === i
+    );
+    const ids = names.map((n) => (findTag(tags, n) ?? onCreate(n)).id);
+    if (!ids.length) return;
+    onChange(Array.from(new Set([...selected, ...ids])));
+    setName("");
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        alignItems: "center",
+        gap: 6,
+      }}
+    >
+      {tags.map((t) => (
+        <button
+          key={t.id}
+          type="button"
+          aria-pressed={selected.includes(t.id)}
+          onClick={() => toggle(t.id)}
+          style={{
+            ...tagChipStyle(t.color, selected.includes(t.id)),
+            cursor: "pointer",
+          }}
+        >
+          {t.name}
+        </button>
+      ))}
+      {onCreate && (
+        <input
+          type="text"
+          value={name}
+          placeholder="New tag…"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter would submit the surrounding form.
+            if (e.key === "Enter") {
+              e.preventDefault();
+              create();
+            }
+          }}
+          onBlur={create}
+          style={{ ...inputStyle, width: 110, padding: "2px 6px" }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TagPicker;
@@ -0,0 +1,191 @@
+import React, { useState } from "react";
+import type { Tag } from "../types.ts";
+import { findTag, hasTagSeparator, type TagStat } from "../tags.ts";
+import { toCurrency } from "../currency.ts";
+import { formatTotalDuration } from "../formats.ts";
+import {
+  dangerButtonStyle,
+  inputStyle,
+  primaryButtonStyle,
+  stripeRow,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type TagsPanelProps = {
+  tags: Tag[];
+  stats: Map<string, TagStat>;
+  reportingCurrency: string;
+  onAdd: (name: string) => void;
+  onChange: (tags: Tag[]) => void; // renames and colours
+  onDelete: (id: string) => void; // also untags the watches
+};
+
+const TagsPanel: React.FC<TagsPanelProps> = ({
+  tags,
+  stats,
+  reportingCurrency,
+  onAdd,
+  onChange,
+  onDelete,
+}) => {
+  const [name, setName] = useState("");
+  const [error, setError] = useState("");
+
+  const update = (id: string, patch: Partial<Tag>) =>
+    onChange(tags.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+
+  // An unusable name puts the old one back.
+  const rename = (tag: Tag, input: HTMLInputElement) => {
+    const trimmed = input.value.trim();
+    const clash = findTag(tags, trimmed);
+    if (!trimmed || (clash && clash.id !== tag.id)) {
+      input.value = tag.name;
+      return;
+    }
+    if (hasTagSeparator(trimmed)) {
+      setError("Tag names can't contain commas or semicolons.");
+      input.value = tag.name;
+      return;
+    }
+    update(tag.id, { name: trimmed });
+    setError("");
+  };
+
+  const add = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError("Name the tag, e.g. Keeper.");
+      return;
+    }
+    if (hasTagSeparator(trimmed)) {
+      setError("Tag names can't contain commas or semicolons.");
+      return;
+    }
+    if (findTag(tags, trimmed)) {
+      setError(`There is already a tag called ${trimmed}.`);
+      return;
+    }
+    onAdd(trimmed);
+    setName("");
+    setError("");
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: 16,
+        padding: 10,
+        borderRadius: 10,
+        border: "1px solid #374151",
+        background:
+          "linear-gradient(135deg,rgba(15,23,42,0.98),rgba(3,7,18,0.98))",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ fontWeight: 600 }}>Tags</div>
+      <div style={{ fontSize: 12, color: "#9ca3af", marginTop: 4 }}>
+        Capital is what the tagged watches you still own cost; profit is from
+        the ones sold. A watch with several tags counts under each.
+      </div>
+
+      {tags.length > 0 && (
+        <div style={{ overflowX: "auto", marginTop: 12 }}>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={tableHeadCell}>Tag</th>
+                <th style={tableHeadCell}>Colour</th>
+                <th style={tableHeadCell}>Watches</th>
+                <th style={tableHeadCell}>Capital tied up</th>
+                <th style={tableHeadCell}>Net profit</th>
+                <th style={tableHeadCell}>Wear time</th>
+                <th style={tableHeadCell}>Avg days to sell</th>
+                <th style={tableHeadCell}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {tags.map((t, idx) => {
+                const s = stats.get(t.id);
+                return (
+                  <tr key={t.id} style={stripeRow(idx)}>
+                    <td style={tableBodyCell}>
+                      <input
+                        type="text"
+                        defaultValue={t.name}
+                        onBlur={(e) => rename(t, e.target)}
+                        style={{ ...inputStyle, width: 160 }}
+                      />
+                    </td>
+                    <td style={tableBodyCell}>
+                      <input
+                        type="color"
+                        value={t.color}
+                        onChange={(e) =>
+                          update(t.id, { color: e.target.value })
+                        }
+                      />
+                    </td>
+                    <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                      {s?.count ?? 0}
+                    </td>
+                    <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                      {toCurrency(s?.capital ?? 0, reportingCurrency)}
+                    </td>
+                    <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                      {toCurrency(s?.profit ?? 0, reportingCurrency)}
+                    </td>
+                    <td style={tableBodyCell}>
+                      {s?.wearMinutes
+                        ? formatTotalDuration(s.wearMinutes)
+                        : "—"}
+                    </td>
+                    <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                      {s?.sellCount
+                        ? Math.round(s.sellDays / s.sellCount)
+                        : "—"}
+                    </td>
+                    <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                      <button
+                        onClick={() => onDelete(t.id)}
+                        style={{ ...dangerButtonStyle, padding: "3px 8px" }}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+          marginTop: 12,
+        }}
+      >
+        <input
+          type="text"
+          value={name}
+          placeholder="New tag"
+          onChange={(e) => setName(e.target.value)}
+          style={{ ...inputStyle, width: 180 }}
+        />
+        <button onClick={add} style={primaryButtonStyle}>
+          Add tag
+        </button>
+        {error && (
+          <span style={{ fontSize: 12, color: "#f97373" }}>{error}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TagsPanel;
@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from "react";
+import type { CostBasisMethod, TaxSettings, TaxTreatment } from "../types.ts";
+import {
+  buildTaxReport,
+  fiscalYearLabel,
+  fiscalYearOf,
+  isMonthDay,
+  monthLength,
+  taxSummary,
+  type TaxInput,
+  type TaxReport,
+} from "../taxReport.ts";
+import { dayKey } from "../charts.ts";
+import { toCurrency } from "../currency.ts";
+import Modal from "./Modal.tsx";
+import { FormField } from "./FormDialog.tsx";
+import {
+  fieldInputStyle,
+  primaryButtonStyle,
+  subtleButtonStyle,
+  tableBodyCell,
+} from "../styles.ts";
+
+type TaxReportDialogProps = {
+  sold: TaxInput[]; // the Sold tab's rows, with its filters applied
+  holdings: TaxInput[]; // every watch, for the inventory carried over
+  filtered: boolean; // the Sold tab filters are narrowing `sold`
+  settings: TaxSettings;
+  reportingCurrency: string;
+  onSettingsChange: (settings: TaxSettings) => void;
+  onExportCSV: (report: TaxReport) => void;
+  onPrint: (report: TaxReport) => void;
+  onClose: () => void;
+};
+
+const MONTHS = Array.from({ length: 12 }, (_, i) =>
+  new Date(2000, i, 1).toLocaleDateString(undefined, { month: "long" })
+);
+
+const TaxReportDialog: React.FC<TaxReportDialogProps> = ({
+  sold,
+  holdings,
+  filtered,
+  settings,
+  reportingCurrency,
+  onSettingsChange,
+  onExportCSV,
+  onPrint,
+  onClose,
+}) => {
+  const start = settings.fiscalYearStart;
+  const currentYear = fiscalYearOf(dayKey(new Date()), start);
+  const years = useMemo(() => {
+    const set = new Set([currentYear]);
+    sold.forEach((w) => {
+      if (w.dateSold) set.add(fiscalYearOf(w.dateSold.slice(0, 10), start));
+    });
+    return Array.from(set).sort((a, b) => b - a);
+  }, [sold, start, currentYear]);
+  // Defaults to the last complete year, which is the one usually filed.
+  const [year, setYear] = useState(() =>
+    years.includes(currentYear - 1) ? currentYear - 1 : years[0]
+  );
+
+  const report = useMemo(
+    () => buildTaxReport(year, sold, holdings, settings),
+    [year, sold, holdings, settings]
+  );
+
+  const update = (patch: Partial<TaxSettings>) =>
+    onSettingsChange({ ...settings, ...patch });
+  const [month, day] = start.split("-");
+  const setStart = (m: string, d: string) => {
+    const next = `${m}-${d.padStart(2, "0")}`;
+    if (isMonthDay(next)) update({ fiscalYearStart: next });
+  };
+
+  return (
+    <Modal
+      title="Tax report"
+      onClose={onClose}
+      footer={
+        <>
+          <button onClick={onClose} style={subtleButtonStyle}>
+            Close
+          </button>
+          <button
+            onClick={() => onExportCSV(report)}
+            style={primaryButtonStyle}
+          >
+            Download CSV
+          </button>
+          <button onClick={() => onPrint(report)} style={primaryButtonStyle}>
+            Printable summary
+          </button>
+        </>
+      }
+    >
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fit,minmax(180px,1fr))",
+          gap: 10,
+        }}
+      >
+        <FormField label="Tax year">
+          <select
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value))}
+            style={fieldInputStyle}
+          >
+            {years.map((y) => (
+              <option key={y} value={y}>
+                {fiscalYearLabel(y, start)}
+              </option>
+            ))}
+          </select>
+        </FormField>
+        <FormField label="Year starts on">
+          <div style={{ display: "flex", gap: 6 }}>
+            <select
+              value={month}
+              onChange={(e) => {
+                const m = e.target.value;
+                setStart(
+                  m,
+                  String(Math.min(Number(day), monthLength(Number(m))))
+                );
+              }}
+              style={fieldInputStyle}
+            >
+              {MONTHS.map((name, i) => (
+                <option key={name} value={String(i + 1).padStart(2, "0")}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              max={monthLength(Number(month))}
+              value={Number(day)}
+              onChange={(e) => setStart(month, e.target.value)}
+              style={{ ...fieldInputStyle, width: 64 }}
+            />
+          </div>
+        </FormField>
+        <FormField label="Long-term after (months)">
+          <input
+            type="number"
+            min={1}
+            value={settings.longTermMonths}
+            onChange={(e) => {
+              const months = Number(e.target.value);
+              if (Number.isInteger(months) && months >= 1) {
+                update({ longTermMonths: months });
+              }
+            }}
+            style={fieldInputStyle}
+          />
+        </FormField>
+        <FormField label="Treatment">
+          <select
+            value={settings.treatment}
+            onChange={(e) =>
+              update({ treatment: e.target.value as TaxTreatment })
+            }
+            style={fieldInputStyle}
+          >
+            <option value="hobby">Hobby / personal use</option>
+            <option value="business">Business</option>
+          </select>
+        </FormField>
+        <FormField label="Cost basis">
+          <select
+            value={settings.costBasis}
+            onChange={(e) =>
+              update({ costBasis: e.target.value as CostBasisMethod })
+            }
+            style={fieldInputStyle}
+          >
+            <option value="full">Purchase + parts and service</option>
+            <option value="purchase">Purchase price only</option>
+          </select>
+        </FormField>
+      </div>
+
+      <div style={{ fontSize: 12, color: "#9ca3af", margin: "12px 0 6px" }}>
+        {report.from} to {report.to} · {report.lines.length} sale(s)
+        {filtered && " matching the Sold tab filters"}
+        {report.incomplete > 0 &&
+          ` · ${report.incomplete} missing a price or rate, left out of the totals`}
+        {report.inventory.incomplete > 0 &&
+          ` · ${report.inventory.incomplete} watch(es) in inventory missing a cost or rate, left out of the inventory figures`}
+      </div>
+      <table style={{ borderCollapse: "collapse", fontSize: 13 }}>
+        <tbody>
+          {taxSummary(report).map(([label, value]) => (
+            <tr key={label}>
+              <td style={tableBodyCell}>{label}</td>
+              <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                {toCurrency(value, reportingCurrency)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </Modal>
+  );
+};
+
+export default TaxReportDialog;
@@ -0,0 +1,62 @@
+import React, { useEffect } from "react";
+import { subtleButtonStyle } from "../styles.ts";
+
+type ToastProps = {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  timeoutMs?: number;
+};
+
+const Toast: React.FC<ToastProps> = ({
+  message,
+  actionLabel,
+  onAction,
+  onDismiss,
+  timeoutMs = 8000,
+}) => {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, timeoutMs);
+    return () => window.clearTimeout(timer);
+  }, [message, onDismiss, timeoutMs]);
+
+  return (
+    <div
+      role="status"
+      style={{
+        position: "fixed",
+        bottom: 20,
+        left: "50%",
+        transform: "translateX(-50%)",
+        zIndex: 60,
+        display: "flex",
+        alignItems: "center",
+        gap: 12,
+        padding: "8px 12px",
+        borderRadius: 10,
+        border: "1px solid #374151",
+        background: "#0f172a",
+        boxShadow: "0 12px 30px rgba(0,0,0,0.55)",
+        color: "#e5e7eb",
+        fontSize: 14,
+      }}
+    >
+      <span>{message}</span>
+      {actionLabel && onAction && (
+        <button onClick={onAction} style={subtleButtonStyle}>
+          {actionLabel}
+        </button>
+      )}
+      <button
+        onClick={onDismiss}
+        aria-label="Dismiss"
+        style={{ ...subtleButtonStyle, padding: "3px 8px" }}
+      >
+        ×
+      </button>
+    </div>
+  );
+};
+
+export default Toast;
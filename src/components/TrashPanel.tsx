@@ -0,0 +1,153 @@
+import React from "react";
+import type { WatchItem } from "../types.ts";
+import { purgeDate } from "../trash.ts";
+import {
+  dangerButtonStyle,
+  inputStyle,
+  stripeRow,
+  subtleButtonStyle,
+  tableBodyCell,
+  tableHeadCell,
+} from "../styles.ts";
+
+type TrashPanelProps = {
+  items: WatchItem[]; // trashed watches
+  wearCounts: Record<string, number>;
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  onRestore: (id: string) => void;
+  onDeleteForever: (id: string) => void;
+  onEmpty: () => void;
+};
+
+const TrashPanel: React.FC<TrashPanelProps> = ({
+  items,
+  wearCounts,
+  retentionDays,
+  onRetentionChange,
+  onRestore,
+  onDeleteForever,
+  onEmpty,
+}) => {
+  const sorted = [...items].sort((a, b) =>
+    (b.deletedAt || "").localeCompare(a.deletedAt || "")
+  );
+
+  return (
+    <div>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 8,
+          marginBottom: 12,
+          fontSize: 14,
+        }}
+      >
+        <span>Keep deleted watches for</span>
+        <input
+          type="number"
+          min={1}
+          value={retentionDays}
+          onChange={(e) => {
+            const days = Number(e.target.value);
+            if (Number.isFinite(days) && days >= 1) onRetentionChange(days);
+          }}
+          style={{ ...inputStyle, width: 70 }}
+        />
+        <span>days, then remove them and their wear history for good.</span>
+        <button
+          onClick={onEmpty}
+          disabled={sorted.length === 0}
+          style={{
+            ...dangerButtonStyle,
+            marginLeft: "auto",
+            opacity: sorted.length ? 1 : 0.5,
+          }}
+        >
+          Empty Trash
+        </button>
+      </div>
+
+      <div
+        style={{
+          overflowX: "auto",
+          borderRadius: 10,
+          border: "1px solid #1f2933",
+          background:
+            "linear-gradient(135deg,rgba(15,23,42,0.96),rgba(3,7,18,0.98))",
+          boxShadow: "0 20px 45px rgba(0,0,0,0.55)",
+        }}
+      >
+        <table
+          style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}
+        >
+          <thead>
+            <tr>
+              <th style={tableHeadCell}>Model</th>
+              <th style={tableHeadCell}>Status</th>
+              <th style={tableHeadCell}>Worn ×</th>
+              <th style={tableHeadCell}>Deleted</th>
+              <th style={tableHeadCell}>Removed for good</th>
+              <th style={tableHeadCell}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((w, idx) => (
+              <tr key={w.id} style={stripeRow(idx)}>
+                <td style={tableBodyCell}>{w.model}</td>
+                <td style={tableBodyCell}>{w.status}</td>
+                <td style={{ ...tableBodyCell, textAlign: "right" }}>
+                  {wearCounts[w.id] || 0}
+                </td>
+                <td style={tableBodyCell}>
+                  {new Date(w.deletedAt!).toLocaleString()}
+                </td>
+                <td style={tableBodyCell}>
+                  {purgeDate(w, retentionDays).toLocaleDateString()}
+                </td>
+                <td
+                  style={{
+                    ...tableBodyCell,
+                    textAlign: "right",
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  <button
+                    onClick={() => onRestore(w.id)}
+                    style={{ ...subtleButtonStyle, marginRight: 6 }}
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => onDeleteForever(w.id)}
+                    style={dangerButtonStyle}
+                  >
+                    Delete forever
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {sorted.length === 0 && (
+              <tr>
+                <td
+                  colSpan={6}
+                  style={{
+                    ...tableBodyCell,
+                    textAlign: "center",
+                    color: "#9ca3af",
+                  }}
+                >
+                  Trash is empty.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TrashPanel;
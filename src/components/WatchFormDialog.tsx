@@ -0,0 +1,282 @@
+import React, { useState } from "react";
+import type { Contact, FeeProfile, Tag, WatchItem } from "../types.ts";
+import {
+  applyWatchForm,
+  isSaleMode,
+  validateWatchForm,
+  watchFormValues,
+  withChannelFees,
+  type WatchFormErrors,
+  type WatchFormMode,
+  type WatchFormValues,
+} from "../watchForm.ts";
+import FormDialog, { FormField } from "./FormDialog.tsx";
+import TagPicker from "./TagPicker.tsx";
+import ContactSelect from "./ContactSelect.tsx";
+import { fieldInputStyle, invalidInputStyle } from "../styles.ts";
+
+type WatchFormDialogProps = {
+  mode: WatchFormMode;
+  watch: WatchItem | null; // null when adding
+  defaultCurrency: string;
+  currencyOptions: string[];
+  feeProfiles: FeeProfile[];
+  tags: Tag[];
+  onCreateTag: (name: string) => Tag;
+  contacts: Contact[];
+  onCreateContact: (name: string) => Contact;
+  onCancel: () => void;
+  onSubmit: (watch: WatchItem) => void;
+};
+
+const TITLES: Record<WatchFormMode, string> = {
+  add: "Add watch",
+  edit: "Edit watch",
+  sell: "Mark as sold",
+  editSale: "Edit sale",
+};
+
+const WatchFormDialog: React.FC<WatchFormDialogProps> = ({
+  mode,
+  watch,
+  defaultCurrency,
+  currencyOptions,
+  feeProfiles,
+  tags,
+  onCreateTag,
+  contacts,
+  onCreateContact,
+  onCancel,
+  onSubmit,
+}) => {
+  const [values, setValues] = useState(() =>
+    watchFormValues(watch, defaultCurrency)
+  );
+  const [tagIds, setTagIds] = useState(() => watch?.tags ?? []);
+  // Errors show once Save has been tried, then update as the user types.
+  const [submitted, setSubmitted] = useState(false);
+  const errors: WatchFormErrors = submitted
+    ? validateWatchForm(values, mode)
+    : {};
+
+  const set = (field: keyof WatchFormValues) => (value: string) =>
+    setValues((prev) => ({ ...prev, [field]: value }));
+
+  const submit = () => {
+    setSubmitted(true);
+    if (Object.keys(validateWatchForm(values, mode)).length) return;
+    const applied = applyWatchForm(watch, values, mode);
+    onSubmit(
+      isSaleMode(mode)
+        ? applied
+        : { ...applied, tags: tagIds.length ? tagIds : undefined }
+    );
+  };
+
+  const textField = (
+    field: keyof WatchFormValues,
+    label: string,
+    props: React.InputHTMLAttributes<HTMLInputElement> = {}
+  ) => (
+    <FormField label={label} error={errors[field]}>
+      <input
+        type="text"
+        value={values[field]}
+        onChange={(e) => set(field)(e.target.value)}
+        style={errors[field] ? invalidInputStyle : fieldInputStyle}
+        {...props}
+      />
+    </FormField>
+  );
+
+  const currencyField = (field: keyof WatchFormValues, label: string) => (
+    <FormField label={label}>
+      <select
+        value={values[field]}
+        onChange={(e) => set(field)(e.target.value)}
+        style={fieldInputStyle}
+      >
+        {Array.from(new Set([values[field], ...currencyOptions])).map((c) => (
+          <option key={c} value={c}>
+            {c}
+          </option>
+        ))}
+      </select>
+    </FormField>
+  );
+
+  const flagField = (field: "hasBox" | "hasPapers", label: string) => (
+    <FormField label={label}>
+      <select
+        value={values[field]}
+        onChange={(e) => set(field)(e.target.value)}
+        style={fieldInputStyle}
+      >
+        <option value="">Not recorded</option>
+        <option value="yes">Yes</option>
+        <option value="no">No</option>
+      </select>
+    </FormField>
+  );
+
+  const channels = feeProfiles.map((p) => p.name);
+  if (values.saleChannel && !channels.includes(values.saleChannel)) {
+    channels.push(values.saleChannel);
+  }
+
+  return (
+    <FormDialog
+      title={watch ? `${TITLES[mode]} · ${watch.model}` : TITLES[mode]}
+      submitLabel={mode === "sell" ? "Mark sold" : "Save"}
+      onCancel={onCancel}
+      onSubmit={submit}
+    >
+      {!isSaleMode(mode) ? (
+        <>
+          <FormField label="Model" error={errors.model} wide>
+            <input
+              type="text"
+              value={values.model}
+              placeholder="e.g. Sugess 1963"
+              autoFocus
+              onChange={(e) => set("model")(e.target.value)}
+              style={errors.model ? invalidInputStyle : fieldInputStyle}
+            />
+          </FormField>
+          <FormField label="Purchase date" error={errors.purchaseDate}>
+            <input
+              type="date"
+              value={values.purchaseDate}
+              onChange={(e) => set("purchaseDate")(e.target.value)}
+              style={errors.purchaseDate ? invalidInputStyle : fieldInputStyle}
+            />
+          </FormField>
+          {textField("purchasePrice", "Purchase price", {
+            placeholder: "e.g. 250",
+            inputMode: "decimal",
+          })}
+          {currencyField("purchaseCurrency", "Purchase currency")}
+          {mode === "add" &&
+            textField("partsCost", "Parts cost", {
+              placeholder: "e.g. 30",
+              inputMode: "decimal",
+            })}
+          {textField("postedPrice", "Posted sale price", {
+            placeholder: "blank for none",
+            inputMode: "decimal",
+          })}
+          {currencyField("postedCurrency", "Posted price currency")}
+          {textField("brand", "Brand", { placeholder: "e.g. Seiko" })}
+          {textField("reference", "Reference", {
+            placeholder: "e.g. 6309-7040",
+          })}
+          {textField("serial", "Serial number")}
+          {textField("movement", "Movement / calibre", {
+            placeholder: "e.g. 7S26",
+          })}
+          {textField("caseSize", "Case size (mm)", { inputMode: "decimal" })}
+          {textField("caseMaterial", "Case material", {
+            placeholder: "e.g. Steel",
+          })}
+          {textField("year", "Year", {
+            placeholder: "e.g. 1982",
+            inputMode: "numeric",
+          })}
+          {flagField("hasBox", "Box")}
+          {flagField("hasPapers", "Papers")}
+          <FormField label="Bought from">
+            <ContactSelect
+              contacts={contacts}
+              value={values.sellerId}
+              onChange={set("sellerId")}
+              onCreate={onCreateContact}
+            />
+          </FormField>
+          {/* Not a FormField: a <label> would pass clicks to the first chip. */}
+          <div style={{ fontSize: 13, gridColumn: "1 / -1" }}>
+            Tags
+            <div style={{ marginTop: 2 }}>
+              <TagPicker
+                tags={tags}
+                selected={tagIds}
+                onChange={setTagIds}
+                onCreate={onCreateTag}
+              />
+            </div>
+          </div>
+          <FormField label="Notes" wide>
+            <textarea
+              value={values.notes}
+              rows={3}
+              onChange={(e) => set("notes")(e.target.value)}
+              style={{ ...fieldInputStyle, resize: "vertical" }}
+            />
+          </FormField>
+        </>
+      ) : (
+        <>
+          {textField("soldPrice", "Sold price", {
+            placeholder: "blank to set later",
+            inputMode: "decimal",
+            autoFocus: true,
+          })}
+          {currencyField("soldCurrency", "Sale currency")}
+          <FormField label="Sold to">
+            <ContactSelect
+              contacts={contacts}
+              value={values.buyerId}
+              onChange={set("buyerId")}
+              onCreate={onCreateContact}
+            />
+          </FormField>
+          <FormField label="Date sold" error={errors.dateSold}>
+            <input
+              type="date"
+              value={values.dateSold}
+              onChange={(e) => set("dateSold")(e.target.value)}
+              style={errors.dateSold ? invalidInputStyle : fieldInputStyle}
+            />
+          </FormField>
+          <FormField
+            label="Sales channel"
+            hint="Fills in platform and payment fees"
+          >
+            <select
+              value={values.saleChannel}
+              onChange={(e) =>
+                setValues((prev) =>
+                  withChannelFees(
+                    { ...prev, saleChannel: e.target.value },
+                    feeProfiles.find((p) => p.name === e.target.value)
+                  )
+                )
+              }
+              style={fieldInputStyle}
+            >
+              <option value="">None</option>
+              {channels.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          </FormField>
+          {textField("platformFee", `Platform fee (${values.soldCurrency})`, {
+            inputMode: "decimal",
+          })}
+          {textField("paymentFee", `Payment fee (${values.soldCurrency})`, {
+            inputMode: "decimal",
+          })}
+          {textField("shipping", `Shipping (${values.soldCurrency})`, {
+            inputMode: "decimal",
+          })}
+          {textField("tax", `Sales tax (${values.soldCurrency})`, {
+            inputMode: "decimal",
+          })}
+        </>
+      )}
+    </FormDialog>
+  );
+};
+
+export default WatchFormDialog;
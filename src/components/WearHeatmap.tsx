@@ -0,0 +1,66 @@
+import React from "react";
+import { calendarDays, dayLabel, inRange, type DateRange } from "../charts.ts";
+import { formatTotalDuration } from "../formats.ts";
+
+type WearHeatmapProps = {
+  range: DateRange;
+  minutesByDay: Map<string, number>;
+};
+
+const CELL = 11;
+const GAP = 2;
+const LEVELS = ["#1f2937", "#14532d", "#15803d", "#22c55e", "#86efac"];
+const WEEKDAYS = ["Mon", "", "Wed", "", "Fri", "", ""];
+
+// GitHub-style calendar: one column per week, Monday at the top, greener for
+// more time on the wrist that day.
+const WearHeatmap: React.FC<WearHeatmapProps> = ({ range, minutesByDay }) => {
+  const days = calendarDays(range);
+  const max = Math.max(0, ...minutesByDay.values());
+  const level = (mins: number) =>
+    mins > 0 ? Math.min(4, Math.ceil((mins / max) * 4)) : 0;
+  const weeks = Math.ceil(days.length / 7);
+  const left = 28;
+
+  return (
+    <svg
+      viewBox={`0 0 ${left + weeks * (CELL + GAP)} ${7 * (CELL + GAP)}`}
+      style={{ width: "100%", maxWidth: 760, height: "auto", display: "block" }}
+    >
+      {WEEKDAYS.map((d, row) => (
+        <text
+          key={row}
+          x={0}
+          y={row * (CELL + GAP) + CELL - 2}
+          fontSize={9}
+          fill="#9ca3af"
+        >
+          {d}
+        </text>
+      ))}
+      {days.map((day, i) => {
+        if (!inRange(day, range)) return null;
+        const mins = minutesByDay.get(day) ?? 0;
+        return (
+          <rect
+            key={day}
+            x={left + Math.floor(i / 7) * (CELL + GAP)}
+            y={(i % 7) * (CELL + GAP)}
+            width={CELL}
+            height={CELL}
+            rx={2}
+            fill={LEVELS[level(mins)]}
+          >
+            <title>
+              {`${dayLabel(day)}: ${
+                mins ? formatTotalDuration(mins) : "not worn"
+              }`}
+            </title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default WearHeatmap;
@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import type { WearLog } from "../types.ts";
+import { toLocalInput } from "../formats.ts";
+import FormDialog, { FormField } from "./FormDialog.tsx";
+import { fieldInputStyle, invalidInputStyle } from "../styles.ts";
+
+type WearLogDialogProps = {
+  log: WearLog;
+  model: string;
+  // Ending the session is mandatory ("Took it off at…") or another session is
+  // already open, so this one can't stay open.
+  requireEnd: boolean;
+  defaultEnd: Date; // pre-filled end of an open session
+  note?: string; // why the dialog opened, when it wasn't the user's doing
+  onCancel: () => void;
+  onSubmit: (log: WearLog) => void;
+};
+
+const parseLocal = (v: string) => {
+  const d = new Date(v);
+  return v && !Number.isNaN(d.getTime()) ? d : null;
+};
+
+const WearLogDialog: React.FC<WearLogDialogProps> = ({
+  log,
+  model,
+  requireEnd,
+  defaultEnd,
+  note,
+  onCancel,
+  onSubmit,
+}) => {
+  const [start, setStart] = useState(() => toLocalInput(new Date(log.start)));
+  const [end, setEnd] = useState(() =>
+    toLocalInput(log.end ? new Date(log.end) : defaultEnd)
+  );
+  const [stillWearing, setStillWearing] = useState(
+    !requireEnd && log.end === null
+  );
+  const [submitted, setSubmitted] = useState(false);
+
+  const validate = () => {
+    const errors: { start?: string; end?: string } = {};
+    const now = new Date();
+    const s = parseLocal(start);
+    const e = parseLocal(end);
+    if (!s) errors.start = "Pick a start date and time";
+    else if (s > now) errors.start = "Can't be in the future";
+    if (!stillWearing) {
+      if (!e) errors.end = "Pick an end date and time";
+      else if (e > now) errors.end = "Can't be in the future";
+      else if (s && e <= s) errors.end = "Must be after the start";
+    }
+    return errors;
+  };
+  const errors = submitted ? validate() : {};
+
+  const submit = () => {
+    setSubmitted(true);
+    if (Object.keys(validate()).length) return;
+    onSubmit({
+      ...log,
+      start: new Date(start).toISOString(),
+      end: stillWearing ? null : new Date(end).toISOString(),
+    });
+  };
+
+  return (
+    <FormDialog
+      title={`${requireEnd && log.end === null ? "Took it off" : "Edit wear"} · ${model}`}
+      onCancel={onCancel}
+      onSubmit={submit}
+    >
+      {note && (
+        <div style={{ fontSize: 13, color: "#9ca3af", gridColumn: "1 / -1" }}>
+          {note}
+        </div>
+      )}
+      <FormField label="Start" error={errors.start}>
+        <input
+          type="datetime-local"
+          value={start}
+          onChange={(e) => setStart(e.target.value)}
+          style={errors.start ? invalidInputStyle : fieldInputStyle}
+        />
+      </FormField>
+      <FormField label="End" error={errors.end}>
+        <input
+          type="datetime-local"
+          value={end}
+          disabled={stillWearing}
+          autoFocus={requireEnd}
+          onChange={(e) => setEnd(e.target.value)}
+          style={errors.end ? invalidInputStyle : fieldInputStyle}
+        />
+      </FormField>
+      {!requireEnd && (
+        <label style={{ fontSize: 13, gridColumn: "1 / -1" }}>
+          <input
+            type="checkbox"
+            checked={stillWearing}
+            onChange={(e) => setStillWearing(e.target.checked)}
+          />{" "}
+          Still wearing
+        </label>
+      )}
+    </FormDialog>
+  );
+};
+
+export default WearLogDialog;
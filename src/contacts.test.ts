@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import type { WatchItem } from "./types.ts";
+import { contactHistory } from "./contacts.ts";
+import { DEFAULT_LIFECYCLE, statusGroup, withoutSale } from "./lifecycle.ts";
+
+const watch = (id: string, fields: Partial<WatchItem>): WatchItem => ({
+  id,
+  model: `Watch ${id}`,
+  purchasePrice: 100,
+  partsCost: 0,
+  status: "Sold",
+  soldPrice: 150,
+  ...fields,
+});
+
+const amounts = (w: WatchItem) => ({
+  purchase: w.purchasePrice,
+  sold: w.soldPrice ?? null,
+  profit: w.soldPrice == null ? null : w.soldPrice - w.purchasePrice,
+});
+
+const isSold = (w: WatchItem) =>
+  statusGroup(DEFAULT_LIFECYCLE, w.status) === "sold";
+
+describe("contactHistory", () => {
+  it("counts a buyer only while the watch is sold", () => {
+    const watches = [
+      watch("w1", { buyerId: "c1", dateSold: "2025-02-01" }),
+      // Back in inventory with a buyer left over from an older version.
+      watch("w2", { buyerId: "c1", status: "Returned" }),
+    ];
+    const h = contactHistory("c1", watches, amounts, isSold);
+    expect(h.sold).toBe(1);
+    expect(h.soldTotal).toBe(150);
+    expect(h.profit).toBe(50);
+    expect(h.deals.map((d) => d.watch.id)).toEqual(["w1"]);
+  });
+
+  it("forgets the buyer when the sale is undone", () => {
+    const w = withoutSale(watch("w1", { buyerId: "c1" }));
+    expect(w.buyerId).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import type { Contact, Offer, OfferStatus, WatchItem } from "./types.ts";
+
+export const OFFER_STATUSES: Record<OfferStatus, string> = {
+  pending: "Pending",
+  accepted: "Accepted",
+  declined: "Declined",
+};
+
+export const createContact = (fields: Omit<Contact, "id">): Contact => ({
+  id: crypto.randomUUID(),
+  name: fields.name.trim(),
+  platform: fields.platform?.trim() || undefined,
+  handle: fields.handle?.trim() || undefined,
+  email: fields.email?.trim() || undefined,
+  notes: fields.notes?.trim() || undefined,
+});
+
+// "Jane Doe (@jdoe, eBay)", or just the name.
+export const contactLabel = (c: Contact) => {
+  const where = [c.handle, c.platform].filter(Boolean).join(", ");
+  return where ? `${c.name} (${where})` : c.name;
+};
+
+export const byContactName = (a: Contact, b: Contact) =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: "base" });
+
+// Every word must appear in the name, handle, platform, email or notes.
+export const contactMatches = (c: Contact, query: string) => {
+  const haystack = [c.name, c.platform, c.handle, c.email, c.notes]
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word));
+};
+
+// Unlinks a deleted contact from a watch; offers stay, without their author.
+export const withoutContact = (w: WatchItem, id: string): WatchItem => {
+  const offers = w.offers?.some((o) => o.contactId === id)
+    ? w.offers.map((o) => (o.contactId === id ? { ...o, contactId: null } : o))
+    : w.offers;
+  if (w.sellerId !== id && w.buyerId !== id && offers === w.offers) return w;
+  return {
+    ...w,
+    sellerId: w.sellerId === id ? null : w.sellerId,
+    buyerId: w.buyerId === id ? null : w.buyerId,
+    offers,
+  };
+};
+
+// Newest first.
+export const offersOf = (w: WatchItem): Offer[] =>
+  [...(w.offers ?? [])].sort((a, b) => b.date.localeCompare(a.date));
+
+export const pendingOffers = (w: WatchItem) =>
+  (w.offers ?? []).filter((o) => o.status === "pending").length;
+
+// A watch's figures in the reporting currency (see reportingAmounts).
+export type DealAmounts = {
+  purchase: number | null;
+  sold: number | null;
+  profit: number | null;
+};
+
+export type ContactDeal = {
+  watch: WatchItem;
+  role: "seller" | "buyer"; // the contact's side of the deal
+  date: string | null;
+  amount: number | null; // what we paid them or they paid us
+};
+
+export type ContactHistory = {
+  bought: number; // watches bought from them
+  boughtTotal: number;
+  sold: number; // watches sold to them
+  soldTotal: number;
+  // Net profit of every sold watch they were a party to, counted once even
+  // when they both sold it to us and bought it back.
+  profit: number;
+  deals: ContactDeal[]; // newest first
+  offers: { watch: WatchItem; offer: Offer }[];
+};
+
+// A buyer only counts once the watch is in the sold group; `isSold` says
+// whether it is under the current lifecycle.
+export const contactHistory = (
+  contactId: string,
+  watches: WatchItem[],
+  amountsOf: (w: WatchItem) => DealAmounts,
+  isSold: (w: WatchItem) => boolean
+): ContactHistory => {
+  const history: ContactHistory = {
+    bought: 0,
+    boughtTotal: 0,
+    sold: 0,
+    soldTotal: 0,
+    profit: 0,
+    deals: [],
+    offers: [],
+  };
+  watches.forEach((w) => {
+    const fromThem = w.sellerId === contactId;
+    const sold = isSold(w);
+    const toThem = sold && w.buyerId === contactId;
+    (w.offers ?? [])
+      .filter((o) => o.contactId === contactId)
+      .forEach((offer) => history.offers.push({ watch: w, offer }));
+    if (!fromThem && !toThem) return;
+
+    const amounts = amountsOf(w);
+    if (fromThem) {
+      history.bought += 1;
+      history.boughtTotal += amounts.purchase ?? 0;
+      history.deals.push({
+        watch: w,
+        role: "seller",
+        date: w.purchaseDate ?? null,
+        amount: amounts.purchase,
+      });
+    }
+    if (toThem) {
+      history.sold += 1;
+      history.soldTotal += amounts.sold ?? 0;
+      history.deals.push({
+        watch: w,
+        role: "buyer",
+        date: w.dateSold ?? null,
+        amount: amounts.sold,
+      });
+    }
+    if (sold) history.profit += amounts.profit ?? 0;
+  });
+  history.deals.sort((a, b) => (b.date ?? "").localeCompare(a.date ?? ""));
+  history.offers.sort((a, b) => b.offer.date.localeCompare(a.offer.date));
+  return history;
+};
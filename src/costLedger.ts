@@ -0,0 +1,125 @@
+import { currencyOf, sumOrNull, type Exchange } from "./currency.ts";
+import { dayKey } from "./charts.ts";
+import type { CostEntry, WatchItem } from "./types.ts";
+
+export const COST_CATEGORIES = [
+  "Service",
+  "Movement parts",
+  "Crystal",
+  "Dial/hands",
+  "Case/polish",
+  "Strap/bracelet",
+  "Shipping",
+  "Other",
+];
+
+const today = () => dayKey(new Date());
+
+const entry = (
+  amount: number,
+  currency: string,
+  note: string,
+  date: string = today()
+): CostEntry => ({
+  id: crypto.randomUUID(),
+  date,
+  vendor: "",
+  category: "Other",
+  amount,
+  currency,
+  note,
+});
+
+// The entries behind a watch's parts cost. Watches recorded before the ledger
+// only have a total, which is shown as a single entry until it is edited.
+export const ledgerOf = (w: WatchItem): CostEntry[] =>
+  w.costLedger ??
+  (w.partsCost
+    ? [
+        {
+          ...entry(
+            w.partsCost,
+            currencyOf(w, "parts"),
+            "Parts total before itemised costs",
+            w.purchaseDate || today()
+          ),
+          id: `${w.id}-parts`,
+        },
+      ]
+    : []);
+
+// Replaces a watch's ledger and keeps partsCost/partsCurrency equal to its
+// total. A mixed-currency ledger is totalled in the watch's parts currency at
+// each entry's date; returns null when a rate for that is missing.
+export const withLedger = (
+  w: WatchItem,
+  entries: CostEntry[],
+  exchange: Exchange
+): WatchItem | null => {
+  const currencies = new Set(entries.map((e) => e.currency));
+  const currency =
+    currencies.size === 1 ? [...currencies][0] : currencyOf(w, "parts");
+  const total = sumOrNull(
+    entries.map((e) => exchange(e.amount, e.currency, currency, e.date))
+  );
+  if (total === null) return null;
+  return {
+    ...w,
+    costLedger: entries,
+    partsCost: Math.round(total * 100) / 100,
+    partsCurrency: currency,
+  };
+};
+
+// Appends one expense to a watch's ledger; null as for withLedger.
+export const withAddedCost = (
+  w: WatchItem,
+  cost: Omit<CostEntry, "id">,
+  exchange: Exchange
+): WatchItem | null =>
+  withLedger(
+    w,
+    [...ledgerOf(w), { ...cost, id: crypto.randomUUID() }],
+    exchange
+  );
+
+// Splits a shared bill into `count` shares that add up to it to the cent;
+// leftover cents go to the first shares.
+export const splitAmount = (total: number, count: number): number[] => {
+  const cents = Math.round(total * 100);
+  const base = Math.trunc(cents / count);
+  const extra = cents - base * count;
+  return Array.from(
+    { length: count },
+    (_, i) => (base + (i < Math.abs(extra) ? Math.sign(extra) : 0)) / 100
+  );
+};
+
+// Keeps a ledger consistent after the parts total was overwritten from a CSV
+// import: the difference is booked as an adjustment entry, or the ledger is
+// replaced outright when the import also changed the parts currency.
+export const reconcileLedger = (
+  before: WatchItem,
+  after: WatchItem
+): WatchItem => {
+  if (!before.costLedger?.length) return after;
+  const currency = currencyOf(after, "parts");
+  if (currency !== currencyOf(before, "parts")) {
+    return {
+      ...after,
+      costLedger: [entry(after.partsCost, currency, "Parts total from import")],
+    };
+  }
+  if (after.partsCost === before.partsCost) return after;
+  return {
+    ...after,
+    costLedger: [
+      ...before.costLedger,
+      entry(
+        Math.round((after.partsCost - before.partsCost) * 100) / 100,
+        currency,
+        "Adjustment from import"
+      ),
+    ],
+  };
+};
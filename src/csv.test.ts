@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import type { Tag, WatchItem } from "./types.ts";
+import { detectDelimiter, parseCSV, toCSV, type CsvDelimiter } from "./csv.ts";
+import {
+  detectColumns,
+  parseWatchRows,
+  planWatchImport,
+  watchesCSV,
+} from "./watchImport.ts";
+
+const tags: Tag[] = [
+  { id: "t1", name: "project", color: "#60a5fa" },
+  { id: "t2", name: "keeper", color: "#4ade80" },
+];
+
+const watches: WatchItem[] = [
+  {
+    id: "w1",
+    model: 'Seiko 6309 "Turtle", 1982',
+    purchasePrice: 120.5,
+    partsCost: 30,
+    postedPrice: 450,
+    soldPrice: 430,
+    purchaseCurrency: "USD",
+    partsCurrency: "USD",
+    postedCurrency: "EUR",
+    soldCurrency: "EUR",
+    status: "Sold",
+    dateSold: "2025-03-14",
+    purchaseDate: "2024-11-02",
+    notes: "New crystal; gasket\nRegulated to +5 s/d",
+    brand: "Seiko",
+    reference: "6309-7040",
+    serial: "2N1234",
+    movement: "6309A",
+    caseSizeMm: 44,
+    caseMaterial: "Steel",
+    year: 1982,
+    hasBox: false,
+    hasPapers: true,
+    tags: ["t1", "t2"],
+  },
+  {
+    id: "w2",
+    model: "Vostok Amphibia",
+    purchasePrice: 60,
+    partsCost: 0,
+    postedPrice: null,
+    soldPrice: null,
+    purchaseCurrency: "GBP",
+    partsCurrency: "GBP",
+    postedCurrency: "GBP",
+    soldCurrency: "GBP",
+    status: "Available",
+    dateSold: null,
+    purchaseDate: "2025-01-20",
+    caseSizeMm: null,
+    year: null,
+  },
+];
+
+// Export, then read back the way the import dialog does.
+const roundTrip = (text: string) => {
+  const [header, ...records] = parseCSV(text);
+  return parseWatchRows(records, detectColumns(header), {
+    dateFormat: "YYYY-MM-DD",
+    numberFormat: "dot",
+    tags,
+  });
+};
+
+describe("parseCSV", () => {
+  it("reads quoted fields, escaped quotes and embedded newlines", () => {
+    const text = 'a,b\r\n"x, y","say ""hi"""\n"two\nlines",z';
+    expect(parseCSV(text)).toEqual([
+      ["a", "b"],
+      ["x, y", 'say "hi"'],
+      ["two\nlines", "z"],
+    ]);
+  });
+
+  it("ignores a byte order mark and blank lines", () => {
+    expect(parseCSV("\uFEFFa,b\n\n1,2\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("detects the delimiter from the header", () => {
+    expect(detectDelimiter('"a;b",c,d\n')).toBe(",");
+    expect(detectDelimiter("a;b;c\n1,5;2;3")).toBe(";");
+    expect(detectDelimiter("a\tb\tc")).toBe("\t");
+  });
+
+  it("reads back what toCSV writes", () => {
+    const rows = [
+      ["plain", " padded ", 'quo"te'],
+      ["semi;colon", "comma,", "line\r\nbreak"],
+    ];
+    for (const d of [",", ";", "\t"] as CsvDelimiter[]) {
+      expect(parseCSV(toCSV(rows, d), d)).toEqual(rows);
+    }
+  });
+});
+
+describe("watches CSV round trip", () => {
+  it.each([",", ";"] as CsvDelimiter[])(
+    "imports exported watches unchanged (delimiter %s)",
+    (delimiter) => {
+      const text = watchesCSV(watches, tags, delimiter);
+      expect(detectDelimiter(text)).toBe(delimiter);
+      const rows = roundTrip(text);
+      expect(rows.map((r) => r.error)).toEqual([undefined, undefined]);
+      expect(rows.map((r) => r.values)).toEqual(watches);
+    }
+  );
+
+  it("survives a byte order mark added by a spreadsheet", () => {
+    const rows = roundTrip("\uFEFF" + watchesCSV(watches, tags));
+    expect(rows.map((r) => r.values)).toEqual(watches);
+  });
+});
+
+describe("planWatchImport status changes", () => {
+  const [sold, available] = watches;
+
+  it("skips a row whose status change the lifecycle doesn't allow", () => {
+    const plan = planWatchImport(
+      watches,
+      [{ line: 2, values: { id: "w2", status: "Returned" } }],
+      "replace"
+    );
+    expect(plan.rows[0]).toMatchObject({
+      status: "skipped",
+      reason: "Can't move from Available to Returned",
+    });
+    expect(plan.removed).toEqual([sold]);
+    expect(plan.items).toEqual([available]);
+  });
+
+  it("drops the sale of a watch moved back to inventory", () => {
+    const plan = planWatchImport(
+      watches,
+      [{ line: 2, values: { id: "w1", status: "Returned" } }],
+      "merge"
+    );
+    const returned = plan.items.find((w) => w.id === "w1");
+    expect(returned).toMatchObject({
+      status: "Returned",
+      soldPrice: null,
+      dateSold: null,
+    });
+    expect(plan.rows[0].status).toBe("updated");
+  });
+});
@@ -0,0 +1,99 @@
+// RFC 4180 CSV reading/writing shared by every import and export.
+
+export type CsvDelimiter = "," | ";" | "\t";
+
+export type CsvCell = string | number | null | undefined;
+
+const BOM = "\uFEFF";
+
+const stripBom = (text: string) =>
+  text.startsWith(BOM) ? text.slice(BOM.length) : text;
+
+// Picks the delimiter that occurs most often (outside quotes) in the header
+// line, so European ";" exports from Excel work without configuration.
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const counts: Record<CsvDelimiter, number> = { ",": 0, ";": 0, "\t": 0 };
+  let inQuotes = false;
+
+  for (const ch of stripBom(text)) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === "\n" || ch === "\r")) break;
+    else if (!inQuotes && ch in counts) counts[ch as CsvDelimiter] += 1;
+  }
+
+  return (Object.keys(counts) as CsvDelimiter[]).reduce((best, d) =>
+    counts[d] > counts[best] ? d : best
+  );
+};
+
+// Returns every non-blank record as an array of raw cell strings. Handles
+// quoted fields, "" escapes, embedded newlines, CRLF/LF endings and a BOM.
+export const parseCSV = (
+  input: string,
+  delimiter: CsvDelimiter = detectDelimiter(input)
+): string[][] => {
+  const text = stripBom(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0].trim() !== "") rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field.trim() === "") {
+      field = "";
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      endField();
+    } else if (ch === "\r" || ch === "\n") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+};
+
+const formatCell = (cell: CsvCell, delimiter: CsvDelimiter) => {
+  const s = cell === null || cell === undefined ? "" : String(cell);
+  const needsQuotes =
+    s.includes(delimiter) ||
+    s.includes('"') ||
+    s.includes("\n") ||
+    s.includes("\r") ||
+    s !== s.trim();
+  return needsQuotes ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const toCSV = (rows: CsvCell[][], delimiter: CsvDelimiter = ",") =>
+  rows
+    .map((r) => r.map((c) => formatCell(c, delimiter)).join(delimiter))
+    .join("\r\n");
@@ -0,0 +1,165 @@
+import type { ExchangeRate, WatchItem } from "./types.ts";
+import { totalFees } from "./fees.ts";
+import { dayKey } from "./charts.ts";
+
+// Everything recorded before multi-currency support was in US dollars.
+export const LEGACY_CURRENCY = "USD";
+
+export const COMMON_CURRENCIES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "JPY",
+  "CHF",
+  "CAD",
+  "AUD",
+  "HKD",
+  "SGD",
+  "CNY",
+];
+
+export const isCurrencyCode = (v: string) => /^[A-Z]{3}$/.test(v);
+
+export type PriceKind = "purchase" | "parts" | "posted" | "sold";
+
+export const currencyOf = (w: WatchItem, kind: PriceKind) =>
+  (kind === "purchase"
+    ? w.purchaseCurrency
+    : kind === "parts"
+      ? w.partsCurrency
+      : kind === "posted"
+        ? w.postedCurrency
+        : w.soldCurrency) || LEGACY_CURRENCY;
+
+export const toCurrency = (
+  n: number | null | undefined,
+  currency: string = LEGACY_CURRENCY
+) =>
+  typeof n === "number" && !Number.isNaN(n)
+    ? n.toLocaleString(undefined, { style: "currency", currency })
+    : "—";
+
+// Converts an amount between two currencies using the rate in force on `date`
+// (latest rate on or before it, else the earliest one after it). Returns null
+// when no rate path exists.
+export type Exchange = (
+  amount: number,
+  from: string,
+  to: string,
+  date?: string | null
+) => number | null;
+
+export const createExchange = (rates: ExchangeRate[]): Exchange => {
+  // "EUR>USD" -> rates sorted by date, each as the multiplier for that direction
+  const pairs = new Map<string, { date: string; factor: number }[]>();
+  const add = (from: string, to: string, date: string, factor: number) => {
+    const key = `${from}>${to}`;
+    pairs.set(key, [...(pairs.get(key) || []), { date, factor }]);
+  };
+  rates.forEach((r) => {
+    if (!(r.rate > 0)) return;
+    add(r.base, r.quote, r.date, r.rate);
+    add(r.quote, r.base, r.date, 1 / r.rate);
+  });
+  pairs.forEach((list) => list.sort((a, b) => a.date.localeCompare(b.date)));
+
+  const factorOn = (from: string, to: string, date: string) => {
+    const list = pairs.get(`${from}>${to}`);
+    if (!list) return null;
+    let match = list[0];
+    for (const entry of list) {
+      if (entry.date <= date) match = entry;
+      else break;
+    }
+    return match.factor;
+  };
+
+  const currencies = new Set(rates.flatMap((r) => [r.base, r.quote]));
+
+  return (amount, from, to, date) => {
+    if (from === to) return amount;
+    const on = date || dayKey(new Date());
+
+    const direct = factorOn(from, to, on);
+    if (direct !== null) return amount * direct;
+
+    // One hop through a shared currency, e.g. JPY -> USD -> EUR.
+    for (const via of currencies) {
+      const a = factorOn(from, via, on);
+      const b = a === null ? null : factorOn(via, to, on);
+      if (a !== null && b !== null) return amount * a * b;
+    }
+    return null;
+  };
+};
+
+export const sumOrNull = (values: (number | null)[]) =>
+  values.some((v) => v === null)
+    ? null
+    : values.reduce<number>((sum, v) => sum + (v as number), 0);
+
+// An Exchange fixed to the reporting currency.
+export type Converter = (
+  amount: number,
+  from: string,
+  date?: string | null
+) => number | null;
+
+export const createConverter = (
+  rates: ExchangeRate[],
+  reportingCurrency: string
+): Converter => {
+  const exchange = createExchange(rates);
+  return (amount, from, date) =>
+    exchange(amount, from, reportingCurrency, date);
+};
+
+// A watch's costs and sale price in the reporting currency, each converted at
+// its own date: purchase at the purchase date, each cost ledger entry at its
+// own date (a plain parts total at the purchase date), the sale at dateSold.
+// `profit` is net of selling fees; `grossProfit` is before them.
+export const reportingAmounts = (w: WatchItem, convert: Converter) => {
+  const purchase = convert(
+    w.purchasePrice,
+    currencyOf(w, "purchase"),
+    w.purchaseDate
+  );
+  const parts = w.costLedger?.length
+    ? sumOrNull(w.costLedger.map((e) => convert(e.amount, e.currency, e.date)))
+    : convert(w.partsCost, currencyOf(w, "parts"), w.purchaseDate);
+  const totalCost =
+    purchase === null || parts === null ? null : purchase + parts;
+  const sold =
+    typeof w.soldPrice === "number"
+      ? convert(w.soldPrice, currencyOf(w, "sold"), w.dateSold)
+      : null;
+  const posted =
+    typeof w.postedPrice === "number"
+      ? convert(w.postedPrice, currencyOf(w, "posted"))
+      : null;
+  // Selling fees are charged in the sale currency on the sale date.
+  const feeTotal = totalFees(w.saleFees);
+  const fees = feeTotal
+    ? convert(feeTotal, currencyOf(w, "sold"), w.dateSold)
+    : 0;
+  const grossProfit =
+    totalCost !== null && sold !== null ? sold - totalCost : null;
+  const profit =
+    grossProfit !== null && fees !== null ? grossProfit - fees : null;
+  const missingRate =
+    totalCost === null ||
+    fees === null ||
+    (typeof w.soldPrice === "number" && sold === null) ||
+    (typeof w.postedPrice === "number" && posted === null);
+
+  return {
+    purchase,
+    totalCost,
+    sold,
+    posted,
+    fees,
+    grossProfit,
+    profit,
+    missingRate,
+  };
+};
@@ -0,0 +1,13 @@
+export const downloadFile = (
+  filename: string,
+  content: BlobPart,
+  type: string
+) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,58 @@
+import type { FeeProfile, SaleFees } from "./types.ts";
+
+export const NO_FEES: SaleFees = {
+  platform: 0,
+  payment: 0,
+  shipping: 0,
+  tax: 0,
+};
+
+export const DEFAULT_FEE_PROFILES: FeeProfile[] = [
+  {
+    id: "ebay",
+    name: "eBay",
+    platformPercent: 13.25,
+    platformFixed: 0.3,
+    paymentPercent: 0,
+    paymentFixed: 0,
+  },
+  {
+    id: "paypal",
+    name: "PayPal G&S",
+    platformPercent: 0,
+    platformFixed: 0,
+    paymentPercent: 3.49,
+    paymentFixed: 0.49,
+  },
+];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Platform and payment fees a channel charges on a sale of `price`.
+export const feesFor = (
+  profile: FeeProfile,
+  price: number,
+  extra: Pick<SaleFees, "shipping" | "tax"> = NO_FEES
+): SaleFees => ({
+  platform: round2(
+    (price * profile.platformPercent) / 100 + profile.platformFixed
+  ),
+  payment: round2(
+    (price * profile.paymentPercent) / 100 + profile.paymentFixed
+  ),
+  shipping: extra.shipping,
+  tax: extra.tax,
+});
+
+export const totalFees = (fees: SaleFees | undefined) =>
+  fees ? fees.platform + fees.payment + fees.shipping + fees.tax : 0;
+
+export const describeProfile = (p: FeeProfile) =>
+  [
+    (p.platformPercent || p.platformFixed) &&
+      `${p.platformPercent}% + ${p.platformFixed}`,
+    (p.paymentPercent || p.paymentFixed) &&
+      `payment ${p.paymentPercent}% + ${p.paymentFixed}`,
+  ]
+    .filter(Boolean)
+    .join(", ") || "no fees";
@@ -0,0 +1,109 @@
+// Locale-dependent number and date parsing for imported spreadsheets and
+// form inputs.
+
+export type NumberFormat = "dot" | "comma"; // decimal separator: 1,234.56 vs 1.234,56
+
+export type DateFormat =
+  "YYYY-MM-DD" | "MM/DD/YYYY" | "DD/MM/YYYY" | "DD.MM.YYYY" | "YYYY/MM/DD";
+
+export const DATE_FORMATS: DateFormat[] = [
+  "YYYY-MM-DD",
+  "MM/DD/YYYY",
+  "DD/MM/YYYY",
+  "DD.MM.YYYY",
+  "YYYY/MM/DD",
+];
+
+export const parseNumber = (v: string, format: NumberFormat = "dot") => {
+  const cleaned =
+    format === "comma"
+      ? v.replace(/[^0-9,-]/g, "").replace(",", ".")
+      : v.replace(/[^0-9.-]/g, "");
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : 0;
+};
+
+// Strict form-input variant: thousands commas and currency symbols are
+// tolerated, anything else that isn't a plain number gives null.
+export const parseAmount = (v: string): number | null => {
+  const cleaned = v.trim().replace(/[\s,$€£¥]/g, "");
+  return /^-?(\d+\.?\d*|\.\d+)$/.test(cleaned) ? Number(cleaned) : null;
+};
+
+// Decimal comma if some value ends in ",d" / ",dd" and none ends in ".d" / ".dd".
+export const detectNumberFormat = (values: string[]): NumberFormat => {
+  const samples = values.map((v) => v.trim()).filter(Boolean);
+  const commaDecimal = samples.some((v) => /\d,\d{1,2}\D*$/.test(v));
+  const dotDecimal = samples.some((v) => /\d\.\d{1,2}\D*$/.test(v));
+  return commaDecimal && !dotDecimal ? "comma" : "dot";
+};
+
+const DATE_LAYOUT: Record<DateFormat, { sep: string; order: string }> = {
+  "YYYY-MM-DD": { sep: "-", order: "ymd" },
+  "MM/DD/YYYY": { sep: "/", order: "mdy" },
+  "DD/MM/YYYY": { sep: "/", order: "dmy" },
+  "DD.MM.YYYY": { sep: ".", order: "dmy" },
+  "YYYY/MM/DD": { sep: "/", order: "ymd" },
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Returns YYYY-MM-DD, or null when the value doesn't fit the format.
+export const parseDateAs = (value: string, format: DateFormat) => {
+  const { sep, order } = DATE_LAYOUT[format];
+  const parts = value.trim().split(sep);
+  if (parts.length !== 3 || parts.some((p) => !/^\d{1,4}$/.test(p))) {
+    return null;
+  }
+
+  const get = (key: string) => Number(parts[order.indexOf(key)]);
+  const d = get("d");
+  const m = get("m");
+  let y = get("y");
+  if (y < 100) y += 2000;
+
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (
+    date.getUTCFullYear() !== y ||
+    date.getUTCMonth() !== m - 1 ||
+    date.getUTCDate() !== d
+  ) {
+    return null;
+  }
+  return `${y}-${pad(m)}-${pad(d)}`;
+};
+
+// First format that parses every sample. US vs European day order is only
+// told apart once some day goes above 12; until then US order wins.
+export const detectDateFormat = (values: string[]): DateFormat => {
+  const samples = values.map((v) => v.trim()).filter(Boolean);
+  return (
+    DATE_FORMATS.find((f) =>
+      samples.every((v) => parseDateAs(v, f) !== null)
+    ) ?? "YYYY-MM-DD"
+  );
+};
+
+// Local "YYYY-MM-DDTHH:MM" for datetime-local inputs.
+export const toLocalInput = (d: Date) => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(
+    d.getHours()
+  )}:${pad(d.getMinutes())}`;
+};
+
+// Summed wear time, e.g. "3d 4h 10m".
+export const formatTotalDuration = (totalMinutes: number) => {
+  const mins = Math.round(totalMinutes);
+  if (mins < 60) return `${mins} min`;
+  const hours = Math.floor(mins / 60);
+  const rem = mins % 60;
+  if (hours < 24) {
+    return rem ? `${hours}h ${rem}m` : `${hours}h`;
+  }
+  const days = Math.floor(hours / 24);
+  const remHours = hours % 24;
+  if (!remHours && !rem) return `${days}d`;
+  if (!rem) return `${days}d ${remHours}h`;
+  return `${days}d ${remHours}h ${rem}m`;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import type { HistoryEntry, WearLog } from "./types.ts";
+import {
+  applyChanges,
+  createEntry,
+  diffChanges,
+  pushEntry,
+  undoTarget,
+} from "./history.ts";
+
+const log = (id: string): WearLog => ({
+  id,
+  watchId: "w1",
+  start: "2025-01-01T08:00:00.000Z",
+  end: "2025-01-01T18:00:00.000Z",
+});
+
+describe("history", () => {
+  const logs = Array.from({ length: 500 }, (_, i) => log(`l${i}`));
+
+  it("keeps a large action undoable along with the ones before it", () => {
+    let history: HistoryEntry[] = [];
+    history = pushEntry(
+      history,
+      createEntry("Logged wear", diffChanges("wearLogs", [], [logs[0]]))
+    );
+    const cleared = diffChanges("wearLogs", logs, []);
+    history = pushEntry(history, createEntry("Cleared wear history", cleared));
+
+    expect(history.map((e) => e.label)).toEqual([
+      "Logged wear",
+      "Cleared wear history",
+    ]);
+    const undo = undoTarget(history);
+    expect(undo?.label).toBe("Cleared wear history");
+    expect(applyChanges("wearLogs", [], undo!.changes, "before")).toHaveLength(
+      500
+    );
+  });
+
+  it("records only the records whose content changed", () => {
+    const restored = logs.map((l, i) =>
+      i === 3 ? { ...l, end: null } : { ...l }
+    );
+    const changes = diffChanges("wearLogs", logs, restored);
+    expect(changes.map((c) => c.id)).toEqual(["l3"]);
+  });
+});
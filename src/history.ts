@@ -0,0 +1,105 @@
+import type {
+  Contact,
+  HistoryEntry,
+  RecordChange,
+  Tag,
+  WatchItem,
+  WearLog,
+} from "./types.ts";
+
+// Oldest actions beyond this are forgotten.
+export const HISTORY_LIMIT = 50;
+
+type JournalRecords = {
+  items: WatchItem;
+  wearLogs: WearLog;
+  contacts: Contact;
+  tags: Tag;
+};
+export type JournalStore = keyof JournalRecords;
+
+// Records are compared by reference, like the storage diff; a replaced
+// record with the same content (e.g. from a restored backup) isn't a change.
+const sameRecord = (a: unknown, b: unknown) =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+export const diffChanges = <S extends JournalStore>(
+  store: S,
+  prev: JournalRecords[S][],
+  next: JournalRecords[S][]
+): RecordChange[] => {
+  const prevById = new Map(prev.map((r) => [r.id, r]));
+  const nextIds = new Set(next.map((r) => r.id));
+  const changes: RecordChange[] = [];
+  next.forEach((r) => {
+    const before = prevById.get(r.id) ?? null;
+    if (!before || !sameRecord(before, r)) {
+      changes.push({ store, id: r.id, before, after: r } as RecordChange);
+    }
+  });
+  prev.forEach((r) => {
+    if (!nextIds.has(r.id)) {
+      changes.push({ store, id: r.id, before: r, after: null } as RecordChange);
+    }
+  });
+  return changes;
+};
+
+// Puts every record touched by `changes` back to its `side` state. Records
+// that reappear are added at the front.
+export const applyChanges = <S extends JournalStore>(
+  store: S,
+  records: JournalRecords[S][],
+  changes: RecordChange[],
+  side: "before" | "after"
+): JournalRecords[S][] => {
+  const target = new Map(
+    changes
+      .filter((c) => c.store === store)
+      .map((c) => [c.id, c[side] as JournalRecords[S] | null])
+  );
+  if (!target.size) return records;
+
+  const present = new Set(records.map((r) => r.id));
+  const restored = [...target.values()].filter(
+    (r): r is JournalRecords[S] => r !== null && !present.has(r.id)
+  );
+  const kept = records
+    .map((r) => (target.has(r.id) ? (target.get(r.id) ?? null) : r))
+    .filter((r): r is JournalRecords[S] => r !== null);
+  return [...restored, ...kept];
+};
+
+const bySeq = (a: HistoryEntry, b: HistoryEntry) => a.seq - b.seq;
+
+export const createEntry = (
+  label: string,
+  changes: RecordChange[]
+): HistoryEntry => ({
+  id: crypto.randomUUID(),
+  seq: 0, // assigned by pushEntry
+  label,
+  at: new Date().toISOString(),
+  undone: false,
+  changes,
+});
+
+// Appends an action. Anything undone can no longer be redone after a new
+// action, and the oldest entries are dropped past HISTORY_LIMIT.
+export const pushEntry = (
+  history: HistoryEntry[],
+  entry: HistoryEntry
+): HistoryEntry[] => {
+  const done = history.filter((e) => !e.undone).sort(bySeq);
+  const seq = (done[done.length - 1]?.seq ?? 0) + 1;
+  return [...done, { ...entry, seq }].slice(-HISTORY_LIMIT);
+};
+
+export const undoTarget = (history: HistoryEntry[]) =>
+  history
+    .filter((e) => !e.undone)
+    .sort(bySeq)
+    .pop() ?? null;
+
+export const redoTarget = (history: HistoryEntry[]) =>
+  history.filter((e) => e.undone).sort(bySeq)[0] ?? null;
@@ -0,0 +1,111 @@
+import type {
+  Lifecycle,
+  LifecycleStatus,
+  StatusGroup,
+  WatchItem,
+} from "./types.ts";
+
+// The statuses every watch could have before the lifecycle was configurable.
+export const AVAILABLE = "Available";
+export const SOLD = "Sold";
+export const ARCHIVED = "Archived";
+
+export const DEFAULT_LIFECYCLE: Lifecycle = {
+  statuses: [
+    { name: AVAILABLE, group: "inventory", wearable: true },
+    { name: "In service", group: "inventory", wearable: false },
+    { name: "Listed", group: "inventory", wearable: true },
+    { name: "Pending payment", group: "sold", wearable: false },
+    { name: "Shipped", group: "sold", wearable: false },
+    { name: SOLD, group: "sold", wearable: false },
+    { name: "Returned", group: "inventory", wearable: true },
+    {
+      name: "Personal collection (not for sale)",
+      group: "inventory",
+      wearable: true,
+    },
+    { name: ARCHIVED, group: "archived", wearable: false },
+  ],
+  transitions: {
+    [AVAILABLE]: [
+      "In service",
+      "Listed",
+      "Pending payment",
+      SOLD,
+      "Personal collection (not for sale)",
+      ARCHIVED,
+    ],
+    "In service": [AVAILABLE, "Listed", "Personal collection (not for sale)"],
+    Listed: [AVAILABLE, "In service", "Pending payment", SOLD],
+    "Pending payment": ["Listed", "Shipped", SOLD],
+    Shipped: [SOLD, "Returned"],
+    [SOLD]: ["Returned"],
+    Returned: [AVAILABLE, "In service", "Listed"],
+    "Personal collection (not for sale)": [AVAILABLE, "In service", ARCHIVED],
+    [ARCHIVED]: [AVAILABLE],
+  },
+};
+
+// Statuses missing from the lifecycle (deleted, or from an import) are
+// treated as plain inventory so the watch never disappears.
+export const statusInfo = (
+  lifecycle: Lifecycle,
+  status: string
+): LifecycleStatus =>
+  lifecycle.statuses.find((s) => s.name === status) ?? {
+    name: status,
+    group: "inventory",
+    wearable: true,
+  };
+
+export const statusGroup = (lifecycle: Lifecycle, status: string) =>
+  statusInfo(lifecycle, status).group;
+
+export const statusesIn = (lifecycle: Lifecycle, group: StatusGroup) =>
+  lifecycle.statuses.filter((s) => s.group === group).map((s) => s.name);
+
+export const allowedNext = (lifecycle: Lifecycle, status: string) =>
+  (lifecycle.transitions[status] ?? []).filter((to) =>
+    lifecycle.statuses.some((s) => s.name === to)
+  );
+
+// Changes a watch's status and appends the change to its history.
+export const withStatus = (
+  w: WatchItem,
+  status: string,
+  at: string = new Date().toISOString()
+): WatchItem =>
+  w.status === status
+    ? w
+    : {
+        ...w,
+        status,
+        statusHistory: [
+          ...(w.statusHistory ?? []),
+          { from: w.status, to: status, at },
+        ],
+      };
+
+// History for a watch that is being created.
+export const withInitialStatus = (
+  w: WatchItem,
+  at: string = new Date().toISOString()
+): WatchItem => ({
+  ...w,
+  statusHistory: [{ from: null, to: w.status, at }],
+});
+
+// Case-insensitive lookup for imported spreadsheets.
+export const matchStatus = (lifecycle: Lifecycle, value: string) =>
+  lifecycle.statuses.find((s) => s.name.toLowerCase() === value.toLowerCase())
+    ?.name ?? null;
+
+// Drops the sale details, buyer included, when a watch leaves the sold group.
+export const withoutSale = (w: WatchItem): WatchItem => ({
+  ...w,
+  buyerId: null,
+  soldPrice: null,
+  dateSold: null,
+  saleChannel: undefined,
+  saleFees: undefined,
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import type { WatchItem } from "./types.ts";
+import { daysListed, listingsOf, staleListing } from "./listings.ts";
+
+const legacy: WatchItem = {
+  id: "w1",
+  model: "Omega Seamaster",
+  purchasePrice: 900,
+  partsCost: 0,
+  postedPrice: 1400,
+  status: "Listed",
+  purchaseDate: "2024-01-10",
+};
+
+describe("legacy posted prices", () => {
+  it("are listed on an unknown date", () => {
+    const [listing] = listingsOf(legacy);
+    expect(listing).toMatchObject({ price: 1400, listedUnknown: true });
+    expect(daysListed([listing], "2025-01-10")).toBeNull();
+  });
+
+  it("are never flagged as stale", () => {
+    expect(staleListing(legacy, 30, "2025-01-10")).toBeNull();
+  });
+
+  it("leave logged listings to be flagged", () => {
+    const logged: WatchItem = {
+      ...legacy,
+      listings: [
+        {
+          id: "l1",
+          channel: "eBay",
+          listed: "2024-11-01",
+          price: 1400,
+          currency: "USD",
+          delisted: null,
+        },
+      ],
+    };
+    expect(staleListing(logged, 30, "2025-01-10")?.days).toBe(70);
+  });
+});
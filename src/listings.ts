@@ -0,0 +1,237 @@
+import { currencyOf } from "./currency.ts";
+import { dayKey } from "./charts.ts";
+import { holdingDays } from "./turnover.ts";
+import type { Listing, WatchItem } from "./types.ts";
+
+export const DEFAULT_PRICE_DROP_DAYS = 30;
+
+const today = () => dayKey(new Date());
+
+const listing = (
+  w: WatchItem,
+  price: number,
+  currency: string,
+  listed: string,
+  channel = w.saleChannel ?? ""
+): Listing => ({
+  id: crypto.randomUUID(),
+  channel,
+  listed,
+  price,
+  currency,
+  delisted: null,
+});
+
+const byListedDate = (a: Listing, b: Listing) =>
+  a.listed.localeCompare(b.listed);
+
+// A watch's listings, oldest first. Watches recorded before the log only
+// have a posted price, which is shown as a single listing of unknown date
+// until it is edited.
+export const listingsOf = (w: WatchItem): Listing[] =>
+  w.listings
+    ? [...w.listings].sort(byListedDate)
+    : typeof w.postedPrice === "number"
+      ? [
+          {
+            ...listing(
+              w,
+              w.postedPrice,
+              currencyOf(w, "posted"),
+              w.purchaseDate || today()
+            ),
+            id: `${w.id}-posted`,
+            listedUnknown: true,
+          },
+        ]
+      : [];
+
+export const isOpen = (l: Listing) => !l.delisted;
+
+// The asking price is the most recently listed open listing's.
+export const currentListing = (listings: Listing[]) =>
+  listings.filter(isOpen).sort(byListedDate).at(-1) ?? null;
+
+// Replaces a watch's listings and keeps postedPrice/postedCurrency equal to
+// the current asking price (none once everything is delisted).
+export const withListings = (w: WatchItem, listings: Listing[]): WatchItem => {
+  const current = currentListing(listings);
+  return {
+    ...w,
+    listings,
+    postedPrice: current ? current.price : null,
+    postedCurrency: current ? current.currency : w.postedCurrency,
+  };
+};
+
+// Closes a listing and relists it on the same channel at a new price, so the
+// old price stays in the log.
+export const withPriceChange = (
+  w: WatchItem,
+  id: string,
+  price: number,
+  date: string = today(),
+  currency?: string
+): WatchItem => {
+  const listings = listingsOf(w);
+  const old = listings.find((l) => l.id === id);
+  if (!old) return w;
+  return withListings(w, [
+    ...listings.map((l) => (l.id === id ? { ...l, delisted: date } : l)),
+    {
+      ...listing(w, price, currency ?? old.currency, date, old.channel),
+      notes: old.notes,
+    },
+  ]);
+};
+
+// Keeps the log in step with a save that went around it (the watch form, a
+// CSV import, marking sold): a new posted price relists the current listing
+// at that price, a cleared one delists it, and a sale closes whatever is
+// still open on the sale date.
+export const reconcileListings = (
+  before: WatchItem,
+  after: WatchItem
+): WatchItem => {
+  let next: WatchItem = { ...after, listings: before.listings };
+  const listings = listingsOf(before);
+  const current = currentListing(listings);
+  const price = after.postedPrice ?? null;
+  const currency = currencyOf(after, "posted");
+  const day = today();
+
+  if (
+    price !== (before.postedPrice ?? null) ||
+    (price !== null && currency !== currencyOf(before, "posted"))
+  ) {
+    // Pins a legacy posted price as a listing before it is replaced.
+    next = { ...next, listings };
+    next =
+      price === null
+        ? withListings(
+            next,
+            listings.map((l) => (isOpen(l) ? { ...l, delisted: day } : l))
+          )
+        : current
+          ? withPriceChange(next, current.id, price, day, currency)
+          : withListings(next, [
+              ...listings,
+              listing(after, price, currency, day),
+            ]);
+  }
+
+  // The posted price stays as the last asking price once sold.
+  const sold = after.dateSold;
+  if (sold && !before.dateSold && listingsOf(next).some(isOpen)) {
+    next = {
+      ...next,
+      listings: listingsOf(next).map((l) =>
+        isOpen(l) ? { ...l, delisted: sold } : l
+      ),
+    };
+  }
+  return next;
+};
+
+// How many times the asking price went down, across all channels.
+export const priceDrops = (listings: Listing[]) =>
+  listings.filter(
+    (l, i) =>
+      i > 0 &&
+      l.currency === listings[i - 1].currency &&
+      l.price < listings[i - 1].price
+  ).length;
+
+// Days from the first listing to the sale (or `until`); null if never listed
+// or listed on an unknown date.
+export const daysListed = (listings: Listing[], until: string) =>
+  listings[0]?.listedUnknown ? null : holdingDays(listings[0]?.listed, until);
+
+// The open listing whose price hasn't changed for `days` days or more, if
+// any: a prompt to drop the price. One listed on an unknown date can't tell.
+export const staleListing = (w: WatchItem, days: number, on: string) => {
+  const current = currentListing(listingsOf(w));
+  if (!current || current.listedUnknown) return null;
+  const age = daysListed([current], on);
+  return age !== null && age >= days ? { listing: current, days: age } : null;
+};
+
+export type ListingOutcome = {
+  id: string;
+  model: string;
+  daysListed: number;
+  drops: number;
+  firstAsk: number; // reporting currency
+  sold: number; // reporting currency
+};
+
+export type OutcomeGroup = {
+  label: string;
+  count: number;
+  avgDaysListed: number;
+  avgSoldVsAsk: number; // sale price as a share of the first asking price
+};
+
+// Pearson's r; null with fewer than three points or no spread.
+export const correlation = (xs: number[], ys: number[]) => {
+  const n = xs.length;
+  if (n < 3) return null;
+  const mean = (v: number[]) => v.reduce((a, b) => a + b, 0) / n;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - mx) * (ys[i] - my);
+    sxx += (x - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  });
+  return sxx && syy ? sxy / Math.sqrt(sxx * syy) : null;
+};
+
+const DROP_GROUPS: [label: string, test: (drops: number) => boolean][] = [
+  ["No drops", (d) => d === 0],
+  ["1 drop", (d) => d === 1],
+  ["2 drops", (d) => d === 2],
+  ["3+ drops", (d) => d >= 3],
+];
+
+export type ListingReport = {
+  groups: OutcomeGroup[];
+  count: number; // sold watches with a usable first asking price
+  daysVsPrice: number | null; // correlation with the sale/first-ask ratio
+  dropsVsPrice: number | null;
+};
+
+// Groups sold watches by how many price drops they needed, and measures how
+// time listed and drops relate to what they finally sold for.
+export const listingReport = (outcomes: ListingOutcome[]): ListingReport => {
+  const ratio = (o: ListingOutcome) => o.sold / o.firstAsk;
+  const usable = outcomes.filter((o) => o.firstAsk > 0);
+  const groups = DROP_GROUPS.flatMap(([label, test]): OutcomeGroup[] => {
+    const rows = usable.filter((o) => test(o.drops));
+    if (!rows.length) return [];
+    return [
+      {
+        label,
+        count: rows.length,
+        avgDaysListed:
+          rows.reduce((sum, o) => sum + o.daysListed, 0) / rows.length,
+        avgSoldVsAsk: rows.reduce((sum, o) => sum + ratio(o), 0) / rows.length,
+      },
+    ];
+  });
+  return {
+    groups,
+    count: usable.length,
+    daysVsPrice: correlation(
+      usable.map((o) => o.daysListed),
+      usable.map(ratio)
+    ),
+    dropsVsPrice: correlation(
+      usable.map((o) => o.drops),
+      usable.map(ratio)
+    ),
+  };
+};
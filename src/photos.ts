@@ -0,0 +1,98 @@
+import type { PhotoStage, WatchPhoto } from "./types.ts";
+
+export const PHOTO_STAGES: Record<PhotoStage, string> = {
+  purchase: "At purchase",
+  service: "After service",
+  listing: "Listing",
+  other: "Other",
+};
+
+// Long edge in pixels. Phone photos are 4000px+; 1600 is plenty for a
+// listing and keeps each photo around 200 KB.
+export const PHOTO_MAX_EDGE = 1600;
+export const THUMBNAIL_EDGE = 160;
+const JPEG_QUALITY = 0.82;
+
+const scaledSize = (width: number, height: number, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+const encode = (bitmap: ImageBitmap, maxEdge: number) => {
+  const { width, height } = scaledSize(bitmap.width, bitmap.height, maxEdge);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, width, height);
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not encode image")),
+      "image/jpeg",
+      JPEG_QUALITY
+    )
+  );
+};
+
+// Resizes an uploaded image in the browser and makes its thumbnail.
+export const createPhoto = async (
+  file: Blob,
+  watchId: string,
+  stage: PhotoStage
+): Promise<WatchPhoto> => {
+  const bitmap = await createImageBitmap(file, {
+    imageOrientation: "from-image",
+  });
+  try {
+    const [blob, thumbnail] = await Promise.all([
+      encode(bitmap, PHOTO_MAX_EDGE),
+      encode(bitmap, THUMBNAIL_EDGE),
+    ]);
+    return {
+      id: crypto.randomUUID(),
+      watchId,
+      stage,
+      addedAt: new Date().toISOString(),
+      type: blob.type,
+      ...scaledSize(bitmap.width, bitmap.height, PHOTO_MAX_EDGE),
+      blob,
+      thumbnail,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Object URLs live as long as their blob is shown; photoUrl hands out one
+// per blob and revokePhotoUrls releases them when the photo is deleted.
+const urls = new WeakMap<Blob, string>();
+
+export const photoUrl = (blob: Blob) => {
+  let url = urls.get(blob);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    urls.set(blob, url);
+  }
+  return url;
+};
+
+export const revokePhotoUrls = (photo: WatchPhoto) => {
+  for (const blob of [photo.blob, photo.thumbnail]) {
+    const url = urls.get(blob);
+    if (url) URL.revokeObjectURL(url);
+    urls.delete(blob);
+  }
+};
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const dataUrlToBlob = async (url: string) => (await fetch(url)).blob();
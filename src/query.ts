@@ -0,0 +1,272 @@
+import type { StatusGroup, WatchItem } from "./types.ts";
+import { matchesSearch, parseFlag } from "./attributes.ts";
+
+// Search box syntax: space-separated terms, all of which must match.
+//   seiko                 free text over model and identification fields
+//   brand:seiko           field contains the text (= for an exact match)
+//   profit<0  worn>=5     numeric comparisons
+//   sold:2025  sold>2025-03   dates, compared on the given precision
+//   notes:"new crystal"   quotes keep spaces together
+//   -status:archived      a leading minus negates a term
+
+// Everything a query can look at for one watch; money is in the reporting
+// currency.
+export type QueryRow = {
+  watch: WatchItem;
+  group: StatusGroup;
+  totalCost: number | null;
+  soldValue: number | null;
+  profit: number | null;
+  wearCount: number;
+  wornHours: number;
+  tags: string[]; // tag names
+  seller: string; // contact names and handles
+  buyer: string;
+};
+
+type FieldKind = "text" | "number" | "date" | "flag";
+
+type FieldDef = {
+  kind: FieldKind;
+  help: string;
+  get: (r: QueryRow) => string | number | boolean | null | undefined;
+};
+
+export const QUERY_FIELDS: Record<string, FieldDef> = {
+  model: { kind: "text", help: "Model", get: (r) => r.watch.model },
+  brand: { kind: "text", help: "Brand", get: (r) => r.watch.brand },
+  ref: { kind: "text", help: "Reference", get: (r) => r.watch.reference },
+  serial: { kind: "text", help: "Serial number", get: (r) => r.watch.serial },
+  movement: {
+    kind: "text",
+    help: "Movement / calibre",
+    get: (r) => r.watch.movement,
+  },
+  material: {
+    kind: "text",
+    help: "Case material",
+    get: (r) => r.watch.caseMaterial,
+  },
+  notes: { kind: "text", help: "Notes", get: (r) => r.watch.notes },
+  status: {
+    kind: "text",
+    help: "Status, or group: inventory, sold, archived",
+    get: (r) => r.watch.status,
+  },
+  tag: { kind: "text", help: "Tag", get: (r) => r.tags.join("\n") },
+  channel: {
+    kind: "text",
+    help: "Sales channel",
+    get: (r) => r.watch.saleChannel,
+  },
+  seller: { kind: "text", help: "Bought from (contact)", get: (r) => r.seller },
+  buyer: { kind: "text", help: "Sold to (contact)", get: (r) => r.buyer },
+  year: { kind: "number", help: "Production year", get: (r) => r.watch.year },
+  size: {
+    kind: "number",
+    help: "Case size in mm",
+    get: (r) => r.watch.caseSizeMm,
+  },
+  bought: {
+    kind: "date",
+    help: "Purchase date",
+    get: (r) => r.watch.purchaseDate,
+  },
+  sold: { kind: "date", help: "Sale date", get: (r) => r.watch.dateSold },
+  cost: { kind: "number", help: "Total cost", get: (r) => r.totalCost },
+  price: { kind: "number", help: "Sold price", get: (r) => r.soldValue },
+  profit: { kind: "number", help: "Net profit", get: (r) => r.profit },
+  worn: { kind: "number", help: "Times worn", get: (r) => r.wearCount },
+  hours: { kind: "number", help: "Hours worn", get: (r) => r.wornHours },
+  box: { kind: "flag", help: "Has box (yes/no)", get: (r) => r.watch.hasBox },
+  papers: {
+    kind: "flag",
+    help: "Has papers (yes/no)",
+    get: (r) => r.watch.hasPapers,
+  },
+};
+
+const FIELD_ALIASES: Record<string, string> = {
+  reference: "ref",
+  calibre: "movement",
+  caliber: "movement",
+  note: "notes",
+  wears: "worn",
+};
+
+type Operator = ":" | "=" | "<" | ">" | "<=" | ">=";
+
+type Term = {
+  field: string | null; // null for free text
+  op: Operator;
+  value: string;
+  negate: boolean;
+};
+
+export type CompiledQuery = {
+  test: (row: QueryRow) => boolean;
+  errors: string[];
+  empty: boolean;
+};
+
+// Splits on whitespace outside double quotes; quotes stay in the tokens.
+export const tokenize = (query: string) => {
+  const tokens: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const ch of query) {
+    if (ch === '"') quoted = !quoted;
+    if (!quoted && /\s/.test(ch)) {
+      if (current) tokens.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (current) tokens.push(current);
+  return tokens;
+};
+
+const TERM = /^(-?)(?:([a-z_]+)(<=|>=|:|=|<|>))?(.*)$/i;
+const DATE_PREFIX = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+const resolveField = (name: string) => {
+  const lower = name.toLowerCase();
+  const field = FIELD_ALIASES[lower] ?? lower;
+  return field in QUERY_FIELDS ? field : null;
+};
+
+const parseTerm = (token: string): Term | string => {
+  const [, minus, rawField, op, rawValue] = TERM.exec(token)!;
+  const value = rawValue.replace(/"/g, "");
+  const negate = minus === "-";
+  if (!rawField) return { field: null, op: ":", value, negate };
+
+  const field = resolveField(rawField);
+  if (!field) return `Unknown field "${rawField}"`;
+  if (!value) return `${field}${op} needs a value`;
+
+  const { kind } = QUERY_FIELDS[field];
+  const ordered = op !== ":" && op !== "=";
+  if ((kind === "text" || kind === "flag") && ordered) {
+    return `${field} can't be compared with ${op}`;
+  }
+  if (kind === "number" && !Number.isFinite(Number(value))) {
+    return `${field} needs a number, not "${value}"`;
+  }
+  if (kind === "date" && !DATE_PREFIX.test(value)) {
+    return `${field} needs a date like 2025, 2025-03 or 2025-03-14`;
+  }
+  if (kind === "flag" && parseFlag(value) === null) {
+    return `${field} needs yes or no`;
+  }
+  return { field, op: op as Operator, value, negate };
+};
+
+const compare = <T extends number | string>(a: T, op: Operator, b: T) => {
+  switch (op) {
+    case "<":
+      return a < b;
+    case ">":
+      return a > b;
+    case "<=":
+      return a <= b;
+    case ">=":
+      return a >= b;
+    default:
+      return a === b;
+  }
+};
+
+const matchTerm = (row: QueryRow, { field, op, value }: Term) => {
+  const needle = value.toLowerCase();
+  if (!field) {
+    return (
+      matchesSearch(row.watch, needle) ||
+      (row.watch.notes ?? "").toLowerCase().includes(needle)
+    );
+  }
+
+  const def = QUERY_FIELDS[field];
+  const actual = def.get(row);
+  if (field === "status" && row.group === needle) return true;
+  // tag=keeper: one of the tags is exactly that.
+  if (field === "tag" && op === "=") {
+    return row.tags.some((t) => t.toLowerCase() === needle);
+  }
+  if (actual === null || actual === undefined || actual === "") return false;
+
+  switch (def.kind) {
+    case "text": {
+      const text = String(actual).toLowerCase();
+      return op === "=" ? text === needle : text.includes(needle);
+    }
+    case "number":
+      return compare(Number(actual), op, Number(value));
+    case "date": {
+      // 2025-03-14 vs "2025-03": compare at the precision given.
+      const date = String(actual).slice(0, value.length);
+      return compare(date, op === ":" ? "=" : op, value);
+    }
+    case "flag":
+      return actual === parseFlag(value);
+  }
+};
+
+export const compileQuery = (query: string): CompiledQuery => {
+  const terms: Term[] = [];
+  const errors: string[] = [];
+  tokenize(query).forEach((token) => {
+    const parsed = parseTerm(token);
+    if (typeof parsed === "string") errors.push(parsed);
+    else if (parsed.value) terms.push(parsed);
+  });
+  return {
+    // Terms with errors are left out rather than hiding everything.
+    test: (row) => terms.every((t) => matchTerm(row, t) !== t.negate),
+    errors,
+    empty: terms.length === 0,
+  };
+};
+
+export type Suggestion = { label: string; query: string };
+
+const SUGGESTION_LIMIT = 8;
+
+// Completions for the term being typed at the end of `query`. `values` lists
+// known values per field (brands in use, statuses, ...).
+export const suggest = (
+  query: string,
+  values: Partial<Record<string, string[]>>
+): Suggestion[] => {
+  if (!query || /\s$/.test(query)) return [];
+  const tokens = tokenize(query);
+  const last = tokens[tokens.length - 1] ?? "";
+  const head = query.slice(0, query.length - last.length);
+  const [, minus, rawField, op, rawValue] = TERM.exec(last)!;
+
+  if (!rawField) {
+    const partial = rawValue.toLowerCase();
+    if (!/^[a-z_]+$/.test(partial)) return [];
+    return Object.entries(QUERY_FIELDS)
+      .filter(([name]) => name.startsWith(partial) && name !== partial)
+      .slice(0, SUGGESTION_LIMIT)
+      .map(([name, def]) => ({
+        label: `${name}: ${def.help}`,
+        query: `${head}${minus}${name}:`,
+      }));
+  }
+
+  const field = resolveField(rawField);
+  if (!field || op !== ":") return [];
+  const partial = rawValue.replace(/"/g, "").toLowerCase();
+  const known =
+    QUERY_FIELDS[field].kind === "flag" ? ["yes", "no"] : (values[field] ?? []);
+  return known
+    .filter((v) => v.toLowerCase().includes(partial) && v !== partial)
+    .slice(0, SUGGESTION_LIMIT)
+    .map((v) => ({
+      label: v,
+      query: `${head}${minus}${field}:${/\s/.test(v) ? `"${v}"` : v} `,
+    }));
+};
@@ -0,0 +1,86 @@
+import type {
+  Contact,
+  ExchangeRate,
+  HistoryEntry,
+  MappingProfile,
+  WatchItem,
+  WatchPhoto,
+  WearLog,
+} from "../types.ts";
+
+// Every persisted collection, keyed by its object store name.
+export type StoreRecords = {
+  items: WatchItem;
+  wearLogs: WearLog;
+  mappingProfiles: MappingProfile;
+  exchangeRates: ExchangeRate;
+  history: HistoryEntry;
+  photos: WatchPhoto;
+  contacts: Contact;
+};
+
+export type StoreName = keyof StoreRecords;
+
+export type StoreSnapshot = { [S in StoreName]: StoreRecords[S][] };
+
+export const STORE_NAMES: StoreName[] = [
+  "items",
+  "wearLogs",
+  "mappingProfiles",
+  "exchangeRates",
+  "history",
+  "photos",
+  "contacts",
+];
+
+export type StorageEngine = {
+  name: string;
+  getAll: <S extends StoreName>(store: S) => Promise<StoreRecords[S][]>;
+  put: <S extends StoreName>(
+    store: S,
+    records: StoreRecords[S][]
+  ) => Promise<void>;
+  remove: (store: StoreName, ids: string[]) => Promise<void>;
+  clear: (store: StoreName) => Promise<void>;
+};
+
+export const loadSnapshot = async (
+  engine: StorageEngine
+): Promise<StoreSnapshot> => {
+  const entries = await Promise.all(
+    STORE_NAMES.map(async (store) => [store, await engine.getAll(store)])
+  );
+  return Object.fromEntries(entries) as StoreSnapshot;
+};
+
+// Records are compared by reference: state updates only create new objects
+// for the records they touch, so anything still identical is unchanged.
+export const diffRecords = <T extends { id: string }>(prev: T[], next: T[]) => {
+  const prevById = new Map(prev.map((r) => [r.id, r]));
+  const nextIds = new Set(next.map((r) => r.id));
+
+  const changed = next.filter((r) => prevById.get(r.id) !== r);
+  const removed = prev.filter((r) => !nextIds.has(r.id)).map((r) => r.id);
+
+  return { changed, removed };
+};
+
+// Persists the difference between two snapshots of a store as per-record writes.
+export const writeDiff = <S extends StoreName>(
+  engine: StorageEngine,
+  store: S,
+  prev: StoreRecords[S][],
+  next: StoreRecords[S][]
+) => {
+  const { changed, removed } = diffRecords(prev, next);
+  if (changed.length) {
+    engine
+      .put(store, changed)
+      .catch((e) => console.error(`Failed to save ${store}`, e));
+  }
+  if (removed.length) {
+    engine
+      .remove(store, removed)
+      .catch((e) => console.error(`Failed to delete from ${store}`, e));
+  }
+};
@@ -0,0 +1,36 @@
+import type { StorageEngine } from "./engine.ts";
+import { createIndexedDbEngine } from "./indexedDb.ts";
+import { createLocalStorageEngine } from "./localStorageEngine.ts";
+
+export type {
+  StorageEngine,
+  StoreName,
+  StoreRecords,
+  StoreSnapshot,
+} from "./engine.ts";
+export { STORE_NAMES, diffRecords, loadSnapshot, writeDiff } from "./engine.ts";
+
+let storage: Promise<StorageEngine> | null = null;
+
+// Shared engine for the app; IndexedDB when available, localStorage otherwise.
+export const getStorage = () => {
+  if (!storage) {
+    storage =
+      typeof indexedDB === "undefined"
+        ? Promise.resolve(createLocalStorageEngine())
+        : createIndexedDbEngine({
+            onBlocked: () =>
+              window.alert(
+                "Watch Tracker was updated. Close its other tabs to finish loading."
+              ),
+            onVersionChange: () =>
+              window.alert(
+                "Watch Tracker was updated in another tab. Reload this one; changes made here won't be saved."
+              ),
+          }).catch((e) => {
+            console.error("IndexedDB unavailable, using localStorage", e);
+            return createLocalStorageEngine();
+          });
+  }
+  return storage;
+};
@@ -0,0 +1,120 @@
+import type { StorageEngine, StoreName } from "./engine.ts";
+import {
+  LEGACY_STORAGE_ITEMS,
+  LEGACY_STORAGE_WEAR,
+  MIGRATIONS,
+  runMigrations,
+  type LegacySource,
+  type Migration,
+  type MigrationContext,
+} from "./migrations.ts";
+
+export type IndexedDbOptions = {
+  factory?: IDBFactory;
+  dbName?: string;
+  legacy?: (LegacySource & Pick<Storage, "removeItem">) | null;
+  migrations?: Migration[];
+  // An older version is still open in another tab; the upgrade waits until
+  // it closes.
+  onBlocked?: () => void;
+  // Another tab wants to upgrade the database. The connection is closed
+  // first so the upgrade isn't held up; this tab can't save any more.
+  onVersionChange?: () => void;
+};
+
+const requestToPromise = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const txDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const openDatabase = ({
+  factory = indexedDB,
+  dbName = "watch-tracker",
+  legacy = typeof localStorage === "undefined" ? null : localStorage,
+  migrations = MIGRATIONS,
+  onBlocked,
+  onVersionChange,
+}: IndexedDbOptions = {}) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const version = Math.max(...migrations.map((m) => m.version));
+    const req = factory.open(dbName, version);
+    let importedLegacy = false;
+
+    req.onupgradeneeded = (event) => {
+      const db = req.result;
+      const tx = req.transaction!;
+
+      const ctx: MigrationContext = {
+        db,
+        tx,
+        legacy,
+        updateAll: (store, fn) => {
+          const cursorReq = tx.objectStore(store).openCursor();
+          cursorReq.onsuccess = () => {
+            const cursor = cursorReq.result;
+            if (!cursor) return;
+            const next = fn(cursor.value);
+            if (next === null) cursor.delete();
+            else cursor.update(next);
+            cursor.continue();
+          };
+        },
+      };
+
+      importedLegacy = event.oldVersion < 2 && version >= 2;
+      runMigrations(ctx, event.oldVersion, version, migrations);
+    };
+
+    req.onsuccess = () => {
+      // Only drop the old keys once the upgrade that copied them committed.
+      if (importedLegacy && legacy) {
+        legacy.removeItem(LEGACY_STORAGE_ITEMS);
+        legacy.removeItem(LEGACY_STORAGE_WEAR);
+      }
+      const db = req.result;
+      db.onversionchange = () => {
+        db.close();
+        onVersionChange?.();
+      };
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error);
+    // Still pending: success follows once the other tab lets go.
+    req.onblocked = () => {
+      console.warn("Database upgrade blocked by another open tab.");
+      onBlocked?.();
+    };
+  });
+
+export const createIndexedDbEngine = async (
+  options: IndexedDbOptions = {}
+): Promise<StorageEngine> => {
+  const db = await openDatabase(options);
+
+  // Transactions are created synchronously so writes issued in order are
+  // applied in order.
+  const write = (store: StoreName, fn: (os: IDBObjectStore) => void) => {
+    const tx = db.transaction(store, "readwrite");
+    fn(tx.objectStore(store));
+    return txDone(tx);
+  };
+
+  return {
+    name: "indexeddb",
+    getAll: (store) =>
+      requestToPromise(db.transaction(store).objectStore(store).getAll()),
+    put: (store, records) =>
+      write(store, (os) => records.forEach((r) => os.put(r))),
+    remove: (store, ids) =>
+      write(store, (os) => ids.forEach((id) => os.delete(id))),
+    clear: (store) => write(store, (os) => os.clear()),
+  };
+};
@@ -0,0 +1,80 @@
+import type { WatchPhoto } from "../types.ts";
+import type { StorageEngine, StoreName, StoreRecords } from "./engine.ts";
+import { LEGACY_STORAGE_ITEMS, LEGACY_STORAGE_WEAR } from "./migrations.ts";
+import { blobToDataUrl, dataUrlToBlob } from "../photos.ts";
+
+// Fallback for browsers without IndexedDB (e.g. some private modes). Keeps the
+// original whole-array layout so older data stays readable.
+const KEYS: Record<StoreName, string> = {
+  items: LEGACY_STORAGE_ITEMS,
+  wearLogs: LEGACY_STORAGE_WEAR,
+  mappingProfiles: "watch-tracker-mapping-profiles-v1",
+  exchangeRates: "watch-tracker-exchange-rates-v1",
+  history: "watch-tracker-history-v1",
+  photos: "watch-tracker-photos-v1",
+  contacts: "watch-tracker-contacts-v1",
+};
+
+// Blobs don't survive JSON, so photos are kept as data URLs. The quota is
+// small; a failed write surfaces as a rejected put.
+type StoredPhoto = Omit<WatchPhoto, "blob" | "thumbnail"> & {
+  blob: string;
+  thumbnail: string;
+};
+
+const encodePhoto = async (p: WatchPhoto): Promise<StoredPhoto> => ({
+  ...p,
+  blob: await blobToDataUrl(p.blob),
+  thumbnail: await blobToDataUrl(p.thumbnail),
+});
+
+const decodePhoto = async (p: StoredPhoto): Promise<WatchPhoto> => ({
+  ...p,
+  blob: await dataUrlToBlob(p.blob),
+  thumbnail: await dataUrlToBlob(p.thumbnail),
+});
+
+export const createLocalStorageEngine = (
+  storage: Storage = localStorage
+): StorageEngine => {
+  const read = (store: StoreName) => {
+    try {
+      const parsed = JSON.parse(storage.getItem(KEYS[store]) || "[]");
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+      console.error(`Failed to load ${store}`, e);
+      return [];
+    }
+  };
+
+  const write = (store: StoreName, records: { id: string }[]) => {
+    storage.setItem(KEYS[store], JSON.stringify(records));
+  };
+
+  return {
+    name: "localstorage",
+    getAll: async <S extends StoreName>(store: S) =>
+      (store === "photos"
+        ? await Promise.all(read(store).map(decodePhoto))
+        : read(store)) as StoreRecords[S][],
+    put: async (store, records) => {
+      const encoded: { id: string }[] =
+        store === "photos"
+          ? await Promise.all((records as WatchPhoto[]).map(encodePhoto))
+          : records;
+      const byId = new Map(
+        read(store).map((r: { id: string }) => [r.id, r] as const)
+      );
+      encoded.forEach((r) => byId.set(r.id, r));
+      write(store, Array.from(byId.values()));
+    },
+    remove: async (store, ids) => {
+      const drop = new Set(ids);
+      write(
+        store,
+        read(store).filter((r: { id: string }) => !drop.has(r.id))
+      );
+    },
+    clear: async (store) => write(store, []),
+  };
+};
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import type { WatchItem, WearLog } from "../types.ts";
+import { STORE_NAMES } from "./engine.ts";
+import { createIndexedDbEngine, openDatabase } from "./indexedDb.ts";
+import {
+  LEGACY_STORAGE_ITEMS,
+  LEGACY_STORAGE_WEAR,
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  runMigrations,
+  type MigrationContext,
+} from "./migrations.ts";
+
+const watch: WatchItem = {
+  id: "w1",
+  model: "Seiko SKX007",
+  purchasePrice: 150,
+  partsCost: 0,
+  status: "Available",
+  purchaseDate: "2024-05-01",
+};
+
+const log: WearLog = {
+  id: "l1",
+  watchId: "w1",
+  start: "2024-05-02T08:00:00.000Z",
+  end: "2024-05-02T18:00:00.000Z",
+};
+
+// An in-memory stand-in for localStorage.
+const fakeLegacy = (entries: Record<string, string>) => {
+  const data = new Map(Object.entries(entries));
+  return {
+    data,
+    getItem: (key: string) => data.get(key) ?? null,
+    removeItem: (key: string) => void data.delete(key),
+  };
+};
+
+const put = (db: IDBDatabase, store: string, record: unknown) =>
+  new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(store, "readwrite");
+    tx.objectStore(store).put(record);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+describe("runMigrations", () => {
+  it("runs only the steps between the two versions, in order", () => {
+    const ran: number[] = [];
+    const steps = [3, 1, 2, 4].map((version) => ({
+      version,
+      description: `step ${version}`,
+      up: () => void ran.push(version),
+    }));
+    runMigrations({} as MigrationContext, 1, 3, steps);
+    expect(ran).toEqual([2, 3]);
+  });
+
+  it("has one migration per version, ending at SCHEMA_VERSION", () => {
+    expect(MIGRATIONS.map((m) => m.version)).toEqual(
+      MIGRATIONS.map((_, i) => i + 1)
+    );
+    expect(SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+});
+
+describe("openDatabase", () => {
+  it("upgrades a version 1 database and keeps its records", async () => {
+    const factory = new IDBFactory();
+    const v1 = await openDatabase({
+      factory,
+      legacy: null,
+      migrations: MIGRATIONS.slice(0, 1),
+    });
+    expect(v1.version).toBe(1);
+    await put(v1, "items", watch);
+    await put(v1, "wearLogs", log);
+    v1.close();
+
+    const db = await openDatabase({ factory, legacy: null });
+    expect(db.version).toBe(SCHEMA_VERSION);
+    expect([...db.objectStoreNames].sort()).toEqual([...STORE_NAMES].sort());
+    db.close();
+
+    const engine = await createIndexedDbEngine({ factory, legacy: null });
+    expect(await engine.getAll("items")).toEqual([watch]);
+    expect(await engine.getAll("wearLogs")).toEqual([log]);
+    expect(await engine.getAll("contacts")).toEqual([]);
+  });
+
+  it("imports localStorage data into a new database, then drops it", async () => {
+    const legacy = fakeLegacy({
+      [LEGACY_STORAGE_ITEMS]: JSON.stringify([watch, { model: "no id" }]),
+      [LEGACY_STORAGE_WEAR]: JSON.stringify([log]),
+      "watch-tracker-settings-v1": "{}",
+    });
+    const engine = await createIndexedDbEngine({
+      factory: new IDBFactory(),
+      legacy,
+    });
+    expect(await engine.getAll("items")).toEqual([watch]);
+    expect(await engine.getAll("wearLogs")).toEqual([log]);
+    expect([...legacy.data.keys()]).toEqual(["watch-tracker-settings-v1"]);
+  });
+
+  it("starts empty when the localStorage data is unreadable", async () => {
+    const legacy = fakeLegacy({ [LEGACY_STORAGE_ITEMS]: "{not json" });
+    const engine = await createIndexedDbEngine({
+      factory: new IDBFactory(),
+      legacy,
+    });
+    expect(await engine.getAll("items")).toEqual([]);
+  });
+
+  it("lets a newer tab upgrade by closing the older connection", async () => {
+    const factory = new IDBFactory();
+    let closed = false;
+    const old = await openDatabase({
+      factory,
+      legacy: null,
+      migrations: MIGRATIONS.slice(0, 1),
+      onVersionChange: () => (closed = true),
+    });
+    const db = await openDatabase({ factory, legacy: null });
+    expect(closed).toBe(true);
+    expect(old.version).toBe(1);
+    expect(db.version).toBe(SCHEMA_VERSION);
+    db.close();
+  });
+
+  it("waits out a blocking connection instead of failing", async () => {
+    const factory = new IDBFactory();
+    const old = await openDatabase({
+      factory,
+      legacy: null,
+      migrations: MIGRATIONS.slice(0, 1),
+    });
+    // A tab from before connections closed themselves.
+    old.onversionchange = null;
+    let blocked = false;
+    const db = await openDatabase({
+      factory,
+      legacy: null,
+      onBlocked: () => {
+        blocked = true;
+        old.close();
+      },
+    });
+    expect(blocked).toBe(true);
+    expect(db.version).toBe(SCHEMA_VERSION);
+    db.close();
+  });
+
+  it("doesn't import localStorage again once upgraded", async () => {
+    const factory = new IDBFactory();
+    (await openDatabase({ factory, legacy: null })).close();
+    const legacy = fakeLegacy({
+      [LEGACY_STORAGE_ITEMS]: JSON.stringify([watch]),
+    });
+    const engine = await createIndexedDbEngine({ factory, legacy });
+    expect(await engine.getAll("items")).toEqual([]);
+    expect(legacy.data.has(LEGACY_STORAGE_ITEMS)).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import type { WatchItem, WearLog } from "../types.ts";
+
+// localStorage keys used before the IndexedDB engine existed.
+export const LEGACY_STORAGE_ITEMS = "watch-tracker-items-v1";
+export const LEGACY_STORAGE_WEAR = "watch-tracker-wear-v2";
+
+export type LegacySource = Pick<Storage, "getItem">;
+
+export type MigrationContext = {
+  db: IDBDatabase;
+  tx: IDBTransaction;
+  legacy: LegacySource | null;
+  // Rewrites every record in a store; return null to delete the record.
+  updateAll: <T>(store: string, fn: (record: T) => T | null) => void;
+};
+
+export type Migration = {
+  version: number;
+  description: string;
+  up: (ctx: MigrationContext) => void;
+};
+
+const readLegacyArray = <T>(legacy: LegacySource | null, key: string): T[] => {
+  if (!legacy) return [];
+  try {
+    const raw = legacy.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error(`Failed to read legacy data from ${key}`, e);
+    return [];
+  }
+};
+
+// Append-only: never edit a migration that has shipped, add a new one.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create items and wear log stores",
+    up: ({ db }) => {
+      db.createObjectStore("items", { keyPath: "id" });
+      const wear = db.createObjectStore("wearLogs", { keyPath: "id" });
+      wear.createIndex("watchId", "watchId");
+    },
+  },
+  {
+    version: 2,
+    description: "Import existing localStorage data",
+    up: ({ tx, legacy }) => {
+      const items = tx.objectStore("items");
+      readLegacyArray<WatchItem>(legacy, LEGACY_STORAGE_ITEMS).forEach((w) => {
+        if (w && typeof w.id === "string") items.put(w);
+      });
+
+      const wear = tx.objectStore("wearLogs");
+      readLegacyArray<WearLog>(legacy, LEGACY_STORAGE_WEAR).forEach((l) => {
+        if (l && typeof l.id === "string") wear.put(l);
+      });
+    },
+  },
+  {
+    version: 3,
+    description: "Add saved CSV column mapping profiles",
+    up: ({ db }) => {
+      db.createObjectStore("mappingProfiles", { keyPath: "id" });
+    },
+  },
+  {
+    version: 4,
+    description: "Add dated exchange rates",
+    up: ({ db }) => {
+      const rates = db.createObjectStore("exchangeRates", { keyPath: "id" });
+      rates.createIndex("date", "date");
+    },
+  },
+  {
+    version: 5,
+    description: "Add undo history",
+    up: ({ db }) => {
+      const history = db.createObjectStore("history", { keyPath: "id" });
+      history.createIndex("seq", "seq");
+    },
+  },
+  {
+    version: 6,
+    description: "Add watch photos",
+    up: ({ db }) => {
+      const photos = db.createObjectStore("photos", { keyPath: "id" });
+      photos.createIndex("watchId", "watchId");
+    },
+  },
+  {
+    version: 7,
+    description: "Add buyer/seller contacts",
+    up: ({ db }) => {
+      db.createObjectStore("contacts", { keyPath: "id" });
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const runMigrations = (
+  ctx: MigrationContext,
+  oldVersion: number,
+  newVersion: number,
+  migrations: Migration[] = MIGRATIONS
+) => {
+  migrations
+    .filter((m) => m.version > oldVersion && m.version <= newVersion)
+    .sort((a, b) => a.version - b.version)
+    .forEach((m) => m.up(ctx));
+};
@@ -0,0 +1,95 @@
+import type { CSSProperties } from "react";
+
+export const tabButtonStyle = (active: boolean): CSSProperties => ({
+  padding: "6px 12px",
+  marginRight: 8,
+  borderRadius: 999,
+  border: active ? "1px solid #60a5fa" : "1px solid #374151",
+  background: active ? "rgba(37,99,235,0.3)" : "#111827",
+  color: "#e5e7eb",
+  fontSize: 13,
+  fontWeight: active ? 600 : 500,
+  cursor: "pointer",
+  boxShadow: active ? "0 0 0 1px rgba(37,99,235,0.4)" : "none",
+  transition: "background 0.15s ease, transform 0.12s ease",
+});
+
+export const primaryButtonStyle: CSSProperties = {
+  padding: "6px 12px",
+  borderRadius: 6,
+  border: "1px solid #2563eb",
+  background: "linear-gradient(135deg,#2563eb,#1d4ed8)",
+  color: "white",
+  fontWeight: 600,
+  cursor: "pointer",
+};
+
+export const subtleButtonStyle: CSSProperties = {
+  padding: "6px 10px",
+  borderRadius: 6,
+  border: "1px solid #4b5563",
+  background: "#111827",
+  color: "#e5e7eb",
+  cursor: "pointer",
+};
+
+export const dangerButtonStyle: CSSProperties = {
+  ...subtleButtonStyle,
+  background: "#7f1d1d",
+  border: "1px solid #b91c1c",
+};
+
+export const tableHeadCell: CSSProperties = {
+  borderBottom: "1px solid #374151",
+  padding: 6,
+  fontSize: 12,
+  textTransform: "uppercase",
+  letterSpacing: "0.05em",
+  color: "#9ca3af",
+  background: "#020617",
+  textAlign: "left",
+};
+
+export const tableBodyCell: CSSProperties = {
+  borderBottom: "1px solid #1f2933",
+  padding: 6,
+  fontSize: 13,
+};
+
+export const inputStyle: CSSProperties = {
+  padding: 6,
+  borderRadius: 6,
+  border: "1px solid #374151",
+  background: "#020617",
+  color: "#e5e7eb",
+  fontSize: 13,
+};
+
+export const stripeRow = (idx: number): CSSProperties => ({
+  background: idx % 2 === 0 ? "rgba(15,23,42,0.9)" : "rgba(2,6,23,0.9)",
+});
+
+// A tag pill; inactive ones (unselected in a picker) are outlined only.
+export const tagChipStyle = (color: string, active = true): CSSProperties => ({
+  display: "inline-block",
+  padding: "1px 8px",
+  borderRadius: 999,
+  border: `1px solid ${color}`,
+  background: active ? `${color}33` : "transparent",
+  color: active ? "#e5e7eb" : "#9ca3af",
+  fontSize: 12,
+  whiteSpace: "nowrap",
+});
+
+// Full-width control inside a FormField.
+export const fieldInputStyle: CSSProperties = {
+  ...inputStyle,
+  width: "100%",
+  border: "1px solid #4b5563",
+  boxSizing: "border-box",
+};
+
+export const invalidInputStyle: CSSProperties = {
+  ...fieldInputStyle,
+  border: "1px solid #f97373",
+};
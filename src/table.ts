@@ -0,0 +1,114 @@
+import type { ReactNode, CSSProperties } from "react";
+import type { SortKey, TableLayout } from "./types.ts";
+
+export type Column<T> = {
+  id: string;
+  header: string;
+  render: (row: T) => ReactNode;
+  // Value to sort by; columns without one (action buttons) aren't sortable.
+  sortValue?: (row: T) => string | number | null | undefined;
+  align?: "left" | "right";
+  cellStyle?: (row: T) => CSSProperties;
+  hideable?: boolean; // default true
+};
+
+export const EMPTY_LAYOUT: TableLayout = { order: [], hidden: [], sort: [] };
+
+// Saved order first, then columns added since the layout was saved, in
+// their default position.
+export const orderedColumns = <T>(
+  columns: Column<T>[],
+  layout: TableLayout
+): Column<T>[] => {
+  const byId = new Map(columns.map((c) => [c.id, c]));
+  const saved = layout.order.flatMap((id) => byId.get(id) ?? []);
+  const rest = columns.filter((c) => !layout.order.includes(c.id));
+  return [...saved, ...rest];
+};
+
+export const visibleColumns = <T>(
+  columns: Column<T>[],
+  layout: TableLayout
+): Column<T>[] =>
+  orderedColumns(columns, layout).filter(
+    (c) => c.hideable === false || !layout.hidden.includes(c.id)
+  );
+
+export const moveColumn = <T>(
+  columns: Column<T>[],
+  layout: TableLayout,
+  id: string,
+  delta: -1 | 1
+): TableLayout => {
+  const order = orderedColumns(columns, layout).map((c) => c.id);
+  const from = order.indexOf(id);
+  const to = from + delta;
+  if (from === -1 || to < 0 || to >= order.length) return layout;
+  [order[from], order[to]] = [order[to], order[from]];
+  return { ...layout, order };
+};
+
+export const toggleHidden = (layout: TableLayout, id: string): TableLayout => ({
+  ...layout,
+  hidden: layout.hidden.includes(id)
+    ? layout.hidden.filter((h) => h !== id)
+    : [...layout.hidden, id],
+});
+
+// A plain click sorts by the column alone (ascending, then descending, then
+// unsorted); with `additive` (shift-click) it adds or cycles the column as
+// an extra key, keeping the others.
+export const nextSort = (
+  sort: SortKey[],
+  column: string,
+  additive: boolean
+): SortKey[] => {
+  const current = sort.find((k) => k.column === column);
+  const cycled: SortKey | null = !current
+    ? { column, desc: false }
+    : !current.desc
+      ? { column, desc: true }
+      : null;
+  if (!additive) return cycled ? [cycled] : [];
+  if (!current) return [...sort, { column, desc: false }];
+  return sort.flatMap((k) => (k.column !== column ? k : (cycled ?? [])));
+};
+
+const compareValues = (
+  a: string | number | null | undefined,
+  b: string | number | null | undefined
+) => {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+// Stable multi-key sort. Blank values (null, undefined, "") always go last,
+// whichever direction the key sorts.
+export const sortRows = <T>(
+  rows: T[],
+  columns: Column<T>[],
+  sort: SortKey[]
+): T[] => {
+  const keys = sort.flatMap((k) => {
+    const sortValue = columns.find((c) => c.id === k.column)?.sortValue;
+    return sortValue ? [{ sortValue, desc: k.desc }] : [];
+  });
+  if (!keys.length) return rows;
+  const blank = (v: unknown) => v === null || v === undefined || v === "";
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => {
+      for (const { sortValue, desc } of keys) {
+        const va = sortValue(a.row);
+        const vb = sortValue(b.row);
+        if (blank(va) || blank(vb)) {
+          if (blank(va) !== blank(vb)) return blank(va) ? 1 : -1;
+          continue;
+        }
+        const diff = compareValues(va, vb);
+        if (diff !== 0) return desc ? -diff : diff;
+      }
+      return a.index - b.index;
+    })
+    .map((e) => e.row);
+};
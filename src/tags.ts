@@ -0,0 +1,114 @@
+import type { Tag, WatchItem } from "./types.ts";
+
+// New tags take the next colour in turn.
+export const TAG_COLORS = [
+  "#60a5fa",
+  "#4ade80",
+  "#facc15",
+  "#f97316",
+  "#f472b6",
+  "#a78bfa",
+  "#2dd4bf",
+  "#f87171",
+];
+
+export const createTag = (name: string, existing: Tag[]): Tag => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  color: TAG_COLORS[existing.length % TAG_COLORS.length],
+});
+
+export const findTag = (tags: Tag[], name: string) =>
+  tags.find((t) => t.name.toLowerCase() === name.trim().toLowerCase());
+
+// A watch's tags in the order they are defined; ids of deleted tags are
+// skipped.
+export const tagsOf = (w: WatchItem, tags: Tag[]) =>
+  tags.filter((t) => w.tags?.includes(t.id));
+
+// "project; for Dave" in a CSV cell. Commas separate too, so neither can
+// be part of a tag's name.
+const TAG_SEPARATORS = /[;,]/;
+
+export const hasTagSeparator = (name: string) => TAG_SEPARATORS.test(name);
+
+export const parseTagList = (text: string) =>
+  text
+    .split(TAG_SEPARATORS)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+export const formatTagList = (w: WatchItem, tags: Tag[]) =>
+  tagsOf(w, tags)
+    .map((t) => t.name)
+    .join("; ");
+
+export const withTag = (w: WatchItem, id: string): WatchItem =>
+  w.tags?.includes(id) ? w : { ...w, tags: [...(w.tags ?? []), id] };
+
+export const withoutTag = (w: WatchItem, id: string): WatchItem =>
+  w.tags?.includes(id) ? { ...w, tags: w.tags.filter((t) => t !== id) } : w;
+
+// Tag definitions for names in `names` that don't exist yet, e.g. from an
+// imported spreadsheet.
+export const missingTags = (tags: Tag[], names: string[]): Tag[] =>
+  names.reduce<Tag[]>((added, name) => {
+    if (findTag([...tags, ...added], name)) return added;
+    return [...added, createTag(name, [...tags, ...added])];
+  }, []);
+
+export type TagStat = {
+  count: number;
+  capital: number; // cost of the tagged watches still owned
+  profit: number; // net profit of the tagged watches sold
+  wearMinutes: number;
+  sellDays: number; // summed purchase-to-sale days of the sold ones...
+  sellCount: number; // ...and how many of them had both dates
+};
+
+export type TagFigures = {
+  capital: number;
+  profit: number;
+  wearMinutes: number;
+  daysToSell: number | null; // null unless sold with both dates
+};
+
+// Per-tag totals from each watch's figures (in the reporting currency); a
+// watch with several tags counts towards each of them.
+export const tagStats = (
+  watches: WatchItem[],
+  tags: Tag[],
+  figures: (w: WatchItem) => TagFigures
+): Map<string, TagStat> => {
+  const stats = new Map<string, TagStat>(
+    tags.map((t) => [
+      t.id,
+      {
+        count: 0,
+        capital: 0,
+        profit: 0,
+        wearMinutes: 0,
+        sellDays: 0,
+        sellCount: 0,
+      },
+    ])
+  );
+  watches.forEach((w) => {
+    const tagged = tagsOf(w, tags);
+    if (!tagged.length) return;
+    const f = figures(w);
+    tagged.forEach((t) => {
+      const s = stats.get(t.id);
+      if (!s) return;
+      s.count += 1;
+      s.capital += f.capital;
+      s.profit += f.profit;
+      s.wearMinutes += f.wearMinutes;
+      if (f.daysToSell !== null) {
+        s.sellDays += f.daysToSell;
+        s.sellCount += 1;
+      }
+    });
+  });
+  return stats;
+};
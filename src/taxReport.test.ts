@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildTaxReport,
+  DEFAULT_TAX_SETTINGS,
+  isMonthDay,
+  type TaxInput,
+} from "./taxReport.ts";
+
+const input = (id: string, fields: Partial<TaxInput>): TaxInput => ({
+  id,
+  model: `Watch ${id}`,
+  purchaseDate: "2024-06-01",
+  dateSold: null,
+  purchase: 100,
+  extraCosts: 20,
+  proceeds: null,
+  fees: null,
+  ...fields,
+});
+
+describe("buildTaxReport inventory", () => {
+  const holdings = [
+    input("known", {}),
+    input("no rate", { purchase: null }),
+    input("bought", { purchaseDate: "2025-03-01", extraCosts: null }),
+  ];
+  const { inventory } = buildTaxReport(
+    2025,
+    [],
+    holdings,
+    DEFAULT_TAX_SETTINGS
+  );
+
+  it("leaves watches with an unknown cost out of the sums", () => {
+    expect(inventory.opening).toBe(120);
+    expect(inventory.purchases).toBe(0);
+    expect(inventory.closing).toBe(120);
+  });
+
+  it("counts them as incomplete and carries them over without a basis", () => {
+    expect(inventory.incomplete).toBe(2);
+    expect(inventory.carried.map((c) => c.basis)).toEqual([120, null, null]);
+  });
+});
+
+describe("isMonthDay", () => {
+  it("accepts only days every year has", () => {
+    expect(["01-01", "02-28", "04-30", "12-31"].every(isMonthDay)).toBe(true);
+    const invalid = ["02-29", "02-30", "04-31", "13-01", "00-10", "1-1"];
+    expect(invalid.filter(isMonthDay)).toEqual([]);
+  });
+});
@@ -0,0 +1,423 @@
+import type { TaxSettings } from "./types.ts";
+import { toCSV } from "./csv.ts";
+import { toCurrency } from "./currency.ts";
+import { dayKey } from "./charts.ts";
+import { holdingDays } from "./turnover.ts";
+
+// Builds the tax-year report from the Sold tab's rows. Amounts come in
+// already converted to the reporting currency; null means a missing figure
+// or exchange rate, and such lines are flagged rather than counted as 0.
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  fiscalYearStart: "01-01",
+  longTermMonths: 12,
+  treatment: "hobby",
+  costBasis: "full",
+};
+
+// Days in a month of a common year: a fiscal year can't start on a day
+// that some years don't have.
+export const monthLength = (month: number) =>
+  new Date(2001, month, 0).getDate();
+
+export const isMonthDay = (v: unknown): v is string => {
+  if (typeof v !== "string" || !/^\d{2}-\d{2}$/.test(v)) return false;
+  const [month, day] = v.split("-").map(Number);
+  return month >= 1 && month <= 12 && day >= 1 && day <= monthLength(month);
+};
+
+const shiftDate = (day: string, months: number, days = 0) => {
+  const [y, m, d] = day.split("-").map(Number);
+  return dayKey(new Date(y, m - 1 + months, d + days));
+};
+
+// Fiscal years are named by the calendar year they start in.
+export const fiscalYearOf = (day: string, start: string) => {
+  const year = Number(day.slice(0, 4));
+  return day.slice(5, 10) >= start ? year : year - 1;
+};
+
+export const fiscalYearRange = (year: number, start: string) => ({
+  from: `${year}-${start}`,
+  to: shiftDate(`${year + 1}-${start}`, 0, -1),
+});
+
+// "2025", or "2025/26" when the year doesn't start in January.
+export const fiscalYearLabel = (year: number, start: string) =>
+  start === "01-01"
+    ? String(year)
+    : `${year}/${String((year + 1) % 100).padStart(2, "0")}`;
+
+export type TaxInput = {
+  id: string;
+  model: string;
+  purchaseDate?: string | null;
+  dateSold?: string | null; // null while still owned
+  purchase: number | null; // price paid
+  extraCosts: number | null; // parts and service on top of the price
+  proceeds: number | null; // sale price; unused for unsold watches
+  fees: number | null; // selling fees
+};
+
+export type HoldingTerm = "short" | "long" | "unknown";
+
+export type TaxLine = {
+  id: string;
+  model: string;
+  acquired: string | null;
+  sold: string;
+  daysHeld: number | null;
+  term: HoldingTerm;
+  proceeds: number | null;
+  fees: number | null;
+  basis: number | null;
+  expenses: number | null; // parts and service outside the basis
+  gain: number | null;
+};
+
+export type InventoryCarryOver = {
+  opening: number; // cost of what was owned the day the year started
+  purchases: number; // cost of what was bought during the year
+  closing: number; // cost of what was still owned when it ended
+  carried: { model: string; acquired: string; basis: number | null }[];
+  incomplete: number; // watches left out of the sums for a missing cost
+};
+
+export type TaxReport = {
+  year: number;
+  label: string;
+  from: string;
+  to: string;
+  settings: TaxSettings;
+  lines: TaxLine[];
+  proceeds: number;
+  fees: number;
+  basis: number;
+  expenses: number;
+  shortTermGain: number;
+  longTermGain: number;
+  disallowedLosses: number; // hobby losses, which don't reduce the total
+  taxable: number;
+  incomplete: number; // lines left out of the totals for a missing figure
+  inventory: InventoryCarryOver;
+};
+
+// Long-term means held for more than `months` months.
+export const holdingTerm = (
+  acquired: string | null | undefined,
+  sold: string,
+  months: number
+): HoldingTerm => {
+  if (!acquired) return "unknown";
+  return sold > shiftDate(acquired.slice(0, 10), months) ? "long" : "short";
+};
+
+const sum = (values: (number | null)[]) =>
+  values.reduce<number>((total, v) => total + (v ?? 0), 0);
+
+const basisOf = (w: TaxInput, settings: TaxSettings) =>
+  settings.costBasis === "full"
+    ? w.purchase === null || w.extraCosts === null
+      ? null
+      : w.purchase + w.extraCosts
+    : w.purchase;
+
+const taxLine = (w: TaxInput, sold: string, settings: TaxSettings) => {
+  const acquired = w.purchaseDate ? w.purchaseDate.slice(0, 10) : null;
+  const basis = basisOf(w, settings);
+  const expenses = settings.costBasis === "full" ? 0 : w.extraCosts;
+  // Hobby sellers can't deduct costs they left out of the basis.
+  const deductible = settings.treatment === "business" ? expenses : 0;
+  const gain =
+    w.proceeds === null ||
+    w.fees === null ||
+    basis === null ||
+    deductible === null
+      ? null
+      : w.proceeds - w.fees - basis - deductible;
+  return {
+    id: w.id,
+    model: w.model,
+    acquired,
+    sold,
+    daysHeld: holdingDays(acquired, sold),
+    term: holdingTerm(acquired, sold, settings.longTermMonths),
+    proceeds: w.proceeds,
+    fees: w.fees,
+    basis,
+    expenses,
+    gain,
+  };
+};
+
+// `sold` are the rows to report on (already filtered the way the Sold tab
+// is); `holdings` is every watch, for the inventory carried over.
+export const buildTaxReport = (
+  year: number,
+  sold: TaxInput[],
+  holdings: TaxInput[],
+  settings: TaxSettings
+): TaxReport => {
+  const { from, to } = fiscalYearRange(year, settings.fiscalYearStart);
+  const lines = sold
+    .filter((w) => {
+      const day = w.dateSold?.slice(0, 10);
+      return !!day && day >= from && day <= to;
+    })
+    .map((w) => taxLine(w, String(w.dateSold).slice(0, 10), settings))
+    .sort((a, b) => a.sold.localeCompare(b.sold));
+  const counted = lines.filter((l) => l.gain !== null);
+  // Undated purchases can't prove a long holding, so they count as short.
+  const byTerm = (long: boolean) =>
+    counted.filter((l) => (l.term === "long") === long);
+  const hobby = settings.treatment === "hobby";
+  const total = (ls: TaxLine[]) =>
+    sum(ls.map((l) => (hobby ? Math.max(0, l.gain ?? 0) : l.gain)));
+  const shortTermGain = total(byTerm(false));
+  const longTermGain = total(byTerm(true));
+  const disallowedLosses = hobby
+    ? -sum(counted.map((l) => Math.min(0, l.gain ?? 0)))
+    : 0;
+
+  // Sold watches without a sale date can't be placed, so they're left out.
+  const owned = (w: TaxInput, day: string) =>
+    !!w.purchaseDate &&
+    w.purchaseDate.slice(0, 10) <= day &&
+    (w.dateSold === null || (!!w.dateSold && w.dateSold.slice(0, 10) > day));
+  const dayBefore = shiftDate(from, 0, -1);
+  const openingStock = holdings.filter((w) => owned(w, dayBefore));
+  const bought = holdings.filter(
+    (w) =>
+      !!w.purchaseDate &&
+      w.purchaseDate.slice(0, 10) >= from &&
+      w.purchaseDate.slice(0, 10) <= to
+  );
+  const closingStock = holdings.filter((w) => owned(w, to));
+  const carried = closingStock
+    .map((w) => ({
+      model: w.model,
+      acquired: String(w.purchaseDate).slice(0, 10),
+      basis: basisOf(w, settings),
+    }))
+    .sort((a, b) => a.acquired.localeCompare(b.acquired));
+  const unknownBasis = new Set(
+    [...openingStock, ...bought, ...closingStock]
+      .filter((w) => basisOf(w, settings) === null)
+      .map((w) => w.id)
+  );
+
+  return {
+    year,
+    label: fiscalYearLabel(year, settings.fiscalYearStart),
+    from,
+    to,
+    settings,
+    lines,
+    proceeds: sum(counted.map((l) => l.proceeds)),
+    fees: sum(counted.map((l) => l.fees)),
+    basis: sum(counted.map((l) => l.basis)),
+    expenses: sum(counted.map((l) => l.expenses)),
+    shortTermGain,
+    longTermGain,
+    disallowedLosses,
+    taxable: shortTermGain + longTermGain,
+    incomplete: lines.length - counted.length,
+    inventory: {
+      opening: sum(openingStock.map((w) => basisOf(w, settings))),
+      purchases: sum(bought.map((w) => basisOf(w, settings))),
+      closing: sum(carried.map((c) => c.basis)),
+      carried,
+      incomplete: unknownBasis.size,
+    },
+  };
+};
+
+const TERM_LABELS: Record<HoldingTerm, string> = {
+  short: "Short-term",
+  long: "Long-term",
+  unknown: "Short-term (no purchase date)",
+};
+
+// Label/value pairs shared by the CSV and the printable page.
+export const taxSummary = (
+  report: TaxReport
+): [label: string, value: number][] => {
+  const hobby = report.settings.treatment === "hobby";
+  return [
+    ["Proceeds", report.proceeds],
+    ["Selling fees", report.fees],
+    ["Cost basis", report.basis],
+    ...(report.settings.costBasis === "purchase"
+      ? [
+          [
+            hobby
+              ? "Parts and service (not deductible)"
+              : "Parts and service expenses",
+            report.expenses,
+          ] as [string, number],
+        ]
+      : []),
+    [hobby ? "Short-term gains" : "Short-term result", report.shortTermGain],
+    [hobby ? "Long-term gains" : "Long-term result", report.longTermGain],
+    ...(hobby
+      ? [["Losses not allowed", report.disallowedLosses] as [string, number]]
+      : []),
+    [hobby ? "Taxable gains" : "Net business profit", report.taxable],
+    ["Inventory at start of year", report.inventory.opening],
+    ["Bought during the year", report.inventory.purchases],
+    ["Inventory carried over", report.inventory.closing],
+  ];
+};
+
+export const taxReportCSV = (report: TaxReport, currency: string) => {
+  const header = [
+    "Date Acquired",
+    "Date Sold",
+    "Model",
+    "Days Held",
+    "Term",
+    `Proceeds (${currency})`,
+    `Fees (${currency})`,
+    `Cost Basis (${currency})`,
+    `Expenses (${currency})`,
+    `Gain/Loss (${currency})`,
+  ];
+  const rows = report.lines.map((l) => [
+    l.acquired ?? "",
+    l.sold,
+    l.model,
+    l.daysHeld ?? "",
+    TERM_LABELS[l.term],
+    l.proceeds ?? "",
+    l.fees ?? "",
+    l.basis ?? "",
+    l.expenses ?? "",
+    l.gain ?? "",
+  ]);
+  return toCSV([
+    [`Tax year ${report.label}`, `${report.from} to ${report.to}`],
+    [],
+    header,
+    ...rows,
+    [],
+    ...taxSummary(report),
+    ...(report.inventory.incomplete
+      ? [
+          [
+            "Inventory missing a cost (not counted)",
+            report.inventory.incomplete,
+          ],
+        ]
+      : []),
+    [],
+    ["Carried over", "Date Acquired", `Cost Basis (${currency})`],
+    ...report.inventory.carried.map((c) => [
+      c.model,
+      c.acquired,
+      c.basis ?? "",
+    ]),
+  ]);
+};
+
+const escapeHTML = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// A standalone page meant for the browser's print dialog ("Save as PDF").
+export const taxReportHTML = (report: TaxReport, currency: string) => {
+  const money = (v: number | null) => escapeHTML(toCurrency(v, currency));
+  const cell = (v: string, num = false) =>
+    `<td${num ? ' class="num"' : ""}>${v}</td>`;
+  const treatment =
+    report.settings.treatment === "hobby"
+      ? "Hobby / personal use: losses don't offset gains."
+      : "Business: all sales and expenses count.";
+  const basis =
+    report.settings.costBasis === "full"
+      ? "Cost basis includes parts and service."
+      : "Cost basis is the purchase price only.";
+  const lines = report.lines
+    .map(
+      (l) =>
+        `<tr>${[
+          cell(l.acquired ?? "—"),
+          cell(l.sold),
+          cell(escapeHTML(l.model)),
+          cell(TERM_LABELS[l.term]),
+          cell(money(l.proceeds), true),
+          cell(money(l.fees), true),
+          cell(money(l.basis), true),
+          cell(money(l.expenses), true),
+          cell(money(l.gain), true),
+        ].join("")}</tr>`
+    )
+    .join("\n");
+  const summary = taxSummary(report)
+    .map(([label, v]) => `<tr>${cell(label)}${cell(money(v), true)}</tr>`)
+    .join("\n");
+  const carried = report.inventory.carried
+    .map(
+      (c) =>
+        `<tr>${cell(escapeHTML(c.model))}${cell(c.acquired)}${cell(
+          money(c.basis),
+          true
+        )}</tr>`
+    )
+    .join("\n");
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Tax report ${escapeHTML(report.label)}</title>
+<style>
+  body { font: 13px/1.4 system-ui, sans-serif; color: #111; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 8px; }
+  p { margin: 2px 0; color: #444; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #ddd; padding: 4px 6px; text-align: left; }
+  th { background: #f3f4f6; }
+  .num { text-align: right; white-space: nowrap; }
+  .summary { width: auto; min-width: 360px; }
+  @media print { button { display: none; } }
+</style>
+</head>
+<body>
+<button onclick="window.print()">Print / save as PDF</button>
+<h1>Tax year ${escapeHTML(report.label)}</h1>
+<p>${report.from} to ${report.to} · amounts in ${escapeHTML(currency)}</p>
+<p>${treatment} ${basis} Long-term means held over ${
+    report.settings.longTermMonths
+  } months.</p>
+${
+  report.incomplete
+    ? `<p><strong>${report.incomplete} sale(s) are missing a price or exchange rate and are left out of the totals.</strong></p>`
+    : ""
+}
+${
+  report.inventory.incomplete
+    ? `<p><strong>${report.inventory.incomplete} watch(es) in inventory are missing a cost or exchange rate and are left out of the inventory figures.</strong></p>`
+    : ""
+}
+<h2>Summary</h2>
+<table class="summary">
+${summary}
+</table>
+<h2>Sales (${report.lines.length})</h2>
+<table>
+<tr><th>Acquired</th><th>Sold</th><th>Model</th><th>Term</th><th class="num">Proceeds</th><th class="num">Fees</th><th class="num">Cost basis</th><th class="num">Expenses</th><th class="num">Gain/loss</th></tr>
+${lines}
+</table>
+<h2>Carried over at year end (${report.inventory.carried.length})</h2>
+<table>
+<tr><th>Model</th><th>Acquired</th><th class="num">Cost basis</th></tr>
+${carried}
+</table>
+</body>
+</html>
+`;
+};
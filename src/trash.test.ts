@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { HistoryEntry, WatchItem, WearLog } from "./types.ts";
+import { createEntry, pushEntry } from "./history.ts";
+import { purgeExpiredTrash } from "./trash.ts";
+
+const watch = (id: string, deletedAt: string | null = null): WatchItem => ({
+  id,
+  model: `Watch ${id}`,
+  purchasePrice: 100,
+  partsCost: 0,
+  status: "Available",
+  deletedAt,
+});
+
+const log = (id: string, watchId: string): WearLog => ({
+  id,
+  watchId,
+  start: "2025-01-01T08:00:00.000Z",
+  end: "2025-01-01T18:00:00.000Z",
+});
+
+describe("purgeExpiredTrash", () => {
+  const now = new Date("2025-03-01T00:00:00.000Z");
+  const old = watch("old", "2025-01-01T00:00:00.000Z");
+  const recent = watch("recent", "2025-02-25T00:00:00.000Z");
+  const kept = watch("kept");
+  const logs = [log("l1", "old"), log("l2", "kept")];
+
+  let history: HistoryEntry[] = [];
+  history = pushEntry(
+    history,
+    createEntry("Added watches", [
+      { store: "items", id: "old", before: null, after: old },
+      { store: "items", id: "kept", before: null, after: kept },
+    ])
+  );
+  history = pushEntry(
+    history,
+    createEntry("Logged wear", [
+      { store: "wearLogs", id: "l1", before: null, after: logs[0] },
+    ])
+  );
+
+  const result = purgeExpiredTrash([old, recent, kept], logs, history, 30, now);
+
+  it("drops watches past their retention with their wear logs", () => {
+    expect(result.items).toEqual([recent, kept]);
+    expect(result.wearLogs).toEqual([logs[1]]);
+  });
+
+  it("removes the purged records from the history", () => {
+    expect(result.history.map((e) => e.label)).toEqual(["Added watches"]);
+    expect(result.history[0].changes.map((c) => c.id)).toEqual(["kept"]);
+  });
+
+  it("leaves everything alone when nothing expired", () => {
+    const same = purgeExpiredTrash([recent], logs, history, 30, now);
+    expect(same.history).toBe(history);
+  });
+});
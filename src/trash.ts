@@ -0,0 +1,61 @@
+import type { HistoryEntry, WatchItem, WearLog } from "./types.ts";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const isTrashed = (w: WatchItem) => Boolean(w.deletedAt);
+
+export const moveToTrash = (w: WatchItem, now: string): WatchItem => ({
+  ...w,
+  deletedAt: now,
+});
+
+export const restoreFromTrash = (w: WatchItem): WatchItem => ({
+  ...w,
+  deletedAt: null,
+});
+
+// When a trashed watch will be deleted for good.
+export const purgeDate = (w: WatchItem, retentionDays: number) =>
+  new Date(new Date(w.deletedAt!).getTime() + retentionDays * 86400000);
+
+// Removes every trace of the watches from the undo history, so a watch
+// deleted for good can't come back through undo or redo. Entries left with
+// nothing to change are dropped.
+export const forgetWatches = (
+  history: HistoryEntry[],
+  ids: Set<string>
+): HistoryEntry[] =>
+  history
+    .map((e) => ({
+      ...e,
+      changes: e.changes.filter((c) => {
+        if (c.store === "items") return !ids.has(c.id);
+        if (c.store === "wearLogs") {
+          return ![c.before, c.after].some((l) => l && ids.has(l.watchId));
+        }
+        return true;
+      }),
+    }))
+    .filter((e) => e.changes.length);
+
+// Permanently drops watches whose retention ran out, with their wear logs
+// and their history.
+export const purgeExpiredTrash = (
+  items: WatchItem[],
+  wearLogs: WearLog[],
+  history: HistoryEntry[],
+  retentionDays: number,
+  now: Date = new Date()
+) => {
+  const expired = new Set(
+    items
+      .filter((w) => isTrashed(w) && purgeDate(w, retentionDays) <= now)
+      .map((w) => w.id)
+  );
+  if (!expired.size) return { items, wearLogs, history };
+  return {
+    items: items.filter((w) => !expired.has(w.id)),
+    wearLogs: wearLogs.filter((l) => !expired.has(l.watchId)),
+    history: forgetWatches(history, expired),
+  };
+};
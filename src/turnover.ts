@@ -0,0 +1,49 @@
+// How fast watches sell and what the money earned while tied up in them.
+
+// Whole days from purchase to `until` ("YYYY-MM-DD", the sale date or today);
+// null without a purchase date.
+export const holdingDays = (
+  purchaseDate: string | null | undefined,
+  until: string
+): number | null => {
+  if (!purchaseDate) return null;
+  const utc = (day: string) => {
+    const [y, m, d] = day.slice(0, 10).split("-").map(Number);
+    return Date.UTC(y, m - 1, d);
+  };
+  const days = Math.round((utc(until) - utc(purchaseDate)) / 86400000);
+  return Number.isNaN(days) ? null : Math.max(0, days);
+};
+
+// Compounded yearly return of one flip: (1 + profit/cost)^(365/days) − 1.
+// Same-day flips count as a day; null when cost or profit is unknown.
+export const annualisedReturn = (
+  profit: number | null,
+  cost: number | null,
+  days: number | null
+): number | null => {
+  if (profit === null || cost === null || cost <= 0 || days === null) {
+    return null;
+  }
+  const growth = 1 + profit / cost;
+  return growth <= 0 ? -1 : growth ** (365 / Math.max(days, 1)) - 1;
+};
+
+// Quick flips compound into absurd figures, so those are capped for display.
+export const formatReturn = (r: number | null) => {
+  if (r === null) return "—";
+  if (r > 100) return ">10,000%";
+  return `${(r * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+};
+
+export const averageDays = (days: (number | null)[]) => {
+  const known = days.filter((d): d is number => d !== null);
+  return known.length
+    ? known.reduce((sum, d) => sum + d, 0) / known.length
+    : null;
+};
+
+// Cost of the watches sold over a period divided by the average cost of
+// inventory held over it: how many times the stock turned over.
+export const turnoverRatio = (costOfSales: number, averageInventory: number) =>
+  averageInventory > 0 ? costOfSales / averageInventory : null;
@@ -0,0 +1,297 @@
+import type { DateFormat, NumberFormat } from "./formats.ts";
+
+export type WatchItem = {
+  id: string;
+  model: string;
+  purchasePrice: number;
+  partsCost: number;
+  postedPrice?: number | null;
+  soldPrice?: number | null;
+  // ISO 4217 code per price; missing means USD (data from before currencies)
+  purchaseCurrency?: string;
+  partsCurrency?: string;
+  postedCurrency?: string;
+  soldCurrency?: string;
+  status: string; // a LifecycleStatus name, e.g. "Available", "Listed", "Sold"
+  statusHistory?: StatusChange[];
+  dateSold?: string | null; // YYYY-MM-DD
+  purchaseDate?: string | null; // YYYY-MM-DD
+  notes?: string;
+  // Identification; serial is the most reliable match key after the ID.
+  brand?: string;
+  reference?: string;
+  serial?: string;
+  movement?: string; // calibre
+  caseSizeMm?: number | null;
+  caseMaterial?: string;
+  year?: number | null; // production year
+  hasBox?: boolean; // undefined = not recorded
+  hasPapers?: boolean;
+  tags?: string[]; // Tag ids
+  // Sales channel (fee profile name) and selling costs, in the sale currency
+  saleChannel?: string;
+  saleFees?: SaleFees;
+  // Set while the watch is in the Trash (ISO timestamp); purged after the
+  // retention period.
+  deletedAt?: string | null;
+  // Itemised parts/service spend; when present, partsCost is its total.
+  costLedger?: CostEntry[];
+  // Where and for how much it was advertised; when present, postedPrice is
+  // the current open listing's price.
+  listings?: Listing[];
+  // Contact ids: who it was bought from and sold to.
+  sellerId?: string | null;
+  buyerId?: string | null;
+  offers?: Offer[]; // offers received while it was for sale
+};
+
+// When a photo was taken in the watch's life; drives the gallery filter.
+export type PhotoStage = "purchase" | "service" | "listing" | "other";
+
+// Photos are stored on their own (not on WatchItem) so the watch list stays
+// small and photos stay out of the undo history.
+export type WatchPhoto = {
+  id: string;
+  watchId: string;
+  stage: PhotoStage;
+  caption?: string;
+  addedAt: string; // ISO timestamp
+  type: string; // MIME type of `blob`
+  width: number;
+  height: number;
+  blob: Blob; // resized original
+  thumbnail: Blob;
+};
+
+export type CostEntry = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  vendor: string;
+  category: string;
+  amount: number;
+  currency: string;
+  note?: string;
+};
+
+// One asking price on one channel. A price change closes the listing and
+// opens a new one, so the log keeps every price the watch was offered at.
+export type Listing = {
+  id: string;
+  channel: string;
+  listed: string; // YYYY-MM-DD
+  // A price posted before the log: the real listing date isn't known and
+  // `listed` is only the purchase date, kept for ordering.
+  listedUnknown?: boolean;
+  price: number;
+  currency: string;
+  delisted?: string | null; // YYYY-MM-DD; open while null
+  notes?: string; // views, watchers, offers...
+};
+
+// Someone a watch was bought from or sold to (or who made an offer).
+export type Contact = {
+  id: string;
+  name: string;
+  platform?: string; // e.g. eBay, Chrono24, a forum
+  handle?: string; // username on that platform
+  email?: string;
+  notes?: string;
+};
+
+export type OfferStatus = "pending" | "accepted" | "declined";
+
+export type Offer = {
+  id: string;
+  contactId?: string | null; // null when the buyer isn't in the contacts
+  date: string; // YYYY-MM-DD
+  amount: number;
+  currency: string;
+  status: OfferStatus;
+  note?: string;
+};
+
+export type StatusChange = {
+  from: string | null; // null for the first status of a new watch
+  to: string;
+  at: string; // ISO timestamp
+};
+
+// Which tab a status belongs to: Inventory, Sold (sale recorded, counted in
+// P/L) or Archived (hidden from Inventory, still in Stats).
+export type StatusGroup = "inventory" | "sold" | "archived";
+
+export type LifecycleStatus = {
+  name: string;
+  group: StatusGroup;
+  wearable: boolean;
+};
+
+export type Lifecycle = {
+  statuses: LifecycleStatus[];
+  transitions: Record<string, string[]>; // status name -> allowed next ones
+};
+
+export type SaleFees = {
+  platform: number; // marketplace commission
+  payment: number; // PayPal / card processing
+  shipping: number;
+  tax: number; // sales tax remitted
+};
+
+// How a sales channel charges, e.g. eBay 13.25% + 0.30 per sale. Fixed parts
+// are in the currency of the sale.
+export type FeeProfile = {
+  id: string;
+  name: string;
+  platformPercent: number;
+  platformFixed: number;
+  paymentPercent: number;
+  paymentFixed: number;
+};
+
+export type WearLog = {
+  id: string;
+  watchId: string;
+  start: string; // ISO datetime
+  end: string | null; // ISO datetime or null if still wearing
+};
+
+export type Settings = {
+  maxSessionHours: number; // open wear sessions are capped/auto-closed after this
+  reportingCurrency: string; // totals and profit are converted into this
+  feeProfiles: FeeProfile[];
+  trashRetentionDays: number; // trashed watches are purged after this
+  lifecycle: Lifecycle;
+  savedSearches: SavedSearch[];
+  tags: Tag[];
+  tableLayouts: Partial<Record<TableId, TableLayout>>;
+  tax: TaxSettings;
+  priceDropDays: number; // remind to cut the price of listings older than this
+};
+
+// Hobby: personal-use sales, where losses don't offset gains. Business:
+// dealing income, where every sale and expense counts.
+export type TaxTreatment = "hobby" | "business";
+
+// "full" puts parts and service costs into a watch's cost basis; "purchase"
+// keeps the basis to the price paid and lists those costs as expenses.
+export type CostBasisMethod = "full" | "purchase";
+
+export type TaxSettings = {
+  fiscalYearStart: string; // "MM-DD", e.g. "04-06" for the UK tax year
+  longTermMonths: number; // held longer than this is a long-term gain
+  treatment: TaxTreatment;
+  costBasis: CostBasisMethod;
+};
+
+export type TableId = "inventory" | "sold" | "wear" | "stats";
+
+export type SortKey = {
+  column: string; // Column.id
+  desc: boolean;
+};
+
+// A table's column order, hidden columns and sort keys (first key wins).
+export type TableLayout = {
+  order: string[];
+  hidden: string[];
+  sort: SortKey[];
+};
+
+// A user-defined collection ("project", "keeper", "for Dave", ...).
+export type Tag = {
+  id: string;
+  name: string;
+  color: string; // CSS hex colour
+};
+
+// A named search-box query (see query.ts for the syntax).
+export type SavedSearch = {
+  id: string;
+  name: string;
+  query: string;
+};
+
+// 1 `base` = `rate` `quote`, as of `date`.
+export type ExchangeRate = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  base: string;
+  quote: string;
+  rate: number;
+};
+
+// WatchItem fields a CSV column can feed.
+export type ImportField =
+  | "id"
+  | "model"
+  | "purchaseDate"
+  | "purchasePrice"
+  | "partsCost"
+  | "postedPrice"
+  | "soldPrice"
+  | "status"
+  | "dateSold"
+  | "notes"
+  | "purchaseCurrency"
+  | "partsCurrency"
+  | "postedCurrency"
+  | "soldCurrency"
+  | "brand"
+  | "reference"
+  | "serial"
+  | "movement"
+  | "caseSizeMm"
+  | "caseMaterial"
+  | "year"
+  | "hasBox"
+  | "hasPapers"
+  | "tags";
+
+// Remembered column assignments for a spreadsheet layout (eBay, Chrono24, ...).
+export type MappingProfile = {
+  id: string;
+  name: string;
+  headers: string[]; // normalised source headers this profile was saved for
+  columns: Record<string, ImportField>; // normalised header -> field
+  dateFormat: DateFormat;
+  numberFormat: NumberFormat;
+  updatedAt: string; // ISO timestamp
+};
+
+// One undoable change: the record as it was before and after (null when it
+// didn't exist / was deleted).
+export type RecordChange =
+  | {
+      store: "items";
+      id: string;
+      before: WatchItem | null;
+      after: WatchItem | null;
+    }
+  | {
+      store: "wearLogs";
+      id: string;
+      before: WearLog | null;
+      after: WearLog | null;
+    }
+  | {
+      store: "contacts";
+      id: string;
+      before: Contact | null;
+      after: Contact | null;
+    }
+  | {
+      store: "tags";
+      id: string;
+      before: Tag | null;
+      after: Tag | null;
+    };
+
+export type HistoryEntry = {
+  id: string;
+  seq: number; // order of the actions
+  label: string; // e.g. "Delete Seiko SKX007"
+  at: string; // ISO timestamp
+  undone: boolean; // undone entries form the redo stack
+  changes: RecordChange[];
+};
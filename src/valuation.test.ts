@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { inventoryValuation, type ValuationInput } from "./valuation.ts";
+
+const input = (
+  id: string,
+  fields: Partial<ValuationInput>
+): ValuationInput => ({
+  id,
+  model: `Watch ${id}`,
+  purchaseDate: "2025-05-20",
+  totalCost: 100,
+  posted: null,
+  ...fields,
+});
+
+describe("inventoryValuation", () => {
+  const valuation = inventoryValuation(
+    [
+      input("known", { posted: 150 }),
+      input("no rate", { totalCost: null, posted: 400 }),
+      input("old", { purchaseDate: "2024-01-01", totalCost: null }),
+    ],
+    new Date(2025, 5, 1)
+  );
+
+  it("leaves watches with an unknown cost out of the amounts", () => {
+    expect(valuation.cost).toBe(100);
+    expect(valuation.posted).toBe(150);
+    expect(valuation.listed).toBe(1);
+    expect(valuation.expectedProfit).toBe(50);
+  });
+
+  it("counts them as incomplete, overall and per age bucket", () => {
+    expect(valuation.count).toBe(3);
+    expect(valuation.incomplete).toBe(2);
+    expect(
+      valuation.buckets.map(({ count, cost, incomplete }) => ({
+        count,
+        cost,
+        incomplete,
+      }))
+    ).toEqual([
+      { count: 2, cost: 100, incomplete: 1 },
+      { count: 0, cost: 0, incomplete: 0 },
+      { count: 0, cost: 0, incomplete: 0 },
+      { count: 1, cost: 0, incomplete: 1 },
+    ]);
+  });
+});
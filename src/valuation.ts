@@ -0,0 +1,113 @@
+import { dayKey } from "./charts.ts";
+import { holdingDays } from "./turnover.ts";
+
+// What the unsold watches are worth: their cost, their asking prices and how
+// long they've been waiting. Amounts are in the reporting currency; a watch
+// whose cost is unknown (e.g. a missing rate) is counted as incomplete and
+// left out of the amounts rather than valued at 0.
+
+export type ValuationInput = {
+  id: string;
+  model: string;
+  purchaseDate?: string | null;
+  totalCost: number | null;
+  posted: number | null; // asking price, if listed
+};
+
+export type AgeingBucket = {
+  label: string;
+  minDays: number;
+  maxDays: number | null; // open-ended when null
+  count: number;
+  cost: number;
+  incomplete: number; // watches in the bucket with an unknown cost
+};
+
+export type SlowMover = {
+  id: string;
+  model: string;
+  days: number;
+  totalCost: number | null;
+  stale: boolean; // older than the last bucket's start
+};
+
+export type InventoryValuation = {
+  count: number;
+  cost: number;
+  posted: number; // asking prices of the listed watches with a known cost
+  listed: number;
+  // Posted price minus cost for the listed watches, before selling fees.
+  expectedProfit: number;
+  buckets: AgeingBucket[];
+  undated: number; // no purchase date, so not in any bucket
+  slowest: SlowMover[];
+  incomplete: number; // unknown cost, left out of cost, posted and profit
+};
+
+const BUCKETS: [label: string, minDays: number, maxDays: number | null][] = [
+  ["0–30 days", 0, 30],
+  ["31–90 days", 31, 90],
+  ["91–180 days", 91, 180],
+  ["180+ days", 181, null],
+];
+
+export const STALE_AFTER_DAYS = 180;
+
+export const inventoryValuation = (
+  watches: ValuationInput[],
+  today: Date,
+  slowestCount = 5
+): InventoryValuation => {
+  const buckets: AgeingBucket[] = BUCKETS.map(([label, minDays, maxDays]) => ({
+    label,
+    minDays,
+    maxDays,
+    count: 0,
+    cost: 0,
+    incomplete: 0,
+  }));
+  const aged: SlowMover[] = [];
+  let undated = 0;
+
+  watches.forEach((w) => {
+    const days = holdingDays(w.purchaseDate, dayKey(today));
+    if (days === null) {
+      undated += 1;
+      return;
+    }
+    const bucket = buckets.find(
+      (b) => days >= b.minDays && (b.maxDays === null || days <= b.maxDays)
+    );
+    if (bucket) {
+      bucket.count += 1;
+      if (w.totalCost === null) bucket.incomplete += 1;
+      else bucket.cost += w.totalCost;
+    }
+    aged.push({
+      id: w.id,
+      model: w.model,
+      days,
+      totalCost: w.totalCost,
+      stale: days > STALE_AFTER_DAYS,
+    });
+  });
+
+  const known = watches.filter(
+    (w): w is ValuationInput & { totalCost: number } => w.totalCost !== null
+  );
+  const listed = known.filter((w) => w.posted !== null);
+  return {
+    count: watches.length,
+    cost: known.reduce((sum, w) => sum + w.totalCost, 0),
+    posted: listed.reduce((sum, w) => sum + (w.posted ?? 0), 0),
+    listed: listed.length,
+    expectedProfit: listed.reduce(
+      (sum, w) => sum + (w.posted ?? 0) - w.totalCost,
+      0
+    ),
+    buckets,
+    undated,
+    slowest: aged.sort((a, b) => b.days - a.days).slice(0, slowestCount),
+    incomplete: watches.length - known.length,
+  };
+};
@@ -0,0 +1,233 @@
+import type { FeeProfile, SaleFees, WatchItem } from "./types.ts";
+import { currencyOf } from "./currency.ts";
+import { feesFor, totalFees } from "./fees.ts";
+import { parseAmount } from "./formats.ts";
+import { AVAILABLE } from "./lifecycle.ts";
+import { isProductionYear } from "./attributes.ts";
+import { dayKey } from "./charts.ts";
+
+// add: Quick Add; edit: details of any watch; sell / editSale: the sale.
+export type WatchFormMode = "add" | "edit" | "sell" | "editSale";
+
+// "" = not recorded.
+export type Flag = "" | "yes" | "no";
+
+// Raw input strings, so half-typed values survive re-renders.
+export type WatchFormValues = {
+  model: string;
+  purchaseDate: string;
+  purchasePrice: string;
+  purchaseCurrency: string;
+  partsCost: string;
+  postedPrice: string;
+  postedCurrency: string;
+  notes: string;
+  brand: string;
+  reference: string;
+  serial: string;
+  movement: string;
+  caseSize: string;
+  caseMaterial: string;
+  year: string;
+  hasBox: Flag;
+  hasPapers: Flag;
+  sellerId: string; // contact id, "" for none
+  soldPrice: string;
+  soldCurrency: string;
+  dateSold: string;
+  saleChannel: string;
+  platformFee: string;
+  paymentFee: string;
+  shipping: string;
+  tax: string;
+  buyerId: string;
+};
+
+export type WatchFormErrors = Partial<Record<keyof WatchFormValues, string>>;
+
+export const isSaleMode = (mode: WatchFormMode) =>
+  mode === "sell" || mode === "editSale";
+
+// The user's calendar day, not UTC's: a sale made this evening is today's.
+const today = () => dayKey(new Date());
+
+const text = (n: number | null | undefined) =>
+  typeof n === "number" ? String(n) : "";
+
+const flagValue = (v: boolean | undefined): Flag =>
+  v === undefined ? "" : v ? "yes" : "no";
+
+const flag = (v: Flag) => (v === "" ? undefined : v === "yes");
+
+export const watchFormValues = (
+  watch: WatchItem | null,
+  defaultCurrency: string
+): WatchFormValues => {
+  const fees = watch?.saleFees;
+  return {
+    model: watch?.model ?? "",
+    purchaseDate: watch ? (watch.purchaseDate ?? "") : today(),
+    purchasePrice: text(watch?.purchasePrice),
+    purchaseCurrency: watch ? currencyOf(watch, "purchase") : defaultCurrency,
+    partsCost: "",
+    postedPrice: text(watch?.postedPrice),
+    postedCurrency:
+      watch?.postedCurrency || watch?.purchaseCurrency || defaultCurrency,
+    notes: watch?.notes ?? "",
+    brand: watch?.brand ?? "",
+    reference: watch?.reference ?? "",
+    serial: watch?.serial ?? "",
+    movement: watch?.movement ?? "",
+    caseSize: text(watch?.caseSizeMm),
+    caseMaterial: watch?.caseMaterial ?? "",
+    year: text(watch?.year),
+    hasBox: flagValue(watch?.hasBox),
+    hasPapers: flagValue(watch?.hasPapers),
+    sellerId: watch?.sellerId ?? "",
+    soldPrice: text(watch?.soldPrice),
+    soldCurrency: watch?.soldCurrency || defaultCurrency,
+    dateSold: watch?.dateSold || today(),
+    saleChannel: watch?.saleChannel ?? "",
+    platformFee: text(fees?.platform),
+    paymentFee: text(fees?.payment),
+    shipping: text(fees?.shipping),
+    tax: text(fees?.tax),
+    buyerId: watch?.buyerId ?? "",
+  };
+};
+
+// Platform and payment fees pre-filled from the chosen channel's profile.
+export const withChannelFees = (
+  values: WatchFormValues,
+  profile: FeeProfile | undefined
+): WatchFormValues => {
+  const price = parseAmount(values.soldPrice);
+  if (!profile || price === null) return values;
+  const fees = feesFor(profile, price);
+  return {
+    ...values,
+    platformFee: String(fees.platform),
+    paymentFee: String(fees.payment),
+  };
+};
+
+const isDate = (v: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(v) && !Number.isNaN(new Date(v).getTime());
+
+export const validateWatchForm = (
+  values: WatchFormValues,
+  mode: WatchFormMode
+): WatchFormErrors => {
+  const errors: WatchFormErrors = {};
+  const amount = (field: keyof WatchFormValues, { required = false } = {}) => {
+    const v = values[field].trim();
+    if (!v) {
+      if (required) errors[field] = "Required";
+      return;
+    }
+    const n = parseAmount(v);
+    if (n === null) errors[field] = "Not a number";
+    else if (n < 0) errors[field] = "Can't be negative";
+  };
+
+  if (!isSaleMode(mode)) {
+    if (!values.model.trim()) errors.model = "Enter a model name";
+    if (values.purchaseDate && !isDate(values.purchaseDate)) {
+      errors.purchaseDate = "Not a valid date";
+    }
+    amount("purchasePrice", { required: true });
+    if (mode === "add") amount("partsCost");
+    amount("postedPrice");
+    const caseSize = values.caseSize.trim();
+    if (caseSize && !((parseAmount(caseSize) ?? 0) > 0)) {
+      errors.caseSize = "Enter the diameter in mm";
+    }
+    const year = values.year.trim();
+    if (year && !isProductionYear(Number(year))) {
+      errors.year = "Enter a four-digit year";
+    }
+    return errors;
+  }
+
+  amount("soldPrice");
+  if (!isDate(values.dateSold)) errors.dateSold = "Pick the sale date";
+  else if (values.dateSold > today()) {
+    errors.dateSold = "Can't be in the future";
+  } else if (values.purchaseDate && values.dateSold < values.purchaseDate) {
+    errors.dateSold = `Before the purchase date (${values.purchaseDate})`;
+  }
+  for (const field of [
+    "platformFee",
+    "paymentFee",
+    "shipping",
+    "tax",
+  ] as const) {
+    amount(field);
+  }
+  return errors;
+};
+
+// Applies validated values; `watch` is null when adding.
+export const applyWatchForm = (
+  watch: WatchItem | null,
+  values: WatchFormValues,
+  mode: WatchFormMode
+): WatchItem => {
+  const num = (v: string) => parseAmount(v) ?? 0;
+  const optionalNum = (v: string) => (v.trim() ? num(v) : null);
+
+  const base: WatchItem = watch ?? {
+    id: crypto.randomUUID(),
+    model: "",
+    purchasePrice: 0,
+    partsCost: 0,
+    postedPrice: null,
+    soldPrice: null,
+    status: AVAILABLE,
+    dateSold: null,
+    purchaseDate: null,
+  };
+
+  if (!isSaleMode(mode)) {
+    return {
+      ...base,
+      model: values.model.trim(),
+      purchaseDate: values.purchaseDate || null,
+      purchasePrice: num(values.purchasePrice),
+      purchaseCurrency: values.purchaseCurrency,
+      postedPrice: optionalNum(values.postedPrice),
+      postedCurrency: values.postedCurrency,
+      notes: values.notes.trim() || undefined,
+      brand: values.brand.trim() || undefined,
+      reference: values.reference.trim() || undefined,
+      serial: values.serial.trim() || undefined,
+      movement: values.movement.trim() || undefined,
+      caseSizeMm: optionalNum(values.caseSize),
+      caseMaterial: values.caseMaterial.trim() || undefined,
+      year: optionalNum(values.year),
+      hasBox: flag(values.hasBox),
+      hasPapers: flag(values.hasPapers),
+      sellerId: values.sellerId || undefined,
+      ...(mode === "add" && {
+        partsCost: num(values.partsCost),
+        partsCurrency: values.purchaseCurrency,
+      }),
+    };
+  }
+
+  const saleFees: SaleFees = {
+    platform: num(values.platformFee),
+    payment: num(values.paymentFee),
+    shipping: num(values.shipping),
+    tax: num(values.tax),
+  };
+  return {
+    ...base,
+    soldPrice: optionalNum(values.soldPrice),
+    soldCurrency: values.soldCurrency,
+    dateSold: values.dateSold,
+    saleChannel: values.saleChannel || undefined,
+    saleFees: totalFees(saleFees) ? saleFees : undefined,
+    buyerId: values.buyerId || undefined,
+  };
+};
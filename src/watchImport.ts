@@ -0,0 +1,573 @@
+import type {
+  ImportField,
+  Lifecycle,
+  MappingProfile,
+  Tag,
+  WatchItem,
+} from "./types.ts";
+import {
+  detectDateFormat,
+  detectNumberFormat,
+  parseDateAs,
+  parseNumber,
+  type DateFormat,
+  type NumberFormat,
+} from "./formats.ts";
+import { currencyOf, isCurrencyCode } from "./currency.ts";
+import { toCSV, type CsvDelimiter } from "./csv.ts";
+import { reconcileLedger } from "./costLedger.ts";
+import { reconcileListings } from "./listings.ts";
+import {
+  flagText,
+  isProductionYear,
+  parseFlag,
+  TEXT_ATTRIBUTES,
+} from "./attributes.ts";
+import {
+  allowedNext,
+  AVAILABLE,
+  DEFAULT_LIFECYCLE,
+  matchStatus,
+  statusGroup,
+  withInitialStatus,
+  withoutSale,
+  withStatus,
+} from "./lifecycle.ts";
+import { findTag, formatTagList, parseTagList } from "./tags.ts";
+
+export type ImportMode = "replace" | "append" | "merge";
+
+export type ParseOptions = {
+  dateFormat: DateFormat;
+  numberFormat: NumberFormat;
+  lifecycle?: Lifecycle; // statuses the status column may name
+  tags?: Tag[]; // tags the tags column may name
+};
+
+// Column index for each field present in the file.
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ParsedWatchRow = {
+  line: number; // 1-based line in the file, header = 1
+  values: Partial<WatchItem>; // only the fields the file has columns for
+  error?: string;
+};
+
+export type ImportRowStatus = "new" | "updated" | "unchanged" | "skipped";
+
+export type ImportRow = {
+  line: number;
+  status: ImportRowStatus;
+  model: string;
+  purchaseDate: string | null;
+  reason?: string;
+  changedFields?: (keyof WatchItem)[];
+};
+
+export type ImportPlan = {
+  rows: ImportRow[];
+  items: WatchItem[];
+  removed: WatchItem[];
+};
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  id: "ID",
+  model: "Model",
+  purchaseDate: "Date purchased",
+  purchasePrice: "Purchase price",
+  partsCost: "Parts cost",
+  postedPrice: "Posted sale price",
+  soldPrice: "Sold price",
+  status: "Status",
+  dateSold: "Date sold",
+  notes: "Notes",
+  purchaseCurrency: "Purchase currency",
+  partsCurrency: "Parts currency",
+  postedCurrency: "Posted currency",
+  soldCurrency: "Sold currency",
+  brand: "Brand",
+  reference: "Reference",
+  serial: "Serial number",
+  movement: "Movement",
+  caseSizeMm: "Case size (mm)",
+  caseMaterial: "Case material",
+  year: "Year",
+  hasBox: "Box",
+  hasPapers: "Papers",
+  tags: "Tags",
+};
+
+// Known header spellings, ours first, then common marketplace/sheet exports.
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  id: ["id", "watch id"],
+  model: [
+    "watch model",
+    "model",
+    "item title",
+    "title",
+    "item",
+    "watch",
+    "name",
+  ],
+  purchaseDate: [
+    "date purchased",
+    "purchase date",
+    "date bought",
+    "bought",
+    "order date",
+  ],
+  purchasePrice: ["purchase price", "price paid", "buy price", "cost", "paid"],
+  partsCost: ["parts cost", "parts", "repair cost", "service cost"],
+  postedPrice: [
+    "posted sale price",
+    "asking price",
+    "list price",
+    "listing price",
+  ],
+  soldPrice: ["sold price", "sale price", "sold for", "final price"],
+  status: ["status"],
+  dateSold: ["date sold", "sold date", "sale date"],
+  notes: ["notes", "note", "comments", "comment", "description"],
+  purchaseCurrency: ["purchase currency", "currency"],
+  partsCurrency: ["parts currency"],
+  postedCurrency: ["posted currency", "listing currency"],
+  soldCurrency: ["sold currency", "sale currency"],
+  brand: ["brand", "make", "manufacturer"],
+  reference: ["reference", "reference number", "ref", "ref."],
+  serial: ["serial", "serial number", "serial no", "serial no."],
+  movement: ["movement", "calibre", "caliber"],
+  caseSizeMm: ["case size (mm)", "case size", "case diameter", "diameter"],
+  caseMaterial: ["case material", "material"],
+  year: ["year", "production year"],
+  hasBox: ["box"],
+  hasPapers: ["papers"],
+  tags: ["tags", "tag", "collections", "labels"],
+};
+
+const DATE_FIELDS: ImportField[] = ["purchaseDate", "dateSold"];
+const MONEY_FIELDS: ImportField[] = [
+  "purchasePrice",
+  "partsCost",
+  "postedPrice",
+  "soldPrice",
+];
+
+// The Watches CSV export. Every header is one of the aliases above, so a file
+// exported here imports back as the same watches.
+export const watchesCSV = (
+  watches: WatchItem[],
+  tags: Tag[],
+  delimiter: CsvDelimiter = ","
+) => {
+  const header = [
+    "Watch Model",
+    "Date Purchased",
+    "Purchase Price",
+    "Parts Cost",
+    "Posted Sale Price",
+    "Sold Price",
+    "Status",
+    "Date Sold",
+    "Notes",
+    "ID",
+    "Purchase Currency",
+    "Parts Currency",
+    "Posted Currency",
+    "Sold Currency",
+    "Brand",
+    "Reference",
+    "Serial Number",
+    "Movement",
+    "Case Size (mm)",
+    "Case Material",
+    "Year",
+    "Box",
+    "Papers",
+    "Tags",
+  ];
+
+  const rows = watches.map((w) => [
+    w.model,
+    w.purchaseDate ?? "",
+    w.purchasePrice,
+    w.partsCost,
+    w.postedPrice ?? "",
+    w.soldPrice ?? "",
+    w.status,
+    w.dateSold ?? "",
+    w.notes ?? "",
+    w.id,
+    currencyOf(w, "purchase"),
+    currencyOf(w, "parts"),
+    currencyOf(w, "posted"),
+    currencyOf(w, "sold"),
+    w.brand ?? "",
+    w.reference ?? "",
+    w.serial ?? "",
+    w.movement ?? "",
+    w.caseSizeMm ?? "",
+    w.caseMaterial ?? "",
+    w.year ?? "",
+    flagText(w.hasBox),
+    flagText(w.hasPapers),
+    formatTagList(w, tags),
+  ]);
+
+  return toCSV([header, ...rows], delimiter);
+};
+
+export const normaliseHeader = (h: string) =>
+  h.trim().toLowerCase().replace(/\s+/g, " ");
+
+// Best guess for an unfamiliar file: first matching alias wins per field.
+export const detectColumns = (header: string[]): ColumnMapping => {
+  const normalised = header.map(normaliseHeader);
+  const mapping: ColumnMapping = {};
+  const taken = new Set<number>();
+  (Object.keys(HEADER_ALIASES) as ImportField[]).forEach((field) => {
+    for (const alias of HEADER_ALIASES[field]) {
+      const idx = normalised.indexOf(alias);
+      if (idx >= 0 && !taken.has(idx)) {
+        mapping[field] = idx;
+        taken.add(idx);
+        return;
+      }
+    }
+  });
+  return mapping;
+};
+
+export const mappingFromProfile = (
+  header: string[],
+  profile: MappingProfile
+): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  header.map(normaliseHeader).forEach((h, idx) => {
+    const field = profile.columns[h];
+    if (field && mapping[field] === undefined) mapping[field] = idx;
+  });
+  return mapping;
+};
+
+// A saved profile whose headers are exactly this file's headers.
+export const findProfileFor = (
+  header: string[],
+  profiles: MappingProfile[]
+) => {
+  const signature = header.map(normaliseHeader).join("|");
+  return profiles.find((p) => p.headers.join("|") === signature) ?? null;
+};
+
+export const detectFormats = (
+  records: string[][],
+  mapping: ColumnMapping
+): ParseOptions => {
+  const columnValues = (fields: ImportField[]) =>
+    fields.flatMap((f) => {
+      const idx = mapping[f];
+      return idx === undefined ? [] : records.map((r) => r[idx] ?? "");
+    });
+  return {
+    dateFormat: detectDateFormat(columnValues(DATE_FIELDS)),
+    numberFormat: detectNumberFormat(columnValues(MONEY_FIELDS)),
+  };
+};
+
+export const parseWatchRows = (
+  records: string[][],
+  mapping: ColumnMapping,
+  {
+    dateFormat,
+    numberFormat,
+    lifecycle = DEFAULT_LIFECYCLE,
+    tags = [],
+  }: ParseOptions
+): ParsedWatchRow[] =>
+  records.map((cols, i) => {
+    const line = i + 2;
+    const cell = (field: ImportField) => {
+      const idx = mapping[field];
+      return idx === undefined ? undefined : (cols[idx] ?? "").trim();
+    };
+    const values: Partial<WatchItem> = {};
+
+    const id = cell("id");
+    if (id) values.id = id;
+
+    const model = cell("model");
+    if (!model) return { line, values, error: "Missing model" };
+    values.model = model;
+
+    for (const [field, label] of [
+      ["purchaseDate", "purchase date"],
+      ["dateSold", "sold date"],
+    ] as const) {
+      const v = cell(field);
+      if (v === undefined) continue;
+      const iso = v ? parseDateAs(v, dateFormat) : null;
+      if (v && !iso) {
+        return { line, values, error: `Invalid ${label} "${v}"` };
+      }
+      values[field] = iso;
+    }
+
+    for (const field of ["purchasePrice", "partsCost"] as const) {
+      const v = cell(field);
+      if (v !== undefined) values[field] = v ? parseNumber(v, numberFormat) : 0;
+    }
+    for (const field of ["postedPrice", "soldPrice"] as const) {
+      const v = cell(field);
+      if (v !== undefined) {
+        values[field] = v ? parseNumber(v, numberFormat) : null;
+      }
+    }
+
+    const status = cell("status");
+    if (status) {
+      const known = matchStatus(lifecycle, status);
+      if (!known) return { line, values, error: `Unknown status "${status}"` };
+      values.status = known;
+    } else if (status !== undefined) {
+      values.status = AVAILABLE;
+    }
+
+    const notes = cell("notes");
+    if (notes !== undefined) values.notes = notes || undefined;
+
+    for (const field of TEXT_ATTRIBUTES) {
+      const v = cell(field);
+      if (v !== undefined) values[field] = v || undefined;
+    }
+
+    const caseSize = cell("caseSizeMm");
+    if (caseSize !== undefined) {
+      const n = caseSize ? parseNumber(caseSize, numberFormat) : null;
+      if (n !== null && !(n > 0)) {
+        return { line, values, error: `Invalid case size "${caseSize}"` };
+      }
+      values.caseSizeMm = n;
+    }
+
+    const year = cell("year");
+    if (year !== undefined) {
+      const n = year ? Number(year) : null;
+      if (n !== null && !isProductionYear(n)) {
+        return { line, values, error: `Invalid year "${year}"` };
+      }
+      values.year = n;
+    }
+
+    for (const field of ["hasBox", "hasPapers"] as const) {
+      const v = cell(field);
+      if (!v) continue;
+      const flag = parseFlag(v);
+      if (flag === null) {
+        return { line, values, error: `Expected yes or no, got "${v}"` };
+      }
+      values[field] = flag;
+    }
+
+    const tagCell = cell("tags");
+    if (tagCell !== undefined) {
+      const ids: string[] = [];
+      for (const name of parseTagList(tagCell)) {
+        const tag = findTag(tags, name);
+        if (!tag) return { line, values, error: `Unknown tag "${name}"` };
+        ids.push(tag.id);
+      }
+      values.tags = ids.length ? ids : undefined;
+    }
+
+    for (const field of [
+      "purchaseCurrency",
+      "partsCurrency",
+      "postedCurrency",
+      "soldCurrency",
+    ] as const) {
+      const v = cell(field)?.toUpperCase();
+      if (!v) continue;
+      if (!isCurrencyCode(v)) {
+        return { line, values, error: `Unknown currency "${v}"` };
+      }
+      values[field] = v;
+    }
+
+    return { line, values };
+  });
+
+// Every name in the tags column, so missing tags can be created first.
+export const importedTagNames = (
+  records: string[][],
+  mapping: ColumnMapping
+): string[] => {
+  const idx = mapping.tags;
+  if (idx === undefined) return [];
+  return records.flatMap((cols) => parseTagList(cols[idx] ?? ""));
+};
+
+// Tag lists compare by content; order doesn't matter.
+const sameValue = (a: unknown, b: unknown) => {
+  const list = (v: unknown) =>
+    Array.isArray(v) ? [...v].sort().join("\n") : "";
+  return Array.isArray(a) || Array.isArray(b)
+    ? list(a) === list(b)
+    : (a ?? null) === (b ?? null);
+};
+
+const matchKey = (model: string, purchaseDate: string | null | undefined) =>
+  `${model.trim().toLowerCase()}|${purchaseDate || ""}`;
+
+const newWatch = (values: Partial<WatchItem>, id: string): WatchItem => ({
+  model: "",
+  purchasePrice: 0,
+  partsCost: 0,
+  postedPrice: null,
+  soldPrice: null,
+  status: AVAILABLE,
+  dateSold: null,
+  purchaseDate: null,
+  notes: undefined,
+  ...values,
+  id,
+});
+
+// Works out what importing `parsed` would do without touching any state.
+// Rows match an existing watch by ID column first, then by a serial number
+// only one watch has, then by model + purchase date; matched watches keep
+// their ID so wear history stays attached.
+// A matched watch only changes status along the lifecycle's allowed moves,
+// and leaving the sold group drops its sale, as a status change in the app
+// does.
+export const planWatchImport = (
+  existing: WatchItem[],
+  parsed: ParsedWatchRow[],
+  mode: ImportMode,
+  lifecycle: Lifecycle = DEFAULT_LIFECYCLE
+): ImportPlan => {
+  const byId = new Map(existing.map((w) => [w.id, w]));
+  const bySerial = new Map<string, WatchItem[]>();
+  existing.forEach((w) => {
+    const serial = w.serial?.trim().toLowerCase();
+    if (serial) bySerial.set(serial, [...(bySerial.get(serial) || []), w]);
+  });
+  const byKey = new Map<string, WatchItem[]>();
+  existing.forEach((w) => {
+    const key = matchKey(w.model, w.purchaseDate);
+    byKey.set(key, [...(byKey.get(key) || []), w]);
+  });
+
+  const rows: ImportRow[] = [];
+  const updates = new Map<string, WatchItem>();
+  const claimedBy = new Map<string, number>();
+  const added: WatchItem[] = [];
+  const usedIds = new Set(existing.map((w) => w.id));
+
+  parsed.forEach(({ line, values, error }) => {
+    const base = {
+      line,
+      model: values.model ?? "",
+      purchaseDate: values.purchaseDate ?? null,
+    };
+    if (error) {
+      rows.push({ ...base, status: "skipped", reason: error });
+      return;
+    }
+
+    const serialMatches =
+      bySerial.get(values.serial?.trim().toLowerCase() ?? "") || [];
+    let match: WatchItem | undefined;
+    if (values.id && byId.has(values.id)) {
+      match = byId.get(values.id);
+    } else if (serialMatches.length === 1) {
+      match = serialMatches[0];
+    } else {
+      const candidates =
+        byKey.get(matchKey(values.model ?? "", values.purchaseDate)) || [];
+      if (candidates.length > 1 && mode !== "append") {
+        rows.push({
+          ...base,
+          status: "skipped",
+          reason: `Ambiguous: ${candidates.length} watches share this model and purchase date`,
+        });
+        return;
+      }
+      match = candidates[0];
+    }
+
+    if (match) {
+      const firstLine = claimedBy.get(match.id);
+      if (firstLine !== undefined) {
+        rows.push({
+          ...base,
+          status: "skipped",
+          reason: `Duplicate of line ${firstLine}`,
+        });
+        return;
+      }
+      claimedBy.set(match.id, line);
+
+      if (mode === "append") {
+        rows.push({
+          ...base,
+          status: "skipped",
+          reason: "Already in inventory",
+        });
+        return;
+      }
+
+      const to = values.status ?? match.status;
+      if (
+        to !== match.status &&
+        !allowedNext(lifecycle, match.status).includes(to)
+      ) {
+        // Kept as it is, even when the import replaces everything else.
+        updates.set(match.id, match);
+        rows.push({
+          ...base,
+          status: "skipped",
+          reason: `Can't move from ${match.status} to ${to}`,
+        });
+        return;
+      }
+      const moved = withStatus(
+        { ...match, ...values, id: match.id, status: match.status },
+        to
+      );
+      const merged = reconcileListings(
+        match,
+        reconcileLedger(
+          match,
+          statusGroup(lifecycle, match.status) === "sold" &&
+            statusGroup(lifecycle, to) !== "sold"
+            ? withoutSale(moved)
+            : moved
+        )
+      );
+      const changedFields = (Object.keys(values) as (keyof WatchItem)[]).filter(
+        (k) => k !== "id" && !sameValue(match[k], merged[k])
+      );
+      updates.set(match.id, changedFields.length ? merged : match);
+      rows.push({
+        ...base,
+        status: changedFields.length ? "updated" : "unchanged",
+        changedFields,
+      });
+      return;
+    }
+
+    // Keep the file's ID when it is free so a later re-import still matches.
+    const id =
+      values.id && !usedIds.has(values.id) ? values.id : crypto.randomUUID();
+    usedIds.add(id);
+    added.push(withInitialStatus(newWatch(values, id)));
+    rows.push({ ...base, status: "new" });
+  });
+
+  const kept =
+    mode === "replace" ? existing.filter((w) => updates.has(w.id)) : existing;
+  const items = [...added, ...kept.map((w) => updates.get(w.id) ?? w)];
+  const removed =
+    mode === "replace" ? existing.filter((w) => !updates.has(w.id)) : [];
+
+  return { rows, items, removed };
+};